@@ -0,0 +1,76 @@
+import {
+	useState,
+	useContext,
+	useContextSelector,
+	createContext,
+	memo
+} from 'react';
+
+// 对比 useContext 与 useContextSelector：修改一项时，
+// useContext 会让所有 Item 重新渲染，useContextSelector 只会重新渲染被修改的那一项
+const ITEM_COUNT = 1000;
+
+interface Store {
+	items: number[];
+}
+
+const StoreContext = createContext<Store>({ items: [] });
+
+let renderCount = 0;
+
+export default function App() {
+	const [store, setStore] = useState<Store>(() => ({
+		items: new Array(ITEM_COUNT).fill(0)
+	}));
+	const [selectorMode, setSelectorMode] = useState(true);
+
+	const increment = () => {
+		const index = Math.floor(Math.random() * ITEM_COUNT);
+		renderCount = 0;
+		const start = performance.now();
+		setStore((prev) => {
+			const items = prev.items.slice();
+			items[index]++;
+			return { items };
+		});
+		setTimeout(() => {
+			console.log(
+				`${selectorMode ? 'useContextSelector' : 'useContext'}: ` +
+					`${renderCount} 个 Item 重新渲染，耗时 ${(
+						performance.now() - start
+					).toFixed(2)}ms`
+			);
+		});
+	};
+
+	return (
+		<StoreContext.Provider value={store}>
+			<button onClick={increment}>随机修改一项</button>
+			<button onClick={() => setSelectorMode(!selectorMode)}>
+				切换为 {selectorMode ? 'useContext' : 'useContextSelector'}
+			</button>
+			<List selectorMode={selectorMode} />
+		</StoreContext.Provider>
+	);
+}
+
+const List = memo(function ({ selectorMode }: { selectorMode: boolean }) {
+	const Item = selectorMode ? SelectorItem : ContextItem;
+	const children = [];
+	for (let i = 0; i < ITEM_COUNT; i++) {
+		children.push(<Item key={i} index={i} />);
+	}
+	return <ul>{children}</ul>;
+});
+
+function ContextItem({ index }: { index: number }) {
+	const store = useContext(StoreContext);
+	renderCount++;
+	return <li>{store.items[index]}</li>;
+}
+
+function SelectorItem({ index }: { index: number }) {
+	const value = useContextSelector(StoreContext, (store) => store.items[index]);
+	renderCount++;
+	return <li>{value}</li>;
+}
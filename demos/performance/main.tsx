@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client';
 
 // import App from './Simple';
 import App from './Context';
+// import App from './ContextSelector';
 // import App from './Hook';
 // import App from './Principle_demo1';
 // import App from './Principle_demo2';
@@ -5,9 +5,25 @@ import {
 	unstable_runWithPriority,
 	unstable_UserBlockingPriority
 } from 'scheduler';
+import {
+	FiberNode,
+	FiberRootNode,
+	PortalStateNode
+} from 'react-reconciler/src/fiber';
+import {
+	HostComponent,
+	HostPortal,
+	HostRoot
+} from 'react-reconciler/src/workTags';
 import { Props } from 'shared/ReactTypes';
 
 export const elementPropsKey = '__props';
+export const internalInstanceKey = '__fiber';
+
+/**
+ * @description 已经监听过事件的 portal 容器，避免多个 portal 渲染到同一个容器时重复监听
+ */
+const listeningPortalContainers = new WeakSet<Container>();
 
 /**
  * @param validEventTypeList 一个数组，列出了支持的事件类型
@@ -36,6 +52,14 @@ interface Paths {
  */
 export interface DOMElement extends Element {
 	[elementPropsKey]: Props;
+	[internalInstanceKey]?: FiberNode;
+}
+
+/**
+ * @description 把 DOM 节点对应的 fiber 存储到节点的 __fiber 属性上，事件触发时从这里回到 React 树
+ */
+export function precacheFiberNode(fiber: FiberNode, node: DOMElement) {
+	node[internalInstanceKey] = fiber;
 }
 
 /**
@@ -49,8 +73,13 @@ export function updateFiberProps(node: DOMElement, props: Props) {
  * @description 初始化事件监听的入口，所有该类型的事件（比如所有的点击事件）都会先被这个根容器上的监听器捕获
  * @param container DOM 根节点
  * @param eventType 事件类型
+ * @param onError 事件回调抛出错误时的回调，通常是 root 的 `onUncaughtError`
  */
-export function initEvent(container: Container, eventType: string) {
+export function initEvent(
+	container: Container,
+	eventType: string,
+	onError: (error: unknown) => void
+) {
 	if (!validEventTypeList.includes(eventType)) {
 		console.warn('当前不支持', eventType, '事件');
 		return;
@@ -60,7 +89,25 @@ export function initEvent(container: Container, eventType: string) {
 	}
 
 	container.addEventListener(eventType, (e) => {
-		dispatchEvent(container, eventType, e);
+		dispatchEvent(container, eventType, e, onError);
+	});
+}
+
+/**
+ * @description 在 portal 的容器上监听所有支持的事件。
+ *              portal 的容器可能被多个 root 共用，事件回调中的错误交给目标节点所在 root 的 `onUncaughtError`。
+ * @param container portal 的容器
+ */
+export function listenToPortalContainer(container: Container) {
+	if (listeningPortalContainers.has(container)) {
+		return;
+	}
+	listeningPortalContainers.add(container);
+
+	validEventTypeList.forEach((eventType) => {
+		container.addEventListener(eventType, (e) => {
+			dispatchEvent(container, eventType, e, null);
+		});
 	});
 }
 
@@ -86,17 +133,25 @@ function createSyntheticEvent(e: Event) {
 
 /**
  * @description
- * * 联系：当根容器上注册的事件监听器被触发时，它会被调用。
+ * * 联系：当根容器或 portal 容器上注册的事件监听器被触发时，它会被调用。
  * * 流程：
- *      * 从事件的实际目标元素（e.target）开始，向上遍历 DOM 树，收集所有路径上定义的 React 事件处理函数（捕获阶段和冒泡阶段的）。
+ *      * 找到事件的实际目标元素（e.target）对应的 fiber，只处理挂载在当前容器中的节点（嵌套的容器由它们自己的监听器处理）。
+ *      * 从这个 fiber 开始，沿着 React 树向上遍历，收集所有路径上定义的 React 事件处理函数（捕获阶段和冒泡阶段的）。
+ *        因为沿着 React 树而不是 DOM 树，portal 中的事件也会冒泡到创建 portal 的组件。
  *      * 创建一个 React 的合成事件对象（SyntheticEvent），它包装了原生事件对象 e，并提供了一些 React 特有的行为（比如 stopPropagation 的自定义实现）。
  *      * 按照捕获和冒泡的顺序，依次执行收集到的 React 事件处理函数
- * @param container
+ * @param container 注册监听器的容器
  * @param eventType
  * @param e
+ * @param onError 事件回调抛出错误时的回调，为 `null` 时交给目标节点所在 root 的 `onUncaughtError`
  * @returns
  */
-function dispatchEvent(container: Container, eventType: string, e: Event) {
+function dispatchEvent(
+	container: Container,
+	eventType: string,
+	e: Event,
+	onError: ((error: unknown) => void) | null
+) {
 	const targetElement = e.target;
 
 	if (targetElement === null) {
@@ -104,24 +159,81 @@ function dispatchEvent(container: Container, eventType: string, e: Event) {
 		return;
 	}
 
-	// 1. 收集沿途的事件
-	const { bubble, capture } = collectPaths(
+	const targetFiber = getClosestFiberFromNode(
 		targetElement as DOMElement,
-		container,
-		eventType
+		container
 	);
+	if (targetFiber === null || getHostContainer(targetFiber) !== container) {
+		return;
+	}
+
+	// 1. 收集沿途的事件
+	const { bubble, capture } = collectPaths(targetFiber, eventType);
 	// 2. 构造合成事件
 	const se = createSyntheticEvent(e);
 
+	const reportError =
+		onError !== null
+			? onError
+			: (error: unknown) => getRootForFiber(targetFiber).onUncaughtError(error);
+
 	// 3. 遍历captue
-	triggerEventFlow(capture, se);
+	triggerEventFlow(capture, se, reportError);
 
 	if (!se.__stopPropagation) {
 		// 4. 遍历bubble
-		triggerEventFlow(bubble, se);
+		triggerEventFlow(bubble, se, reportError);
 	}
 }
 
+/**
+ * @description 从事件目标开始沿 DOM 树向上，找到最近的由 React 创建的节点对应的 fiber
+ * @param targetElement 事件目标
+ * @param container 注册监听器的容器，到达容器时停止
+ */
+function getClosestFiberFromNode(
+	targetElement: DOMElement,
+	container: Container
+): FiberNode | null {
+	let node: DOMElement | null = targetElement;
+	while (node && node !== container) {
+		const fiber = node[internalInstanceKey];
+		if (fiber) {
+			return fiber;
+		}
+		node = node.parentNode as DOMElement | null;
+	}
+	return null;
+}
+
+/**
+ * @description 找到 fiber 的 DOM 节点挂载在哪个容器中：最近的 HostPortal 的容器或者 root 的容器
+ */
+function getHostContainer(fiber: FiberNode): Container | null {
+	let node = fiber.return;
+	while (node !== null) {
+		if (node.tag === HostPortal) {
+			return (node.stateNode as PortalStateNode).containerInfo;
+		}
+		if (node.tag === HostRoot) {
+			return (node.stateNode as FiberRootNode).container;
+		}
+		node = node.return;
+	}
+	return null;
+}
+
+/**
+ * @description 沿着 `return` 找到 fiber 所在的 FiberRootNode
+ */
+function getRootForFiber(fiber: FiberNode): FiberRootNode {
+	let node = fiber;
+	while (node.return !== null) {
+		node = node.return;
+	}
+	return node.stateNode as FiberRootNode;
+}
+
 /**
  * @function triggerEventFlow
  * @description 负责按照顺序执行一个阶段（捕获或冒泡）收集到的所有事件处理函数。
@@ -129,6 +241,7 @@ function dispatchEvent(container: Container, eventType: string, e: Event) {
  *              来确保每个回调在与事件类型相对应的 React 优先级下执行。
  *              如果在执行某个回调后，合成事件的 `__stopPropagation` 标志被设置为 true，
  *              则会停止执行后续的回调，从而实现事件停止传播的逻辑。
+ *              回调抛出的错误交给 `onError` 报告，不会影响后续回调的执行。
  *
  * @param {EventCallback[]} paths - 一个包含事件处理回调函数的数组。
  *                                  这些回调函数是先前通过 `collectPaths` 函数
@@ -136,13 +249,22 @@ function dispatchEvent(container: Container, eventType: string, e: Event) {
  * @param {SyntheticEvent} se - 当前正在处理的合成事件对象。
  *                              它包装了原生的浏览器事件，并提供了额外的属性和方法，
  *                              如 `__stopPropagation` 标志和自定义的 `stopPropagation` 方法。
+ * @param {(error: unknown) => void} onError - 事件回调抛出错误时的回调。
  */
-function triggerEventFlow(paths: EventCallback[], se: SyntheticEvent) {
+function triggerEventFlow(
+	paths: EventCallback[],
+	se: SyntheticEvent,
+	onError: (error: unknown) => void
+) {
 	for (let i = 0; i < paths.length; i++) {
 		const callback = paths[i];
-		unstable_runWithPriority(eventTypeToSchdulerPriority(se.type), () => {
-			callback.call(null, se);
-		});
+		try {
+			unstable_runWithPriority(eventTypeToSchdulerPriority(se.type), () => {
+				callback.call(null, se);
+			});
+		} catch (error) {
+			onError(error);
+		}
 
 		if (se.__stopPropagation) {
 			break;
@@ -164,41 +286,41 @@ function getEventCallbackNameFromEventType(
 
 /**
  * @function collectPaths
- * @description 收集从事件目标元素到容器元素路径上所有相关的 React 事件处理函数。
- *              它会模拟事件的捕获和冒泡阶段，将路径上 DOM 元素对应的 React 组件中
+ * @description 收集从事件目标 fiber 到 HostRoot 路径上所有相关的 React 事件处理函数。
+ *              它会模拟事件的捕获和冒泡阶段，将路径上 HostComponent 的 props 中
  *              定义的事件处理函数分别收集到捕获数组和冒泡数组中。
+ *              路径沿着 React 树 (`fiber.return`) 而不是 DOM 树，所以 portal 中的事件
+ *              会经过创建 portal 的组件，即使它们在 DOM 中不是祖先关系。
  *
- * @param {DOMElement} targetElement - 实际触发事件的 DOM 元素。
- *                                     这个元素应该已经被 `updateFiberProps` 处理过，
- *                                     拥有 `[elementPropsKey]` (即 `__props`) 属性，
- *                                     其中存储了 React 组件的 props (包括事件处理函数)。
- * @param {Container} container - React 应用的根 DOM 容器元素。遍历将在此元素停止。
+ * @param {FiberNode} targetFiber - 实际触发事件的 DOM 元素对应的 fiber。
+ *                                  props 从 DOM 节点的 `[elementPropsKey]` (即 `__props`) 属性读取，
+ *                                  它在 commit 阶段由 `updateFiberProps` 保持最新。
  * @param {string} eventType - 发生的事件类型字符串，例如 'click'。
  *                             此类型会通过 `getEventCallbackNameFromEventType` 映射到
  *                             React prop 名称 (如 'onClick' 和 'onClickCapture')。
  * @returns {Paths} 一个包含两个数组的对象：
- *                  - `capture`: 按捕获顺序（从容器到目标元素的父级）排列的事件处理函数。
- *                  - `bubble`: 按冒泡顺序（从目标元素到容器的父级）排列的事件处理函数。
+ *                  - `capture`: 按捕获顺序（从根到目标元素）排列的事件处理函数。
+ *                  - `bubble`: 按冒泡顺序（从目标元素到根）排列的事件处理函数。
  */
-function collectPaths(
-	targetElement: DOMElement,
-	container: Container,
-	eventType: string
-) {
+function collectPaths(targetFiber: FiberNode, eventType: string) {
 	// 存储收集到的事件处理函数
 	const paths: Paths = {
 		capture: [], // 存储捕获阶段的函数
 		bubble: [] // 存储冒泡阶段的函数
 	};
+	// click -> onClick onClickCapture
+	const callbackNameList = getEventCallbackNameFromEventType(eventType);
+	if (!callbackNameList) {
+		return paths;
+	}
 
-	// 向上遍历
-	while (targetElement && targetElement !== container) {
-		// 收集事件处理函数
-		const elementProps = targetElement[elementPropsKey];
-		if (elementProps) {
-			// click -> onClick onClickCapture
-			const callbackNameList = getEventCallbackNameFromEventType(eventType);
-			if (callbackNameList) {
+	// 沿着 React 树向上遍历
+	let fiber: FiberNode | null = targetFiber;
+	while (fiber !== null) {
+		if (fiber.tag === HostComponent) {
+			// 收集事件处理函数
+			const elementProps = (fiber.stateNode as DOMElement)[elementPropsKey];
+			if (elementProps) {
 				callbackNameList.forEach((callbackName, i) => {
 					// onClick -> elementProps.onClick
 					const eventCallback = elementProps[callbackName];
@@ -213,7 +335,7 @@ function collectPaths(
 				});
 			}
 		}
-		targetElement = targetElement.parentNode as DOMElement;
+		fiber = fiber.return;
 	}
 	return paths;
 }
@@ -0,0 +1,121 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ */
+
+'use strict';
+
+let React;
+let ReactDOM;
+let Scheduler;
+let act;
+
+describe('ReactDOMPortal', () => {
+	let container;
+	let portalContainer;
+
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		ReactDOM = require('react-dom');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+
+		container = document.createElement('div');
+		portalContainer = document.createElement('div');
+		document.body.appendChild(container);
+		document.body.appendChild(portalContainer);
+	});
+
+	afterEach(() => {
+		document.body.removeChild(container);
+		document.body.removeChild(portalContainer);
+	});
+
+	test('renders children into the portal container and removes them on unmount', async () => {
+		const root = ReactDOM.createRoot(container);
+
+		function Modal() {
+			return ReactDOM.createPortal(<p>Modal</p>, portalContainer);
+		}
+
+		function App({ showModal }) {
+			return (
+				<div>
+					<span>App</span>
+					{showModal ? <Modal /> : null}
+				</div>
+			);
+		}
+
+		await act(async () => {
+			root.render(<App showModal={true} />);
+		});
+		expect(container.innerHTML).toBe('<div><span>App</span></div>');
+		expect(portalContainer.innerHTML).toBe('<p>Modal</p>');
+
+		await act(async () => {
+			root.render(<App showModal={false} />);
+		});
+		expect(container.innerHTML).toBe('<div><span>App</span></div>');
+		expect(portalContainer.innerHTML).toBe('');
+	});
+
+	test('passes context through the portal', async () => {
+		const root = ReactDOM.createRoot(container);
+		const ThemeContext = React.createContext('light');
+
+		function Modal() {
+			const theme = React.useContext(ThemeContext);
+			return <p>{theme}</p>;
+		}
+
+		await act(async () => {
+			root.render(
+				<ThemeContext.Provider value="dark">
+					<div>{ReactDOM.createPortal(<Modal />, portalContainer)}</div>
+				</ThemeContext.Provider>
+			);
+		});
+		expect(portalContainer.innerHTML).toBe('<p>dark</p>');
+	});
+
+	test('bubbles events through the React tree to parents of the portal', async () => {
+		const root = ReactDOM.createRoot(container);
+		let button;
+
+		await act(async () => {
+			root.render(
+				<div
+					onClickCapture={() => Scheduler.unstable_yieldValue('parent capture')}
+					onClick={() => Scheduler.unstable_yieldValue('parent bubble')}
+				>
+					{ReactDOM.createPortal(
+						<button
+							ref={(node) => {
+								button = node;
+							}}
+							onClick={() => Scheduler.unstable_yieldValue('button bubble')}
+						>
+							Open
+						</button>,
+						portalContainer
+					)}
+				</div>
+			);
+		});
+
+		button.click();
+		expect(Scheduler).toHaveYielded([
+			'parent capture',
+			'button bubble',
+			'parent bubble'
+		]);
+	});
+});
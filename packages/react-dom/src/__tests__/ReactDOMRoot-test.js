@@ -0,0 +1,67 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ */
+
+'use strict';
+
+let React;
+let ReactDOM;
+let Scheduler;
+let act;
+
+describe('ReactDOMRoot', () => {
+	let container;
+
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		ReactDOM = require('react-dom');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+
+		container = document.createElement('div');
+		document.body.appendChild(container);
+	});
+
+	afterEach(() => {
+		document.body.removeChild(container);
+	});
+
+	test('reports errors thrown by event handlers to onUncaughtError', async () => {
+		const root = ReactDOM.createRoot(container, {
+			onUncaughtError(error) {
+				Scheduler.unstable_yieldValue('onUncaughtError: ' + error.message);
+			}
+		});
+		let button;
+
+		await act(async () => {
+			root.render(
+				<div onClick={() => Scheduler.unstable_yieldValue('parent bubble')}>
+					<button
+						ref={(node) => {
+							button = node;
+						}}
+						onClick={() => {
+							throw new Error('Click');
+						}}
+					/>
+				</div>
+			);
+		});
+
+		button.click();
+		// 出错的回调不会影响后续回调的执行
+		expect(Scheduler).toHaveYielded([
+			'onUncaughtError: Click',
+			'parent bubble'
+		]);
+	});
+});
@@ -7,7 +7,12 @@
 import { FiberNode } from 'react-reconciler/src/fiber';
 import { HostComponent, HostText } from 'react-reconciler/src/workTags';
 import { Props } from 'shared/ReactTypes';
-import { DOMElement, updateFiberProps } from './SyntheticEvent';
+import {
+	DOMElement,
+	listenToPortalContainer,
+	precacheFiberNode,
+	updateFiberProps
+} from './SyntheticEvent';
 
 /**
  * @description 一个“容器”（Container）就是一个标准的浏览器 Element 对象
@@ -27,11 +32,17 @@ export type TextInstance = Text;
  * * 首次创建 DOM 节点
  * @param type
  * @param props
+ * @param internalInstanceHandle 对应的 fiber，合成事件沿着它在 React 树中冒泡
  * @returns
  */
-export const createInstance = (type: string, props: Props): Instance => {
+export const createInstance = (
+	type: string,
+	props: Props,
+	internalInstanceHandle: FiberNode
+): Instance => {
 	// TODO 处理props
 	const element = document.createElement(type) as unknown;
+	precacheFiberNode(internalInstanceHandle, element as DOMElement);
 	updateFiberProps(element as DOMElement, props);
 	return element as DOMElement;
 };
@@ -154,3 +165,13 @@ export function hideTextInstance(textInstance: TextInstance) {
 export function unhideTextInstance(textInstance: TextInstance, text: string) {
 	textInstance.nodeValue = text;
 }
+
+/**
+ * @description portal 首次挂载时调用，在 portal 的容器上监听事件，
+ *              这样渲染到其他容器 (例如 `document.body`) 中的节点也能触发合成事件。
+ *
+ * @param {Container} portalInstance - portal 的容器。
+ */
+export function preparePortalMount(portalInstance: Container) {
+	listenToPortalContainer(portalInstance);
+}
@@ -2,12 +2,16 @@
 
 import {
 	createContainer,
+	RootOptions,
 	updateContainer
 } from 'react-reconciler/src/fiberReconciler';
-import { ReactElementType } from 'shared/ReactTypes';
+import { REACT_PORTAL_TYPE } from 'shared/ReactSymbols';
+import { Key, ReactElementType, ReactPortal } from 'shared/ReactTypes';
 import { Container } from './hostConfig';
 import { initEvent } from './SyntheticEvent';
 
+export { inspectHooksOfFiber } from 'react-reconciler/src/fiberDebugHooks';
+
 /**
  * @function createRoot
  * @description 创建一个 React 应用的根。
@@ -18,6 +22,11 @@ import { initEvent } from './SyntheticEvent';
  *
  * @param {Container} container - 真实的 DOM 容器元素，React 应用将渲染到这个元素内部。
  *                                通常是一个通过 `document.getElementById()` 获取的 DOM 元素。
+ * @param {RootOptions} [options] - (可选) root 的配置。
+ *                                  - `identifierPrefix`: `useId` 生成的 id 的前缀，页面中存在多个 root 时用于避免冲突。
+ *                                  - `onUncaughtError`: 没有被边界捕获的错误 (包括事件回调中的错误) 的回调，默认通过 `reportError` 报告。
+ *                                  - `onCaughtError`: 被 `<ErrorBoundary>` 捕获的错误的回调。
+ *                                  - `onRecoverableError`: 并发渲染出错、同步重试后成功恢复时的回调。
  * @returns {{ render: (element: ReactElementType) => ReactElementType }}
  *          返回一个对象，该对象包含一个 `render` 方法。
  *          - `render(element: ReactElementType)`: 调用此方法可以将指定的 React 元素
@@ -25,13 +34,38 @@ import { initEvent } from './SyntheticEvent';
  *            如果容器中已经有内容，则会进行更新。
  *            它返回传入的 `element`。
  */
-export function createRoot(container: Container) {
-	const root = createContainer(container);
+export function createRoot(container: Container, options?: RootOptions) {
+	const root = createContainer(container, options);
 
 	return {
 		render(element: ReactElementType) {
-			initEvent(container, 'click');
+			initEvent(container, 'click', (error) => root.onUncaughtError(error));
 			return updateContainer(element, root);
 		}
 	};
 }
+
+/**
+ * @function createPortal
+ * @description 创建一个 portal，把 `children` 渲染到 `container` 中，而不是父组件的 DOM 节点中。
+ *              portal 在 React 树中仍然属于创建它的组件：Context 会穿过 portal 传递，
+ *              portal 中触发的合成事件也会沿着 React 树冒泡到父组件的事件处理函数。
+ *              常用于渲染到 `document.body` 中的对话框、提示框等。
+ *
+ * @param {any} children - 需要渲染到 `container` 中的子节点。
+ * @param {Container} container - 真实的 DOM 容器元素。
+ * @param {Key} [key] - (可选) portal 的 key，作为列表项时用于协调。
+ * @returns {ReactPortal} 可以作为子节点渲染的 portal 对象。
+ */
+export function createPortal(
+	children: any,
+	container: Container,
+	key: Key = null
+): ReactPortal {
+	return {
+		$$typeof: REACT_PORTAL_TYPE,
+		key: key == null ? null : '' + key,
+		children,
+		containerInfo: container
+	};
+}
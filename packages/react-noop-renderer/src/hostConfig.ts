@@ -23,7 +23,11 @@ export interface TextInstance {
 let instanceCounter = 0;
 
 // export const createInstance = (type: string, props: any): Instance => {
-export const createInstance = (type: string, props: Props): Instance => {
+export const createInstance = (
+	type: string,
+	props: Props,
+	internalInstanceHandle: FiberNode
+): Instance => {
 	const instance = {
 		id: instanceCounter++,
 		type,
@@ -121,3 +125,23 @@ export const scheduleMicroTask =
 			? (callback: (...args: any) => void) =>
 					Promise.resolve(null).then(callback)
 			: setTimeout;
+
+export function hideInstance(instance: Instance) {
+	instance.props.hidden = true;
+}
+
+export function unhideInstance(instance: Instance) {
+	instance.props.hidden = false;
+}
+
+export function hideTextInstance(textInstance: TextInstance) {
+	textInstance.text = '';
+}
+
+export function unhideTextInstance(textInstance: TextInstance, text: string) {
+	textInstance.text = text;
+}
+
+export function preparePortalMount(portalInstance: Container) {
+	// noop 渲染器没有事件系统，不需要在 portal 容器上做准备
+}
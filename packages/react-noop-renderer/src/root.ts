@@ -3,6 +3,7 @@
 import { Instance } from './hostConfig';
 import {
 	createContainer,
+	RootOptions,
 	updateContainer
 } from 'react-reconciler/src/fiberReconciler';
 import { REACT_ELEMENT_TYPE, REACT_FRAGMENT_TYPE } from 'shared/ReactSymbols';
@@ -10,16 +11,18 @@ import { ReactElementType } from 'shared/ReactTypes';
 import { Container } from './hostConfig';
 import * as Scheduler from 'scheduler';
 
+export { inspectHooksOfFiber } from 'react-reconciler/src/fiberDebugHooks';
+
 let idCounter = 0;
 
-export function createRoot() {
+export function createRoot(options?: RootOptions) {
 	const container: Container = {
 		rootID: idCounter++,
 		children: []
 	};
 
 	// @ts-ignore
-	const root = createContainer(container);
+	const root = createContainer(container, options);
 
 	function getChildren(parent: Container | Instance) {
 		if (parent) {
@@ -102,6 +105,9 @@ export function createRoot() {
 		},
 		getChildrenAsJSX() {
 			return getChildrenAsJSX(container);
+		},
+		getFiberRoot() {
+			return root;
 		}
 	};
 }
@@ -0,0 +1,121 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let cache;
+let Suspense;
+let use;
+let useCacheRefresh;
+
+describe('ReactCache', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		cache = React.cache;
+		Suspense = React.Suspense;
+		use = React.use;
+		useCacheRefresh = React.useCacheRefresh;
+	});
+
+	function Text({ text }) {
+		Scheduler.unstable_yieldValue(text);
+		return text;
+	}
+
+	test('memoizes results by argument identity during render', async () => {
+		const root = ReactNoop.createRoot();
+		const getLabel = cache((id, options) => {
+			Scheduler.unstable_yieldValue(`Compute ${id}`);
+			return `${options.prefix}${id}`;
+		});
+		const options = { prefix: '#' };
+
+		function Label({ id, options }) {
+			return getLabel(id, options);
+		}
+
+		await act(async () => {
+			root.render([
+				<Label key="a" id={1} options={options} />,
+				<Label key="b" id={1} options={options} />,
+				<Label key="c" id={2} options={options} />,
+				<Label key="d" id={2} options={{ prefix: '*' }} />
+			]);
+		});
+		expect(Scheduler).toHaveYielded(['Compute 1', 'Compute 2', 'Compute 2']);
+		expect(root).toMatchRenderedOutput('#1#1#2*2');
+	});
+
+	test('does not cache outside of render', () => {
+		const getValue = cache(() => {
+			Scheduler.unstable_yieldValue('Compute');
+			return {};
+		});
+		expect(getValue()).not.toBe(getValue());
+		expect(Scheduler).toHaveYielded(['Compute', 'Compute']);
+	});
+
+	test('keeps the same promise across renders and refreshes it with useCacheRefresh', async () => {
+		const root = ReactNoop.createRoot();
+		const requests = [];
+		const fetchText = cache((id) => {
+			Scheduler.unstable_yieldValue(`Fetch ${id}`);
+			return new Promise((resolve) => {
+				requests.push(() => resolve(`${id} v${requests.length}`));
+			});
+		});
+
+		let refresh;
+		function Content({ id }) {
+			refresh = useCacheRefresh();
+			return <Text text={use(fetchText(id))} />;
+		}
+
+		await act(async () => {
+			root.render(
+				<Suspense fallback={<Text text="Loading" />}>
+					<Content id="A" />
+				</Suspense>
+			);
+		});
+		expect(Scheduler).toHaveYielded(['Fetch A', 'Loading']);
+
+		// 重试时复用同一个 Promise
+		await act(async () => {
+			requests[0]();
+		});
+		expect(Scheduler).toHaveYielded(['A v1']);
+		expect(root).toMatchRenderedOutput('A v1');
+
+		await act(async () => {
+			refresh();
+		});
+		// 刷新在 transition 中进行，新数据返回之前继续展示旧内容
+		expect(Scheduler).toHaveYielded(['Fetch A']);
+		expect(root).toMatchRenderedOutput('A v1');
+
+		await act(async () => {
+			requests[1]();
+		});
+		expect(Scheduler).toHaveYielded(['A v2']);
+		expect(root).toMatchRenderedOutput('A v2');
+	});
+});
@@ -0,0 +1,273 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+
+describe('ReactClassComponent', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+	});
+
+	test('calls lifecycle methods in order', async () => {
+		const root = ReactNoop.createRoot();
+
+		class Child extends React.Component {
+			componentDidMount() {
+				Scheduler.unstable_yieldValue('Child didMount');
+			}
+			componentWillUnmount() {
+				Scheduler.unstable_yieldValue('Child willUnmount');
+			}
+			render() {
+				return this.props.text;
+			}
+		}
+
+		class Parent extends React.Component {
+			getSnapshotBeforeUpdate(prevProps) {
+				// DOM 还没有被修改
+				Scheduler.unstable_yieldValue(
+					'Parent snapshot: ' + root.getChildren()[0].text
+				);
+				return prevProps.text;
+			}
+			componentDidMount() {
+				Scheduler.unstable_yieldValue('Parent didMount');
+			}
+			componentDidUpdate(prevProps, prevState, snapshot) {
+				Scheduler.unstable_yieldValue(
+					`Parent didUpdate: ${prevProps.text} -> ${this.props.text} (${snapshot})`
+				);
+			}
+			componentWillUnmount() {
+				Scheduler.unstable_yieldValue('Parent willUnmount');
+			}
+			render() {
+				Scheduler.unstable_yieldValue('Parent render');
+				return <Child text={this.props.text} />;
+			}
+		}
+
+		await act(async () => {
+			root.render(<Parent text="A" />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Parent render',
+			'Child didMount',
+			'Parent didMount'
+		]);
+		expect(root).toMatchRenderedOutput('A');
+
+		await act(async () => {
+			root.render(<Parent text="B" />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Parent render',
+			'Parent snapshot: A',
+			'Parent didUpdate: A -> B (A)'
+		]);
+		expect(root).toMatchRenderedOutput('B');
+
+		await act(async () => {
+			root.render(null);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Parent willUnmount',
+			'Child willUnmount'
+		]);
+		expect(root).toMatchRenderedOutput(null);
+	});
+
+	test('merges setState updates and calls callbacks after commit', async () => {
+		const root = ReactNoop.createRoot();
+		const ref = { current: null };
+
+		class Counter extends React.Component {
+			constructor(props) {
+				super(props);
+				this.state = { count: 0, label: 'count' };
+			}
+			render() {
+				return `${this.state.label}: ${this.state.count}`;
+			}
+		}
+
+		await act(async () => {
+			root.render(<Counter ref={ref} step={2} />);
+		});
+		expect(root).toMatchRenderedOutput('count: 0');
+
+		const instance = ref.current;
+		await act(async () => {
+			instance.setState({ count: 1 }, () => {
+				Scheduler.unstable_yieldValue(
+					'Callback: ' + root.getChildren()[0].text
+				);
+			});
+			instance.setState((prevState, props) => ({
+				count: prevState.count + props.step
+			}));
+		});
+		expect(Scheduler).toHaveYielded(['Callback: count: 3']);
+		expect(instance.state).toEqual({ count: 3, label: 'count' });
+		expect(root).toMatchRenderedOutput('count: 3');
+	});
+
+	test('calls a setState callback once when its update is rebased', async () => {
+		const root = ReactNoop.createRoot();
+		const ref = { current: null };
+
+		class Counter extends React.Component {
+			constructor(props) {
+				super(props);
+				this.state = { a: 0, b: 0 };
+			}
+			render() {
+				return `${this.state.a}${this.state.b}`;
+			}
+		}
+
+		await act(async () => {
+			root.render(<Counter ref={ref} />);
+		});
+		const instance = ref.current;
+
+		await act(async () => {
+			React.startTransition(() => {
+				instance.setState({ a: 1 });
+			});
+			// 先在 DefaultLane 中处理，再排在被跳过的 transition 之后重新计算
+			instance.setState({ b: 1 }, () => {
+				Scheduler.unstable_yieldValue('Callback');
+			});
+		});
+		expect(Scheduler).toHaveYielded(['Callback']);
+		expect(root).toMatchRenderedOutput('11');
+	});
+
+	test('derives state from props', async () => {
+		const root = ReactNoop.createRoot();
+
+		class Direction extends React.Component {
+			state = { prevValue: null, direction: 'none' };
+			static getDerivedStateFromProps(props, state) {
+				if (state.prevValue === null) {
+					return { prevValue: props.value };
+				}
+				if (props.value !== state.prevValue) {
+					return {
+						prevValue: props.value,
+						direction: props.value > state.prevValue ? 'up' : 'down'
+					};
+				}
+				return null;
+			}
+			render() {
+				return `${this.props.value} ${this.state.direction}`;
+			}
+		}
+
+		await act(async () => {
+			root.render(<Direction value={1} />);
+		});
+		expect(root).toMatchRenderedOutput('1 none');
+
+		await act(async () => {
+			root.render(<Direction value={5} />);
+		});
+		expect(root).toMatchRenderedOutput('5 up');
+
+		await act(async () => {
+			root.render(<Direction value={2} />);
+		});
+		expect(root).toMatchRenderedOutput('2 down');
+	});
+
+	test('skips rendering with shouldComponentUpdate and PureComponent', async () => {
+		const root = ReactNoop.createRoot();
+		const ref = { current: null };
+
+		class Pure extends React.PureComponent {
+			render() {
+				Scheduler.unstable_yieldValue('Pure ' + this.props.text);
+				return this.props.text;
+			}
+		}
+
+		class Blocker extends React.Component {
+			shouldComponentUpdate(nextProps) {
+				return nextProps.text !== 'skip';
+			}
+			render() {
+				Scheduler.unstable_yieldValue('Blocker ' + this.props.text);
+				return this.props.text;
+			}
+		}
+
+		function App({ pure, blocker }) {
+			return [
+				<Pure key="pure" text={pure} />,
+				<Blocker key="blocker" ref={ref} text={blocker} />
+			];
+		}
+
+		await act(async () => {
+			root.render(<App pure="A" blocker="B" />);
+		});
+		expect(Scheduler).toHaveYielded(['Pure A', 'Blocker B']);
+
+		await act(async () => {
+			root.render(<App pure="A" blocker="skip" />);
+		});
+		expect(Scheduler).toHaveYielded([]);
+		expect(root).toMatchRenderedOutput('AB');
+		// 跳过了 render，但是实例上的 props 仍然是最新的
+		expect(ref.current.props.text).toBe('skip');
+
+		// forceUpdate 不会调用 shouldComponentUpdate
+		await act(async () => {
+			ref.current.forceUpdate();
+		});
+		expect(Scheduler).toHaveYielded(['Blocker skip']);
+		expect(root).toMatchRenderedOutput('Askip');
+	});
+
+	test('attaches refs to the class instance', async () => {
+		const root = ReactNoop.createRoot();
+		const ref = { current: null };
+
+		class Foo extends React.Component {
+			render() {
+				return 'Foo';
+			}
+		}
+
+		await act(async () => {
+			root.render(<Foo ref={ref} />);
+		});
+		expect(ref.current).toBeInstanceOf(Foo);
+
+		await act(async () => {
+			root.render(null);
+		});
+		expect(ref.current).toBe(null);
+	});
+});
@@ -0,0 +1,107 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let useDeferredValue;
+
+describe('ReactDeferredValue', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		useDeferredValue = React.useDeferredValue;
+	});
+
+	function Text({ text }) {
+		Scheduler.unstable_yieldValue(text);
+		return text;
+	}
+
+	function App({ text }) {
+		const deferredText = useDeferredValue(text);
+		return [
+			<Text key="urgent" text={'Urgent: ' + text} />,
+			<Text key="deferred" text={'Deferred: ' + deferredText} />
+		];
+	}
+
+	test('renders the previous value first and the new value in a transition', async () => {
+		const root = ReactNoop.createRoot();
+
+		await act(async () => {
+			root.render(<App text="A" />);
+		});
+		expect(Scheduler).toHaveYielded(['Urgent: A', 'Deferred: A']);
+
+		await act(async () => {
+			root.render(<App text="B" />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Urgent: B',
+			'Deferred: A',
+			'Urgent: B',
+			'Deferred: B'
+		]);
+		expect(root).toMatchRenderedOutput('Urgent: BDeferred: B');
+	});
+
+	test('the deferred render is interrupted by urgent updates', async () => {
+		const root = ReactNoop.createRoot();
+
+		await act(async () => {
+			root.render(<App text="A" />);
+		});
+		expect(Scheduler).toHaveYielded(['Urgent: A', 'Deferred: A']);
+
+		await act(async () => {
+			root.render(<App text="B" />);
+			await null;
+			expect(Scheduler).toHaveYielded(['Urgent: B', 'Deferred: A']);
+			expect(root).toMatchRenderedOutput('Urgent: BDeferred: A');
+
+			// 延迟的渲染进行到一半时，新的输入到来
+			expect(Scheduler).toFlushAndYieldThrough(['Urgent: B']);
+			root.render(<App text="C" />);
+		});
+		// 'Deferred: B' 从未被渲染
+		expect(Scheduler).toHaveYielded([
+			'Urgent: C',
+			'Deferred: A',
+			'Urgent: C',
+			'Deferred: C'
+		]);
+		expect(root).toMatchRenderedOutput('Urgent: CDeferred: C');
+	});
+
+	test('shows initialValue on mount before rendering the real value', async () => {
+		const root = ReactNoop.createRoot();
+
+		function Search({ query }) {
+			const deferredQuery = useDeferredValue(query, 'Loading...');
+			return <Text text={deferredQuery} />;
+		}
+
+		await act(async () => {
+			root.render(<Search query="react" />);
+		});
+		expect(Scheduler).toHaveYielded(['Loading...', 'react']);
+		expect(root).toMatchRenderedOutput('react');
+	});
+});
@@ -17,6 +17,8 @@ let ReactNoop;
 let Scheduler;
 let act;
 let useEffect;
+let useLayoutEffect;
+let useInsertionEffect;
 
 describe('ReactHooksWithNoopRenderer', () => {
 	beforeEach(() => {
@@ -29,6 +31,8 @@ describe('ReactHooksWithNoopRenderer', () => {
 		ReactNoop = require('react-noop-renderer');
 
 		useEffect = React.useEffect;
+		useLayoutEffect = React.useLayoutEffect;
+		useInsertionEffect = React.useInsertionEffect;
 	});
 
 	test('passive unmounts on deletion are fired in parent -> child order', async () => {
@@ -58,4 +62,134 @@ describe('ReactHooksWithNoopRenderer', () => {
 		});
 		expect(Scheduler).toHaveYielded(['Unmount parent', 'Unmount child']);
 	});
+
+	test('insertion and layout effects fire before passive effects on mount', async () => {
+		const root = ReactNoop.createRoot();
+
+		function Parent() {
+			useInsertionEffect(() => {
+				Scheduler.unstable_yieldValue(
+					'Parent insertion, children: ' + root.getChildren().length
+				);
+			});
+			useLayoutEffect(() => {
+				Scheduler.unstable_yieldValue(
+					'Parent layout, children: ' + root.getChildren().length
+				);
+			});
+			useEffect(() => {
+				Scheduler.unstable_yieldValue('Parent passive');
+			});
+			return <Child />;
+		}
+
+		function Child() {
+			useInsertionEffect(() => {
+				Scheduler.unstable_yieldValue('Child insertion');
+			});
+			useLayoutEffect(() => {
+				Scheduler.unstable_yieldValue('Child layout');
+			});
+			useEffect(() => {
+				Scheduler.unstable_yieldValue('Child passive');
+			});
+			return 'Child';
+		}
+
+		await act(async () => {
+			root.render(<Parent />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Child insertion',
+			'Parent insertion, children: 0',
+			'Child layout',
+			'Parent layout, children: 1',
+			'Child passive',
+			'Parent passive'
+		]);
+		expect(root).toMatchRenderedOutput('Child');
+	});
+
+	test('destroys run before creates for each effect type on update', async () => {
+		const root = ReactNoop.createRoot();
+
+		function App({ value }) {
+			useInsertionEffect(() => {
+				Scheduler.unstable_yieldValue('Insertion create ' + value);
+				return () =>
+					Scheduler.unstable_yieldValue('Insertion destroy ' + value);
+			}, [value]);
+			useLayoutEffect(() => {
+				Scheduler.unstable_yieldValue('Layout create ' + value);
+				return () => Scheduler.unstable_yieldValue('Layout destroy ' + value);
+			}, [value]);
+			useEffect(() => {
+				Scheduler.unstable_yieldValue('Passive create ' + value);
+				return () => Scheduler.unstable_yieldValue('Passive destroy ' + value);
+			}, [value]);
+			return value;
+		}
+
+		await act(async () => {
+			root.render(<App value="a" />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Insertion create a',
+			'Layout create a',
+			'Passive create a'
+		]);
+
+		await act(async () => {
+			root.render(<App value="b" />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Insertion destroy a',
+			'Insertion create b',
+			'Layout destroy a',
+			'Layout create b',
+			'Passive destroy a',
+			'Passive create b'
+		]);
+
+		// 依赖未变化时不触发
+		await act(async () => {
+			root.render(<App value="b" />);
+		});
+		expect(Scheduler).toHaveYielded([]);
+	});
+
+	test('insertion and layout destroys run synchronously on deletion', async () => {
+		const root = ReactNoop.createRoot();
+
+		function App() {
+			useInsertionEffect(() => {
+				return () => Scheduler.unstable_yieldValue('Insertion destroy');
+			});
+			useLayoutEffect(() => {
+				return () =>
+					Scheduler.unstable_yieldValue(
+						'Layout destroy, children: ' + root.getChildren().length
+					);
+			});
+			useEffect(() => {
+				return () => Scheduler.unstable_yieldValue('Passive destroy');
+			});
+			return 'App';
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(root).toMatchRenderedOutput('App');
+
+		await act(async () => {
+			root.render(null);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Insertion destroy',
+			'Layout destroy, children: 1',
+			'Passive destroy'
+		]);
+		expect(root).toMatchRenderedOutput(null);
+	});
 });
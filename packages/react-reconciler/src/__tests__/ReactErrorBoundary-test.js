@@ -0,0 +1,224 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let useEffect;
+let useLayoutEffect;
+let ErrorBoundary;
+
+describe('ReactErrorBoundary', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+		useEffect = React.useEffect;
+		useLayoutEffect = React.useLayoutEffect;
+		ErrorBoundary = React.ErrorBoundary;
+	});
+
+	function Text({ text }) {
+		Scheduler.unstable_yieldValue(text);
+		return text;
+	}
+
+	test('renders the fallback when a child throws during render', async () => {
+		const root = ReactNoop.createRoot();
+
+		function Bad() {
+			throw new Error('Oops');
+		}
+
+		await act(async () => {
+			root.render(
+				<ErrorBoundary
+					fallback={<Text text="Fallback" />}
+					onError={(error) =>
+						Scheduler.unstable_yieldValue('onError: ' + error.message)
+					}
+				>
+					<Text text="A" />
+					<Bad />
+				</ErrorBoundary>
+			);
+		});
+		expect(Scheduler).toHaveYielded(['A', 'Fallback', 'onError: Oops']);
+		expect(root).toMatchRenderedOutput('Fallback');
+	});
+
+	test('passes the error and reset to a fallback function', async () => {
+		const root = ReactNoop.createRoot();
+		let shouldThrow = true;
+		let reset;
+
+		function Bomb() {
+			if (shouldThrow) {
+				throw new Error('Boom');
+			}
+			return <Text text="Recovered" />;
+		}
+
+		await act(async () => {
+			root.render(
+				<ErrorBoundary
+					fallback={(error, resetBoundary) => {
+						reset = resetBoundary;
+						return <Text text={'Error: ' + error.message} />;
+					}}
+				>
+					<Bomb />
+				</ErrorBoundary>
+			);
+		});
+		expect(Scheduler).toHaveYielded(['Error: Boom']);
+		expect(root).toMatchRenderedOutput('Error: Boom');
+
+		shouldThrow = false;
+		await act(async () => {
+			reset();
+		});
+		expect(Scheduler).toHaveYielded(['Recovered']);
+		expect(root).toMatchRenderedOutput('Recovered');
+	});
+
+	test('catches errors thrown in layout and passive effects', async () => {
+		const root = ReactNoop.createRoot();
+
+		function LayoutBomb() {
+			useLayoutEffect(() => {
+				throw new Error('Layout');
+			}, []);
+			return <Text text="LayoutBomb" />;
+		}
+
+		function PassiveBomb() {
+			useEffect(() => {
+				throw new Error('Passive');
+			}, []);
+			return <Text text="PassiveBomb" />;
+		}
+
+		function App() {
+			return [
+				<ErrorBoundary
+					key="layout"
+					fallback={(error) => <Text text={'Caught ' + error.message} />}
+				>
+					<LayoutBomb />
+				</ErrorBoundary>,
+				<ErrorBoundary
+					key="passive"
+					fallback={(error) => <Text text={' Caught ' + error.message} />}
+				>
+					<PassiveBomb />
+				</ErrorBoundary>
+			];
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'LayoutBomb',
+			'PassiveBomb',
+			'Caught Layout',
+			' Caught Passive'
+		]);
+		expect(root).toMatchRenderedOutput('Caught Layout Caught Passive');
+	});
+
+	test('catches errors thrown by ref callbacks on attach', async () => {
+		const root = ReactNoop.createRoot();
+
+		await act(async () => {
+			root.render(
+				<ErrorBoundary
+					fallback={(error) => <Text text={'Caught ' + error.message} />}
+				>
+					<div
+						ref={(node) => {
+							if (node !== null) {
+								throw new Error('Ref');
+							}
+						}}
+					/>
+				</ErrorBoundary>
+			);
+		});
+		expect(Scheduler).toHaveYielded(['Caught Ref']);
+		expect(root).toMatchRenderedOutput('Caught Ref');
+	});
+
+	test('catches errors thrown by componentWillUnmount', async () => {
+		const root = ReactNoop.createRoot();
+
+		class Unmounter extends React.Component {
+			componentWillUnmount() {
+				throw new Error('Unmount');
+			}
+			render() {
+				return <div>Child</div>;
+			}
+		}
+
+		function App({ show }) {
+			return (
+				<ErrorBoundary
+					fallback={(error) => <Text text={'Caught ' + error.message} />}
+				>
+					{show && <Unmounter />}
+					<Text text="Sibling" />
+				</ErrorBoundary>
+			);
+		}
+
+		await act(async () => {
+			root.render(<App show={true} />);
+		});
+		expect(Scheduler).toHaveYielded(['Sibling']);
+
+		await act(async () => {
+			root.render(<App show={false} />);
+		});
+		// componentWillUnmount 抛出的错误交给最近的边界处理
+		expect(Scheduler).toHaveYielded(['Sibling', 'Caught Unmount']);
+		expect(root).toMatchRenderedOutput('Caught Unmount');
+	});
+
+	test('errors in the fallback propagate to the parent boundary', async () => {
+		const root = ReactNoop.createRoot();
+
+		function Bad({ message }) {
+			throw new Error(message);
+		}
+
+		await act(async () => {
+			root.render(
+				<ErrorBoundary
+					fallback={(error) => <Text text={'Outer caught ' + error.message} />}
+				>
+					<ErrorBoundary fallback={<Bad message="Fallback failed" />}>
+						<Bad message="Inner" />
+					</ErrorBoundary>
+				</ErrorBoundary>
+			);
+		});
+		expect(Scheduler).toHaveYielded(['Outer caught Fallback failed']);
+		expect(root).toMatchRenderedOutput('Outer caught Fallback failed');
+	});
+});
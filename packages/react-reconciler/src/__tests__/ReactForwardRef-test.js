@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let forwardRef;
+let useImperativeHandle;
+let useRef;
+
+describe('ReactForwardRef', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		forwardRef = React.forwardRef;
+		useImperativeHandle = React.useImperativeHandle;
+		useRef = React.useRef;
+	});
+
+	test('forwards the ref to a host component', async () => {
+		const root = ReactNoop.createRoot();
+
+		const Input = forwardRef((props, ref) => {
+			Scheduler.unstable_yieldValue('Input ' + props.value);
+			return <input ref={ref} value={props.value} />;
+		});
+
+		const ref = { current: null };
+		await act(async () => {
+			root.render(<Input ref={ref} value="a" />);
+		});
+		expect(Scheduler).toHaveYielded(['Input a']);
+		expect(ref.current).toBe(root.getChildren()[0]);
+
+		await act(async () => {
+			root.render(null);
+		});
+		expect(ref.current).toBe(null);
+	});
+
+	test('useImperativeHandle attaches a custom handle and detaches on unmount', async () => {
+		const root = ReactNoop.createRoot();
+
+		const Scroller = forwardRef((props, ref) => {
+			const offset = useRef(0);
+			useImperativeHandle(
+				ref,
+				() => ({
+					scrollTo(value) {
+						offset.current = value;
+						Scheduler.unstable_yieldValue('scrollTo ' + value);
+					},
+					id: props.id
+				}),
+				[props.id]
+			);
+			return <div />;
+		});
+
+		const handles = [];
+		function callbackRef(handle) {
+			handles.push(handle === null ? null : handle.id);
+		}
+
+		const ref = { current: null };
+		await act(async () => {
+			root.render(<Scroller ref={ref} id={1} />);
+		});
+		expect(ref.current.id).toBe(1);
+		ref.current.scrollTo(10);
+		expect(Scheduler).toHaveYielded(['scrollTo 10']);
+
+		await act(async () => {
+			root.render(<Scroller ref={ref} id={2} />);
+		});
+		expect(ref.current.id).toBe(2);
+
+		await act(async () => {
+			root.render(<Scroller ref={callbackRef} id={2} />);
+		});
+		expect(ref.current).toBe(null);
+		expect(handles).toEqual([2]);
+
+		await act(async () => {
+			root.render(null);
+		});
+		expect(handles).toEqual([2, null]);
+	});
+});
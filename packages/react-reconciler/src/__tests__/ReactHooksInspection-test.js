@@ -0,0 +1,161 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let act;
+
+describe('inspectHooksOfFiber', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		ReactNoop = require('react-noop-renderer');
+	});
+
+	function inspect(root) {
+		return ReactNoop.inspectHooksOfFiber(root.getFiberRoot().current.child);
+	}
+
+	test('inspects primitive hooks with their committed values', async () => {
+		const root = ReactNoop.createRoot();
+		const effect = () => {};
+		function Foo({ step }) {
+			const [count] = React.useState(step * 2);
+			const ref = React.useRef('ref');
+			const doubled = React.useMemo(() => count * 2, [count]);
+			React.useEffect(effect, [count]);
+			return String(doubled);
+		}
+
+		await act(async () => {
+			root.render(<Foo step={1} />);
+		});
+		expect(root).toMatchRenderedOutput('4');
+
+		expect(inspect(root)).toEqual([
+			{
+				id: 0,
+				name: 'State',
+				value: 2,
+				deps: null,
+				effectTag: null,
+				subHooks: []
+			},
+			{
+				id: 1,
+				name: 'Ref',
+				value: 'ref',
+				deps: null,
+				effectTag: null,
+				subHooks: []
+			},
+			{
+				id: 2,
+				name: 'Memo',
+				value: 4,
+				deps: [2],
+				effectTag: null,
+				subHooks: []
+			},
+			{
+				id: 3,
+				name: 'Effect',
+				value: effect,
+				deps: [2],
+				// Passive | HookHasEffect
+				effectTag: 0b0011,
+				subHooks: []
+			}
+		]);
+		// 检查不会触发更新
+		expect(root).toMatchRenderedOutput('4');
+	});
+
+	test('groups hooks by custom hook and applies useDebugValue', async () => {
+		const root = ReactNoop.createRoot();
+		function useCounter(initial) {
+			const [count] = React.useState(initial);
+			React.useDebugValue(count, (value) => `count: ${value}`);
+			return count;
+		}
+		function useTwoCounters() {
+			const a = useCounter(1);
+			const b = useCounter(2);
+			return a + b;
+		}
+		function Foo() {
+			const total = useTwoCounters();
+			const ref = React.useRef(null);
+			return String(total);
+		}
+
+		await act(async () => {
+			root.render(<Foo />);
+		});
+		expect(root).toMatchRenderedOutput('3');
+
+		const tree = inspect(root);
+		expect(tree.map((node) => [node.id, node.name])).toEqual([
+			[null, 'TwoCounters'],
+			[2, 'Ref']
+		]);
+		const counters = tree[0].subHooks;
+		expect(counters.map((node) => [node.name, node.value])).toEqual([
+			['Counter', 'count: 1'],
+			['Counter', 'count: 2']
+		]);
+		expect(counters[0].subHooks).toEqual([
+			{
+				id: 0,
+				name: 'State',
+				value: 1,
+				deps: null,
+				effectTag: null,
+				subHooks: []
+			}
+		]);
+		expect(counters[1].subHooks[0].id).toBe(1);
+	});
+
+	test('inspects context values read by the component', async () => {
+		const root = ReactNoop.createRoot();
+		const Theme = React.createContext('light');
+		function Foo() {
+			const theme = React.useContext(Theme);
+			return theme;
+		}
+
+		await act(async () => {
+			root.render(
+				<Theme.Provider value="dark">
+					<Foo />
+				</Theme.Provider>
+			);
+		});
+		expect(root).toMatchRenderedOutput('dark');
+
+		const fiber = root.getFiberRoot().current.child.child;
+		expect(ReactNoop.inspectHooksOfFiber(fiber)).toEqual([
+			{
+				id: null,
+				name: 'Context',
+				value: 'dark',
+				deps: null,
+				effectTag: null,
+				subHooks: []
+			}
+		]);
+	});
+});
@@ -0,0 +1,167 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let useReducer;
+let useState;
+
+describe('ReactHooksUseReducer', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		useReducer = React.useReducer;
+		useState = React.useState;
+	});
+
+	function Text({ text }) {
+		Scheduler.unstable_yieldValue(text);
+		return text;
+	}
+
+	test('computes the initial state with init and applies dispatched actions', async () => {
+		const root = ReactNoop.createRoot();
+
+		function reducer(state, action) {
+			switch (action) {
+				case 'increment':
+					return state + 1;
+				case 'decrement':
+					return state - 1;
+				default:
+					return state;
+			}
+		}
+
+		let dispatch;
+		function Counter({ initialCount }) {
+			const [count, _dispatch] = useReducer(
+				reducer,
+				initialCount,
+				(arg) => arg * 10
+			);
+			dispatch = _dispatch;
+			return <Text text={'Count: ' + count} />;
+		}
+
+		await act(async () => {
+			root.render(<Counter initialCount={1} />);
+		});
+		expect(Scheduler).toHaveYielded(['Count: 10']);
+		expect(root).toMatchRenderedOutput('Count: 10');
+
+		await act(async () => {
+			dispatch('increment');
+			dispatch('increment');
+			dispatch('decrement');
+		});
+		expect(Scheduler).toHaveYielded(['Count: 11']);
+		expect(root).toMatchRenderedOutput('Count: 11');
+	});
+
+	test('rebases skipped updates on top of the base state', async () => {
+		const root = ReactNoop.createRoot();
+
+		function reducer(state, action) {
+			return state + action;
+		}
+
+		let dispatch;
+		function App() {
+			const [text, _dispatch] = useReducer(reducer, '');
+			dispatch = _dispatch;
+			return <Text text={text} />;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['']);
+
+		await act(async () => {
+			Scheduler.unstable_runWithPriority(
+				Scheduler.unstable_NormalPriority,
+				() => dispatch('A')
+			);
+			Scheduler.unstable_runWithPriority(
+				Scheduler.unstable_ImmediatePriority,
+				() => dispatch('B')
+			);
+		});
+		// SyncLane 的渲染跳过了 'A'，之后 DefaultLane 的渲染从 base state 重新计算
+		expect(Scheduler).toHaveYielded(['B', 'AB']);
+		expect(root).toMatchRenderedOutput('AB');
+	});
+
+	test('bails out when the reducer returns the same state', async () => {
+		const root = ReactNoop.createRoot();
+
+		function reducer(state, action) {
+			return action === 'reset' ? 0 : state + action;
+		}
+
+		let dispatch;
+		function App() {
+			const [count, _dispatch] = useReducer(reducer, 0);
+			dispatch = _dispatch;
+			return <Text text={String(count)} />;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['0']);
+
+		const warn = console.warn;
+		console.warn = () => {};
+		try {
+			await act(async () => {
+				dispatch('reset');
+			});
+		} finally {
+			console.warn = warn;
+		}
+		expect(Scheduler).toHaveYielded([]);
+		expect(root).toMatchRenderedOutput('0');
+	});
+
+	test('useState is backed by the same update queue', async () => {
+		const root = ReactNoop.createRoot();
+
+		let setCount;
+		function App() {
+			const [count, _setCount] = useState(() => 1);
+			setCount = _setCount;
+			return <Text text={String(count)} />;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['1']);
+
+		await act(async () => {
+			setCount((c) => c + 1);
+			setCount((c) => c * 10);
+		});
+		expect(Scheduler).toHaveYielded(['20']);
+		expect(root).toMatchRenderedOutput('20');
+	});
+});
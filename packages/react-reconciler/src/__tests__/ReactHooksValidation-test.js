@@ -0,0 +1,180 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let act;
+
+describe('hook rule validation', () => {
+	let consoleError;
+
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		ReactNoop = require('react-noop-renderer');
+
+		consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		consoleError.mockRestore();
+	});
+
+	function getErrors() {
+		return consoleError.mock.calls.map((args) => args[0]);
+	}
+
+	test('throws when hooks are called outside of render', async () => {
+		const root = ReactNoop.createRoot();
+		let callHookLater;
+		function App() {
+			const [count] = React.useState(0);
+			callHookLater = () => React.useState(count);
+			return null;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(callHookLater).toThrow('hook只能在函数组件中执行');
+	});
+
+	test('warns when the order of hooks changes', async () => {
+		const root = ReactNoop.createRoot();
+		function App({ flag }) {
+			if (flag) {
+				React.useState(0);
+			} else {
+				React.useRef(0);
+			}
+			React.useEffect(() => {});
+			return null;
+		}
+
+		await act(async () => {
+			root.render(<App flag={true} />);
+		});
+		expect(getErrors()).toEqual([]);
+
+		await act(async () => {
+			root.render(<App flag={false} />);
+		});
+		const errors = getErrors();
+		expect(errors.length).toBe(1);
+		expect(errors[0]).toMatch(/组件 \S*App\S* 的Hook调用顺序发生了变化/);
+		expect(errors[0]).toMatch(/1\. useState\s+useRef/);
+	});
+
+	test('warns when the order of hooks changes during a render phase update', async () => {
+		const root = ReactNoop.createRoot();
+		function App() {
+			const [count, setCount] = React.useState(0);
+			if (count === 0) {
+				setCount(1);
+				React.useMemo(() => 'memo', []);
+			} else {
+				React.useCallback(() => {}, []);
+			}
+			return String(count);
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(root).toMatchRenderedOutput('1');
+		const errors = getErrors();
+		expect(errors.length).toBe(1);
+		expect(errors[0]).toMatch(/组件 \S*App\S* 的Hook调用顺序发生了变化/);
+		expect(errors[0]).toMatch(
+			/1\. useState\s+useState\n2\. useMemo\s+useCallback/
+		);
+	});
+
+	test('warns when the deps array changes size', async () => {
+		const root = ReactNoop.createRoot();
+		function App({ deps }) {
+			React.useEffect(() => {}, deps);
+			return null;
+		}
+
+		await act(async () => {
+			root.render(<App deps={[1]} />);
+		});
+		await act(async () => {
+			root.render(<App deps={[1, 2]} />);
+		});
+		const errors = getErrors();
+		expect(errors.length).toBe(1);
+		expect(errors[0]).toContain(
+			'useEffect 的依赖数组长度在两次render之间发生了变化'
+		);
+	});
+
+	test('prints deps that cannot be converted to strings', async () => {
+		const root = ReactNoop.createRoot();
+		const bare = Object.create(null);
+		function App({ deps }) {
+			React.useEffect(() => {}, deps);
+			return null;
+		}
+
+		await act(async () => {
+			root.render(<App deps={[Symbol('id')]} />);
+		});
+		await act(async () => {
+			root.render(<App deps={[Symbol('id'), bare]} />);
+		});
+		const errors = getErrors();
+		expect(errors.length).toBe(1);
+		expect(errors[0]).toContain('上次: [Symbol(id)]');
+		expect(errors[0]).toContain('本次: [Symbol(id), object]');
+	});
+
+	test('warns when deps are not an array', async () => {
+		const root = ReactNoop.createRoot();
+		function App() {
+			React.useMemo(() => 1, 'not an array');
+			return null;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(getErrors()).toEqual([
+			'useMemo 的依赖项必须是数组，实际收到的是 string'
+		]);
+	});
+
+	test('warns when hooks are called inside useMemo', async () => {
+		const root = ReactNoop.createRoot();
+		function App() {
+			const value = React.useMemo(() => {
+				const ref = React.useRef('nested');
+				return ref.current;
+			}, []);
+			return value;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(root).toMatchRenderedOutput('nested');
+		const errors = getErrors();
+		expect(errors.length).toBe(1);
+		expect(errors[0]).toContain(
+			'不要在 useMemo、useReducer 或 useState 的回调函数中调用 useRef'
+		);
+	});
+});
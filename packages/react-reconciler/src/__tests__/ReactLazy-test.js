@@ -0,0 +1,165 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let lazy;
+let Suspense;
+let useEffect;
+
+describe('ReactLazy', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+		lazy = React.lazy;
+		Suspense = React.Suspense;
+		useEffect = React.useEffect;
+	});
+
+	function Text({ text }) {
+		Scheduler.unstable_yieldValue(text);
+		return text;
+	}
+
+	function createModule() {
+		let resolve;
+		let reject;
+		const promise = new Promise((res, rej) => {
+			resolve = res;
+			reject = rej;
+		});
+		return { promise, resolve, reject };
+	}
+
+	test('suspends until the module resolves', async () => {
+		const root = ReactNoop.createRoot();
+		const module = createModule();
+		const LazyText = lazy(() => module.promise);
+
+		await act(async () => {
+			root.render(
+				<Suspense fallback={<Text text="Loading..." />}>
+					<LazyText text="Hi" />
+				</Suspense>
+			);
+		});
+		expect(Scheduler).toHaveYielded(['Loading...']);
+		expect(root).toMatchRenderedOutput('Loading...');
+
+		await act(async () => {
+			module.resolve({ default: Text });
+		});
+		expect(Scheduler).toHaveYielded(['Hi']);
+		expect(root).toMatchRenderedOutput('Hi');
+	});
+
+	test('keeps the resolved component mounted across updates', async () => {
+		const root = ReactNoop.createRoot();
+
+		function Child({ text }) {
+			useEffect(() => {
+				Scheduler.unstable_yieldValue('Mount');
+			}, []);
+			return <Text text={text} />;
+		}
+		const MemoChild = React.memo(Child);
+		const LazyMemo = lazy(() => Promise.resolve({ default: MemoChild }));
+		const LazyForwardRef = lazy(() =>
+			Promise.resolve({
+				default: React.forwardRef((props, ref) => {
+					ref.current = props.text;
+					return null;
+				})
+			})
+		);
+		const ref = { current: null };
+
+		function App({ text }) {
+			return (
+				<Suspense fallback={<Text text="Loading..." />}>
+					<LazyMemo text={text} />
+					<LazyForwardRef ref={ref} text={text} />
+				</Suspense>
+			);
+		}
+
+		await act(async () => {
+			root.render(<App text="A" />);
+		});
+		// LazyForwardRef 在 LazyMemo 解析之后才开始加载，因此 Child 渲染了两次，但只挂载一次
+		expect(Scheduler).toHaveYielded(['Loading...', 'A', 'A', 'Mount']);
+		expect(root).toMatchRenderedOutput('A');
+		expect(ref.current).toBe('A');
+
+		await act(async () => {
+			root.render(<App text="B" />);
+		});
+		expect(Scheduler).toHaveYielded(['B']);
+		expect(root).toMatchRenderedOutput('B');
+		expect(ref.current).toBe('B');
+	});
+
+	test('surfaces rejected imports to the nearest error boundary', async () => {
+		const root = ReactNoop.createRoot();
+		const module = createModule();
+		const LazyText = lazy(() => module.promise);
+
+		await act(async () => {
+			root.render(
+				<React.ErrorBoundary
+					fallback={(error) => <Text text={'Error: ' + error.message} />}
+				>
+					<Suspense fallback={<Text text="Loading..." />}>
+						<LazyText text="Hi" />
+					</Suspense>
+				</React.ErrorBoundary>
+			);
+		});
+		expect(Scheduler).toHaveYielded(['Loading...']);
+
+		await act(async () => {
+			module.reject(new Error('Failed to load'));
+		});
+		expect(Scheduler).toHaveYielded(['Error: Failed to load']);
+		expect(root).toMatchRenderedOutput('Error: Failed to load');
+	});
+
+	test('preload() loads the module once and avoids suspending', async () => {
+		const root = ReactNoop.createRoot();
+		const load = jest.fn(() => Promise.resolve({ default: Text }));
+		const LazyText = lazy(load);
+
+		await act(async () => {
+			await LazyText.preload();
+		});
+		LazyText.preload();
+		expect(load).toHaveBeenCalledTimes(1);
+
+		await act(async () => {
+			root.render(
+				<Suspense fallback={<Text text="Loading..." />}>
+					<LazyText text="Hi" />
+				</Suspense>
+			);
+		});
+		expect(Scheduler).toHaveYielded(['Hi']);
+		expect(root).toMatchRenderedOutput('Hi');
+		expect(load).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,293 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let createContext;
+let useContext;
+let useContextSelector;
+let useState;
+
+describe('ReactNewContext', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+		createContext = React.createContext;
+		useContext = React.useContext;
+		useContextSelector = React.useContextSelector;
+		useState = React.useState;
+	});
+
+	test('Consumer re-renders when the provider value changes, even below a bailout', async () => {
+		const root = ReactNoop.createRoot();
+		const Theme = createContext('light');
+
+		const Middle = React.memo(function Middle() {
+			Scheduler.unstable_yieldValue('Middle');
+			return (
+				<Theme.Consumer>
+					{(theme) => {
+						Scheduler.unstable_yieldValue('Consumer: ' + theme);
+						return theme;
+					}}
+				</Theme.Consumer>
+			);
+		});
+
+		function App({ theme }) {
+			return (
+				<Theme.Provider value={theme}>
+					<Middle />
+				</Theme.Provider>
+			);
+		}
+
+		await act(async () => {
+			root.render(<App theme="dark" />);
+		});
+		expect(Scheduler).toHaveYielded(['Middle', 'Consumer: dark']);
+		expect(root).toMatchRenderedOutput('dark');
+
+		await act(async () => {
+			root.render(<App theme="blue" />);
+		});
+		expect(Scheduler).toHaveYielded(['Consumer: blue']);
+		expect(root).toMatchRenderedOutput('blue');
+	});
+
+	test('renders the context object itself as a provider', async () => {
+		const root = ReactNoop.createRoot();
+		const Theme = createContext('light');
+
+		function Label() {
+			return useContext(Theme);
+		}
+
+		await act(async () => {
+			root.render(
+				<Theme value="dark">
+					<Label />
+					<Theme.Provider value="blue">
+						<Theme.Consumer>{(theme) => theme}</Theme.Consumer>
+					</Theme.Provider>
+				</Theme>
+			);
+		});
+		expect(root).toMatchRenderedOutput('darkblue');
+	});
+
+	test('uses displayName in warnings and hooks inspection', async () => {
+		const root = ReactNoop.createRoot();
+		const Theme = createContext('light');
+		Theme.displayName = 'ThemeContext';
+		const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+		function Label() {
+			return useContext(Theme);
+		}
+
+		await act(async () => {
+			root.render(
+				<Theme>
+					<Label />
+				</Theme>
+			);
+		});
+		expect(spy).toHaveBeenCalledWith(
+			'<ThemeContext> 缺少 value 属性，是否拼写错误或忘记传入？'
+		);
+		spy.mockRestore();
+
+		const fiber = root.getFiberRoot().current.child.child;
+		expect(ReactNoop.inspectHooksOfFiber(fiber)).toEqual([
+			{
+				id: null,
+				name: 'ThemeContext',
+				value: undefined,
+				deps: null,
+				effectTag: null,
+				subHooks: []
+			}
+		]);
+	});
+
+	test('restores context values when an interrupted render is thrown away', async () => {
+		const root = ReactNoop.createRoot();
+		const Theme = createContext('default');
+		let setTheme;
+		let setCount;
+
+		function Reader({ label }) {
+			const theme = useContext(Theme);
+			Scheduler.unstable_yieldValue(label + ': ' + theme);
+			return theme;
+		}
+
+		function Outside() {
+			const [count, _setCount] = useState(0);
+			setCount = _setCount;
+			return <Reader label={'Outside ' + count} />;
+		}
+
+		function App() {
+			const [theme, _setTheme] = useState('A');
+			setTheme = _setTheme;
+			return [
+				<Theme.Provider key="provider" value={theme}>
+					<Reader label="Inside" />
+					<Reader label="Inside 2" />
+				</Theme.Provider>,
+				<Outside key="outside" />
+			];
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Inside: A',
+			'Inside 2: A',
+			'Outside 0: default'
+		]);
+
+		// transition 的 render 在 Provider 内部被打断
+		React.startTransition(() => {
+			setTheme('B');
+		});
+		Scheduler.unstable_flushNumberOfYields(1);
+		expect(Scheduler).toHaveYielded(['Inside: B']);
+
+		// 更高优先级的 render 丢弃了被打断的 render，Provider 外读到的仍然是默认值
+		await act(async () => {
+			setCount(1);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Outside 1: default',
+			'Inside: B',
+			'Inside 2: B',
+			'Outside 1: default'
+		]);
+		expect(root).toMatchRenderedOutput('BBdefault');
+	});
+
+	test('useContextSelector only re-renders when the selected value changes', async () => {
+		const root = ReactNoop.createRoot();
+		const Store = createContext(null);
+
+		function Field({ name }) {
+			const value = useContextSelector(Store, (store) => store[name]);
+			Scheduler.unstable_yieldValue(name + ': ' + value);
+			return value;
+		}
+
+		function Summary() {
+			const count = useContextSelector(Store, (store) => Object.keys(store));
+			const first = useContextSelector(Store, (store) => store.first);
+			Scheduler.unstable_yieldValue('Summary: ' + count.length + first);
+			return null;
+		}
+
+		const Fields = React.memo(function Fields() {
+			return [
+				<Field key="first" name="first" />,
+				<Field key="last" name="last" />,
+				<Summary key="summary" />
+			];
+		});
+
+		function App({ store }) {
+			return (
+				<Store.Provider value={store}>
+					<Fields />
+				</Store.Provider>
+			);
+		}
+
+		await act(async () => {
+			root.render(<App store={{ first: 'A', last: 'B' }} />);
+		});
+		expect(Scheduler).toHaveYielded(['first: A', 'last: B', 'Summary: 2A']);
+
+		await act(async () => {
+			root.render(<App store={{ first: 'A', last: 'C' }} />);
+		});
+		// Summary 的第一个 selector 每次都返回新数组，即使第二个 selector 的结果没变也会重新渲染
+		expect(Scheduler).toHaveYielded(['last: C', 'Summary: 2A']);
+		expect(root).toMatchRenderedOutput('AC');
+	});
+
+	test('propagates changes into bailed out subtrees lazily', async () => {
+		const root = ReactNoop.createRoot();
+		const Theme = createContext('light');
+		let setTheme;
+
+		function Reader({ label }) {
+			const theme = useContext(Theme);
+			Scheduler.unstable_yieldValue(label + ': ' + theme);
+			return <Inner label={label} />;
+		}
+
+		const Inner = React.memo(function Inner({ label }) {
+			const theme = useContext(Theme);
+			Scheduler.unstable_yieldValue(label + ' inner: ' + theme);
+			return theme;
+		});
+
+		const Middle = React.memo(function Middle() {
+			return <Reader label="Outer" />;
+		});
+
+		const Unrelated = React.memo(function Unrelated() {
+			Scheduler.unstable_yieldValue('Unrelated');
+			return null;
+		});
+
+		// children 由外部传入，Provider 的值变化时 children 保持不变
+		function ThemeProvider({ children }) {
+			const [theme, _setTheme] = useState('A');
+			setTheme = _setTheme;
+			return <Theme.Provider value={theme}>{children}</Theme.Provider>;
+		}
+
+		await act(async () => {
+			root.render(
+				<ThemeProvider>
+					<Middle />
+					<Unrelated />
+					<Theme.Provider value="fixed">
+						<Reader label="Shadowed" />
+					</Theme.Provider>
+				</ThemeProvider>
+			);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Outer: A',
+			'Outer inner: A',
+			'Unrelated',
+			'Shadowed: fixed',
+			'Shadowed inner: fixed'
+		]);
+
+		await act(async () => {
+			setTheme('B');
+		});
+		expect(Scheduler).toHaveYielded(['Outer: B', 'Outer inner: B']);
+		expect(root).toMatchRenderedOutput('Bfixed');
+	});
+});
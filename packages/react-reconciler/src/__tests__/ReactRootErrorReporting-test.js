@@ -0,0 +1,188 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let useState;
+
+describe('ReactRootErrorReporting', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+		useState = React.useState;
+	});
+
+	test('unmounts the root and reports uncaught render errors once', async () => {
+		const root = ReactNoop.createRoot({
+			onUncaughtError(error) {
+				Scheduler.unstable_yieldValue('onUncaughtError: ' + error.message);
+			}
+		});
+
+		function Bad() {
+			throw new Error('Oops');
+		}
+
+		await act(async () => {
+			root.render('A');
+		});
+		expect(root).toMatchRenderedOutput('A');
+
+		await act(async () => {
+			root.render(<Bad />);
+		});
+		expect(Scheduler).toHaveYielded(['onUncaughtError: Oops']);
+		expect(root).toMatchRenderedOutput(null);
+	});
+
+	test('reports errors caught by a boundary', async () => {
+		const root = ReactNoop.createRoot({
+			onCaughtError(error) {
+				Scheduler.unstable_yieldValue('onCaughtError: ' + error.message);
+			}
+		});
+
+		function Bad() {
+			throw new Error('Oops');
+		}
+
+		await act(async () => {
+			root.render(
+				<React.ErrorBoundary fallback="Fallback">
+					<Bad />
+				</React.ErrorBoundary>
+			);
+		});
+		expect(Scheduler).toHaveYielded(['onCaughtError: Oops']);
+		expect(root).toMatchRenderedOutput('Fallback');
+	});
+
+	test('reports errors recovered by a synchronous retry', async () => {
+		const root = ReactNoop.createRoot({
+			onRecoverableError(error) {
+				Scheduler.unstable_yieldValue('onRecoverableError: ' + error.message);
+			}
+		});
+		let setCount;
+		let shouldThrow = false;
+
+		function Counter() {
+			const [count, _setCount] = useState(0);
+			setCount = _setCount;
+			if (shouldThrow) {
+				// 只在第一次 render 时出错
+				shouldThrow = false;
+				throw new Error('Flaky');
+			}
+			return String(count);
+		}
+
+		await act(async () => {
+			root.render(<Counter />);
+		});
+		expect(root).toMatchRenderedOutput('0');
+
+		shouldThrow = true;
+		await act(async () => {
+			setCount(1);
+		});
+		expect(Scheduler).toHaveYielded(['onRecoverableError: Flaky']);
+		expect(root).toMatchRenderedOutput('1');
+	});
+
+	test('rethrows the first sync error after the remaining sync work runs', async () => {
+		const badRoot = ReactNoop.createRoot({
+			onUncaughtError(error) {
+				throw error;
+			}
+		});
+		const goodRoot = ReactNoop.createRoot();
+
+		function Bad() {
+			throw new Error('Oops');
+		}
+
+		function App() {
+			React.useEffect(() => {
+				// 两个 root 的同步更新在 flushPassiveEffects 末尾的同一次 flushSyncCallbacks 中执行
+				Scheduler.unstable_runWithPriority(
+					Scheduler.unstable_ImmediatePriority,
+					() => {
+						badRoot.render(<Bad />);
+						goodRoot.render('B');
+					}
+				);
+			}, []);
+			return 'A';
+		}
+
+		const root = ReactNoop.createRoot();
+		let error = null;
+		try {
+			await act(async () => {
+				root.render(<App />);
+			});
+		} catch (e) {
+			error = e;
+		}
+		expect(error.message).toBe('Oops');
+		expect(goodRoot).toMatchRenderedOutput('B');
+	});
+
+	test('keeps running sibling effects when an effect error is not caught', async () => {
+		const root = ReactNoop.createRoot();
+		const consoleError = jest
+			.spyOn(console, 'error')
+			.mockImplementation(() => {});
+
+		function Bad() {
+			React.useLayoutEffect(() => {
+				throw new Error('Layout');
+			});
+			React.useEffect(() => {
+				throw new Error('Passive');
+			});
+			return null;
+		}
+
+		function Sibling() {
+			React.useLayoutEffect(() => {
+				Scheduler.unstable_yieldValue('Sibling layout');
+			});
+			React.useEffect(() => {
+				Scheduler.unstable_yieldValue('Sibling passive');
+			});
+			return 'Sibling';
+		}
+
+		await act(async () => {
+			root.render([<Bad key="bad" />, <Sibling key="sibling" />]);
+		});
+		// 默认的 onUncaughtError 只报告错误，不会中断其余的副作用
+		expect(Scheduler).toHaveYielded(['Sibling layout', 'Sibling passive']);
+		expect(root).toMatchRenderedOutput('Sibling');
+		expect(
+			consoleError.mock.calls
+				.map((args) => args[0])
+				.filter((error) => error instanceof Error)
+				.map((error) => error.message)
+		).toEqual(['Layout', 'Passive']);
+		consoleError.mockRestore();
+	});
+});
@@ -0,0 +1,248 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let Suspense;
+let startTransition;
+let use;
+let useState;
+let useTransition;
+
+describe('ReactTransition', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		Suspense = React.Suspense;
+		startTransition = React.startTransition;
+		use = React.use;
+		useState = React.useState;
+		useTransition = React.useTransition;
+	});
+
+	function Text({ text }) {
+		Scheduler.unstable_yieldValue(text);
+		return text;
+	}
+
+	function createResource() {
+		let resolve;
+		const promise = new Promise((r) => {
+			resolve = r;
+		});
+		return { promise, resolve };
+	}
+
+	test('top-level startTransition assigns TransitionLane outside components', async () => {
+		const root = ReactNoop.createRoot();
+
+		let setText;
+		function App() {
+			const [text, _setText] = useState('A');
+			setText = _setText;
+			return <Text text={text} />;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['A']);
+
+		await act(async () => {
+			startTransition(() => {
+				setText('B');
+			});
+			setText((text) => text + 'C');
+		});
+		// DefaultLane 的渲染先跳过 transition 中的 'B'，之后 transition 的渲染在 'B' 的基础上重新计算
+		expect(Scheduler).toHaveYielded(['AC', 'BC']);
+		expect(root).toMatchRenderedOutput('BC');
+	});
+
+	test('isPending stays true while the transition is suspended', async () => {
+		const root = ReactNoop.createRoot();
+		const resource = createResource();
+
+		function Content({ tab }) {
+			if (tab === 'B') {
+				return <Text text={use(resource.promise)} />;
+			}
+			return <Text text={tab} />;
+		}
+
+		let start;
+		let setTab;
+		function App() {
+			const [tab, _setTab] = useState('A');
+			const [isPending, _start] = useTransition();
+			start = _start;
+			setTab = _setTab;
+			return [
+				<Text key="status" text={isPending ? 'Pending' : 'Idle'} />,
+				<Suspense key="content" fallback={<Text text="Loading" />}>
+					<Content tab={tab} />
+				</Suspense>
+			];
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['Idle', 'A']);
+
+		await act(async () => {
+			start(() => setTab('B'));
+		});
+		// transition 挂起时不展示 fallback，也不提交 isPending = false
+		expect(Scheduler).toHaveYielded(['Pending', 'A', 'Idle']);
+		expect(root).toMatchRenderedOutput('PendingA');
+
+		await act(async () => {
+			resource.resolve('B');
+		});
+		expect(Scheduler).toHaveYielded(['Idle', 'B']);
+		expect(root).toMatchRenderedOutput('IdleB');
+	});
+
+	test('updates after await join the transition when wrapped in startTransition', async () => {
+		const root = ReactNoop.createRoot();
+		const request = createResource();
+
+		let setText;
+		function App() {
+			const [text, _setText] = useState('A');
+			setText = _setText;
+			return <Text text={text} />;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['A']);
+
+		await act(async () => {
+			startTransition(async () => {
+				await request.promise;
+				startTransition(() => {
+					setText('B');
+				});
+			});
+		});
+		expect(Scheduler).toHaveYielded([]);
+
+		await act(async () => {
+			request.resolve();
+			await request.promise;
+			await null;
+			await null;
+			// async action 已经结束，这是一个普通的 DefaultLane 更新
+			setText((text) => text + 'C');
+		});
+		// await 之后重新进入 transition 的 'B' 会被 DefaultLane 的渲染跳过
+		expect(Scheduler).toHaveYielded(['AC', 'BC']);
+		expect(root).toMatchRenderedOutput('BC');
+	});
+
+	test('isPending spans the whole async action', async () => {
+		const root = ReactNoop.createRoot();
+		const request = createResource();
+
+		let submit;
+		function Form() {
+			const [isPending, start] = useTransition();
+			const [status, setStatus] = useState('Draft');
+			submit = () =>
+				start(async () => {
+					const result = await request.promise;
+					startTransition(() => {
+						setStatus(result);
+					});
+				});
+			return <Text text={(isPending ? 'Pending ' : '') + status} />;
+		}
+
+		await act(async () => {
+			root.render(<Form />);
+		});
+		expect(Scheduler).toHaveYielded(['Draft']);
+
+		await act(async () => {
+			submit();
+		});
+		expect(Scheduler).toHaveYielded(['Pending Draft']);
+		expect(root).toMatchRenderedOutput('Pending Draft');
+
+		await act(async () => {
+			request.resolve('Saved');
+		});
+		// isPending = false 与 await 之后的更新在同一次渲染中提交
+		expect(Scheduler).toHaveYielded(['Saved']);
+		expect(root).toMatchRenderedOutput('Saved');
+	});
+
+	test('a pending async action does not capture unrelated updates', async () => {
+		const root = ReactNoop.createRoot();
+		const request = createResource();
+		// 与 fiberLanes 中的定义一致
+		const DefaultLane = 0b00100;
+
+		let submit;
+		function Form() {
+			const [isPending, start] = useTransition();
+			submit = () =>
+				start(async () => {
+					await request.promise;
+				});
+			return <Text text={isPending ? 'Pending' : 'Idle'} />;
+		}
+
+		let setOther;
+		function Other() {
+			const [other, _setOther] = useState('X');
+			setOther = _setOther;
+			return <Text text={other} />;
+		}
+
+		await act(async () => {
+			root.render([<Form key="form" />, <Other key="other" />]);
+		});
+		expect(Scheduler).toHaveYielded(['Idle', 'X']);
+
+		await act(async () => {
+			submit();
+		});
+		expect(Scheduler).toHaveYielded(['Pending']);
+
+		const fiberRoot = root.getFiberRoot();
+		await act(async () => {
+			// action 进行期间，与它无关的更新 (例如定时器、网络回调中的 setState) 保持默认优先级
+			setOther('Y');
+			expect(fiberRoot.pendingLanes).toBe(DefaultLane);
+		});
+		expect(Scheduler).toHaveYielded(['Y']);
+		expect(root).toMatchRenderedOutput('PendingY');
+
+		await act(async () => {
+			request.resolve();
+		});
+		expect(Scheduler).toHaveYielded(['Idle']);
+		expect(root).toMatchRenderedOutput('IdleY');
+	});
+});
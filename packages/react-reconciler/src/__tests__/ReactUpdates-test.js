@@ -0,0 +1,214 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let useState;
+let useEffect;
+let useLayoutEffect;
+
+describe('ReactUpdates', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		useState = React.useState;
+		useEffect = React.useEffect;
+		useLayoutEffect = React.useLayoutEffect;
+	});
+
+	test('re-runs the component for render phase updates during mount', async () => {
+		const root = ReactNoop.createRoot();
+		function Counter() {
+			const [count, setCount] = useState(0);
+			if (count < 3) {
+				setCount(count + 1);
+			}
+			Scheduler.unstable_yieldValue('Render ' + count);
+			return String(count);
+		}
+
+		await act(async () => {
+			root.render(<Counter />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Render 0',
+			'Render 1',
+			'Render 2',
+			'Render 3'
+		]);
+		expect(root).toMatchRenderedOutput('3');
+	});
+
+	test('derives state from props with render phase updates', async () => {
+		const root = ReactNoop.createRoot();
+		let effectCount = 0;
+		function Direction({ value }) {
+			const [prevValue, setPrevValue] = useState(value);
+			const [direction, setDirection] = useState('none');
+			if (value !== prevValue) {
+				setDirection(value > prevValue ? 'up' : 'down');
+				setPrevValue(value);
+			}
+			useEffect(() => {
+				effectCount++;
+			});
+			Scheduler.unstable_yieldValue(`${value} ${direction}`);
+			return `${value} ${direction}`;
+		}
+
+		await act(async () => {
+			root.render(<Direction value={1} />);
+		});
+		expect(Scheduler).toHaveYielded(['1 none']);
+
+		await act(async () => {
+			root.render(<Direction value={5} />);
+		});
+		expect(Scheduler).toHaveYielded(['5 none', '5 up']);
+		expect(root).toMatchRenderedOutput('5 up');
+
+		await act(async () => {
+			root.render(<Direction value={2} />);
+		});
+		expect(Scheduler).toHaveYielded(['2 up', '2 down']);
+		expect(root).toMatchRenderedOutput('2 down');
+		// 每次提交只执行一次 effect
+		expect(effectCount).toBe(3);
+	});
+
+	test('throws when render phase updates never settle', async () => {
+		const errors = [];
+		const root = ReactNoop.createRoot({
+			onUncaughtError(error) {
+				errors.push(error);
+			}
+		});
+		function App() {
+			const [count, setCount] = useState(0);
+			setCount(count + 1);
+			return String(count);
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(errors.length).toBe(1);
+		expect(errors[0].message).toContain('重新渲染的次数过多');
+		expect(root).toMatchRenderedOutput(null);
+	});
+
+	test('throws when layout effects keep scheduling updates', async () => {
+		const errors = [];
+		const root = ReactNoop.createRoot({
+			onUncaughtError(error) {
+				errors.push(error);
+			}
+		});
+		function App() {
+			const [count, setCount] = useState(0);
+			useLayoutEffect(() => {
+				setCount(count + 1);
+			});
+			return String(count);
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(errors.length).toBe(1);
+		expect(errors[0].message).toContain('Maximum update depth exceeded');
+	});
+
+	test('throws when passive effects keep scheduling updates', async () => {
+		const errors = [];
+		const root = ReactNoop.createRoot({
+			onUncaughtError(error) {
+				errors.push(error);
+			}
+		});
+		function App() {
+			const [count, setCount] = useState(0);
+			useEffect(() => {
+				setCount(count + 1);
+			});
+			return String(count);
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(errors.length).toBe(1);
+		expect(errors[0].message).toContain('Maximum update depth exceeded');
+	});
+
+	test('does not count updates from outside of effects', async () => {
+		const root = ReactNoop.createRoot();
+		let setCount;
+		function App() {
+			const [count, _setCount] = useState(0);
+			setCount = _setCount;
+			useEffect(() => {
+				// 每次提交之后只产生一次嵌套更新
+				if (count % 2 === 1) {
+					setCount(count + 1);
+				}
+			});
+			return String(count);
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		for (let i = 0; i < 60; i++) {
+			await act(async () => {
+				setCount((c) => c + 1);
+			});
+		}
+		expect(root).toMatchRenderedOutput('120');
+	});
+
+	test('does not count updates from many effects in one commit as a loop', async () => {
+		const root = ReactNoop.createRoot();
+		function LayoutItem() {
+			const [value, setValue] = useState(0);
+			useLayoutEffect(() => {
+				setValue(1);
+			}, []);
+			return String(value);
+		}
+		function PassiveItem() {
+			const [value, setValue] = useState(0);
+			useEffect(() => {
+				setValue(2);
+			}, []);
+			return String(value);
+		}
+
+		const items = [];
+		for (let i = 0; i < 60; i++) {
+			items.push(<LayoutItem key={'layout' + i} />);
+			items.push(<PassiveItem key={'passive' + i} />);
+		}
+		await act(async () => {
+			root.render(items);
+		});
+		expect(root).toMatchRenderedOutput('12'.repeat(60));
+	});
+});
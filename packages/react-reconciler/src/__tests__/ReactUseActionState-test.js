@@ -0,0 +1,171 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let useActionState;
+
+describe('useActionState', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		useActionState = React.useActionState;
+	});
+
+	function Text({ text }) {
+		Scheduler.unstable_yieldValue(text);
+		return text;
+	}
+
+	test('runs a sync action in a transition', async () => {
+		const root = ReactNoop.createRoot();
+
+		let dispatch;
+		function Counter() {
+			const [count, _dispatch, isPending] = useActionState(
+				(prev, amount) => prev + amount,
+				0
+			);
+			dispatch = _dispatch;
+			return <Text text={(isPending ? 'Pending ' : '') + count} />;
+		}
+
+		await act(async () => {
+			root.render(<Counter />);
+		});
+		expect(Scheduler).toHaveYielded(['0']);
+
+		await act(async () => {
+			dispatch(2);
+		});
+		expect(Scheduler).toHaveYielded(['Pending 0', '2']);
+		expect(root).toMatchRenderedOutput('2');
+	});
+
+	test('queues async actions and runs them sequentially', async () => {
+		const root = ReactNoop.createRoot();
+		const requests = {};
+		function request(id) {
+			return new Promise((resolve) => {
+				requests[id] = resolve;
+			});
+		}
+
+		let dispatch;
+		function Counter() {
+			const [count, _dispatch, isPending] = useActionState(
+				async (prev, amount) => {
+					Scheduler.unstable_yieldValue('Action ' + amount);
+					await request(amount);
+					return prev + amount;
+				},
+				0
+			);
+			dispatch = _dispatch;
+			return <Text text={(isPending ? 'Pending ' : '') + count} />;
+		}
+
+		await act(async () => {
+			root.render(<Counter />);
+		});
+		expect(Scheduler).toHaveYielded(['0']);
+
+		await act(async () => {
+			dispatch(1);
+			dispatch(2);
+		});
+		// 第二个 action 要等第一个结束后才执行
+		expect(Scheduler).toHaveYielded(['Action 1', 'Pending 0']);
+
+		await act(async () => {
+			requests[1]();
+		});
+		expect(Scheduler).toHaveYielded(['Action 2', 'Pending 1']);
+		expect(root).toMatchRenderedOutput('Pending 1');
+
+		await act(async () => {
+			requests[2]();
+		});
+		expect(Scheduler).toHaveYielded(['3']);
+		expect(root).toMatchRenderedOutput('3');
+	});
+
+	test('surfaces a rejected action to the nearest error boundary', async () => {
+		const root = ReactNoop.createRoot();
+		let reject;
+
+		let dispatch;
+		function Counter() {
+			const [count, _dispatch, isPending] = useActionState(
+				async (prev, amount) => {
+					Scheduler.unstable_yieldValue('Action ' + amount);
+					if (amount === 1) {
+						await new Promise((_, r) => {
+							reject = r;
+						});
+					}
+					return prev + amount;
+				},
+				0
+			);
+			dispatch = _dispatch;
+			return <Text text={(isPending ? 'Pending ' : '') + count} />;
+		}
+
+		let reset;
+		await act(async () => {
+			root.render(
+				<React.ErrorBoundary
+					fallback={(error, resetBoundary) => {
+						reset = resetBoundary;
+						return <Text text={'Error: ' + error.message} />;
+					}}
+				>
+					<Counter />
+				</React.ErrorBoundary>
+			);
+		});
+		expect(Scheduler).toHaveYielded(['0']);
+
+		await act(async () => {
+			dispatch(1);
+			dispatch(2);
+		});
+		expect(Scheduler).toHaveYielded(['Action 1', 'Pending 0']);
+
+		await act(async () => {
+			reject(new Error('Failed'));
+		});
+		// 错误与 isPending = false 在同一次渲染中处理，队列中的 action 2 被丢弃
+		expect(Scheduler).toHaveYielded(['Error: Failed']);
+		expect(root).toMatchRenderedOutput('Error: Failed');
+
+		await act(async () => {
+			reset();
+		});
+		expect(Scheduler).toHaveYielded(['0']);
+
+		await act(async () => {
+			dispatch(2);
+		});
+		expect(Scheduler).toHaveYielded(['Action 2', 'Pending 0', '2']);
+		expect(root).toMatchRenderedOutput('2');
+	});
+});
@@ -0,0 +1,118 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let useEffect;
+let useEffectEvent;
+let useLayoutEffect;
+
+describe('useEffectEvent', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		useEffect = React.useEffect;
+		useEffectEvent = React.useEffectEvent;
+		useLayoutEffect = React.useLayoutEffect;
+	});
+
+	test('effects read the latest props without re-subscribing', async () => {
+		const root = ReactNoop.createRoot();
+
+		function Page({ url, theme }) {
+			const onVisit = useEffectEvent((visitedUrl) => {
+				Scheduler.unstable_yieldValue(`Visit ${visitedUrl} (${theme})`);
+			});
+			useEffect(() => {
+				Scheduler.unstable_yieldValue(`Subscribe ${url}`);
+				onVisit(url);
+				return () => {
+					Scheduler.unstable_yieldValue(`Unsubscribe ${url}`);
+				};
+			}, [url, onVisit]);
+			return url;
+		}
+
+		await act(async () => {
+			root.render(<Page url="/a" theme="light" />);
+		});
+		expect(Scheduler).toHaveYielded(['Subscribe /a', 'Visit /a (light)']);
+
+		// 只有 theme 变化，effect 不应该重新执行
+		await act(async () => {
+			root.render(<Page url="/a" theme="dark" />);
+		});
+		expect(Scheduler).toHaveYielded([]);
+
+		await act(async () => {
+			root.render(<Page url="/b" theme="dark" />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'Unsubscribe /a',
+			'Subscribe /b',
+			'Visit /b (dark)'
+		]);
+	});
+
+	test('the latest callback is visible to layout effects of the same commit', async () => {
+		const root = ReactNoop.createRoot();
+
+		function Counter({ count }) {
+			const log = useEffectEvent(() => {
+				Scheduler.unstable_yieldValue(`Count ${count}`);
+			});
+			useLayoutEffect(() => {
+				log();
+			});
+			return count;
+		}
+
+		await act(async () => {
+			root.render(<Counter count={1} />);
+		});
+		expect(Scheduler).toHaveYielded(['Count 1']);
+
+		await act(async () => {
+			root.render(<Counter count={2} />);
+		});
+		expect(Scheduler).toHaveYielded(['Count 2']);
+	});
+
+	test('throws when called during render', async () => {
+		const root = ReactNoop.createRoot();
+
+		function App() {
+			const onRender = useEffectEvent(() => {});
+			try {
+				onRender();
+			} catch (error) {
+				Scheduler.unstable_yieldValue(error.message);
+			}
+			return null;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'useEffectEvent 返回的函数不能在 render 阶段调用'
+		]);
+	});
+});
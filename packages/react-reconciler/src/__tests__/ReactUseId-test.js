@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let useId;
+let useState;
+
+describe('useId', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		useId = React.useId;
+		useState = React.useState;
+	});
+
+	function Item({ name }) {
+		const id = useId();
+		Scheduler.unstable_yieldValue(name + ' ' + id);
+		return id;
+	}
+
+	test('derives ids from the position in the tree', async () => {
+		const root = ReactNoop.createRoot();
+
+		function Parent() {
+			const id = useId();
+			const secondId = useId();
+			Scheduler.unstable_yieldValue('Parent ' + id + ' ' + secondId);
+			return <Item name="Child" />;
+		}
+
+		function App() {
+			return [
+				<Item key="a" name="A" />,
+				<Item key="b" name="B" />,
+				<Parent key="p" />
+			];
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded([
+			'A :r0:',
+			'B :r1:',
+			'Parent :r2: :r2H1:',
+			'Child :r2-0:'
+		]);
+	});
+
+	test('ids are stable across re-renders and reorders', async () => {
+		const root = ReactNoop.createRoot();
+
+		let setItems;
+		function App() {
+			const [items, _setItems] = useState(['a', 'b']);
+			setItems = _setItems;
+			return items.map((name) => <Item key={name} name={name} />);
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['a :r0:', 'b :r1:']);
+
+		await act(async () => {
+			setItems(['b', 'a']);
+		});
+		expect(Scheduler).toHaveYielded(['b :r1:', 'a :r0:']);
+	});
+
+	test('prefixes ids with identifierPrefix', async () => {
+		const root = ReactNoop.createRoot({ identifierPrefix: 'app-' });
+
+		await act(async () => {
+			root.render(<Item name="A" />);
+		});
+		expect(Scheduler).toHaveYielded(['A :app-r:']);
+		expect(root).toMatchRenderedOutput(':app-r:');
+	});
+});
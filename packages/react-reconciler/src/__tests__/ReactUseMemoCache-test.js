@@ -0,0 +1,139 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let useMemoCache;
+let useState;
+
+const MEMO_CACHE_SENTINEL = Symbol.for('react.memo_cache_sentinel');
+
+describe('useMemoCache', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		useMemoCache = React.useMemoCache;
+		useState = React.useState;
+	});
+
+	// 模拟编译器产物
+	function Greeting({ name }) {
+		const $ = useMemoCache(2);
+		let greeting;
+		if ($[0] !== name) {
+			Scheduler.unstable_yieldValue(`Compute ${name}`);
+			greeting = `Hello ${name}`;
+			$[0] = name;
+			$[1] = greeting;
+		} else {
+			greeting = $[1];
+		}
+		return greeting;
+	}
+
+	test('fills empty slots with the sentinel', async () => {
+		const root = ReactNoop.createRoot();
+		let cache;
+		function App() {
+			cache = useMemoCache(3);
+			return null;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(cache).toEqual([
+			MEMO_CACHE_SENTINEL,
+			MEMO_CACHE_SENTINEL,
+			MEMO_CACHE_SENTINEL
+		]);
+	});
+
+	test('preserves the cache across renders', async () => {
+		const root = ReactNoop.createRoot();
+
+		await act(async () => {
+			root.render(<Greeting name="Alice" />);
+		});
+		expect(Scheduler).toHaveYielded(['Compute Alice']);
+		expect(root).toMatchRenderedOutput('Hello Alice');
+
+		await act(async () => {
+			root.render(<Greeting name="Alice" />);
+		});
+		expect(Scheduler).toHaveYielded([]);
+		expect(root).toMatchRenderedOutput('Hello Alice');
+
+		await act(async () => {
+			root.render(<Greeting name="Bob" />);
+		});
+		expect(Scheduler).toHaveYielded(['Compute Bob']);
+		expect(root).toMatchRenderedOutput('Hello Bob');
+	});
+
+	test('resets the cache on remount', async () => {
+		const root = ReactNoop.createRoot();
+
+		await act(async () => {
+			root.render(<Greeting key="a" name="Alice" />);
+		});
+		expect(Scheduler).toHaveYielded(['Compute Alice']);
+
+		await act(async () => {
+			root.render(<Greeting key="b" name="Alice" />);
+		});
+		expect(Scheduler).toHaveYielded(['Compute Alice']);
+	});
+
+	test('keeps the committed cache when the component bails out', async () => {
+		const root = ReactNoop.createRoot();
+
+		let setCount;
+		function Counter() {
+			const $ = useMemoCache(1);
+			const [count, _setCount] = useState(0);
+			setCount = _setCount;
+			if ($[0] === MEMO_CACHE_SENTINEL) {
+				Scheduler.unstable_yieldValue('Compute label');
+				$[0] = 'Count: ';
+			}
+			Scheduler.unstable_yieldValue(`Render ${count}`);
+			return $[0] + count;
+		}
+
+		await act(async () => {
+			root.render(<Counter />);
+		});
+		expect(Scheduler).toHaveYielded(['Compute label', 'Render 0']);
+
+		// 最终 state 没有变化，组件 render 之后会走 bailoutHook
+		await act(async () => {
+			setCount(1);
+			setCount(0);
+		});
+		expect(Scheduler).toHaveYielded(['Render 0']);
+
+		await act(async () => {
+			setCount(2);
+		});
+		expect(Scheduler).toHaveYielded(['Render 2']);
+		expect(root).toMatchRenderedOutput('Count: 2');
+	});
+});
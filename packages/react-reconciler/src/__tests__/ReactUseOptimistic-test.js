@@ -0,0 +1,174 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let startTransition;
+let useOptimistic;
+let useState;
+
+describe('useOptimistic', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		startTransition = React.startTransition;
+		useOptimistic = React.useOptimistic;
+		useState = React.useState;
+	});
+
+	function Text({ text }) {
+		Scheduler.unstable_yieldValue(text);
+		return text;
+	}
+
+	function createRequest() {
+		let resolve;
+		let reject;
+		const promise = new Promise((res, rej) => {
+			resolve = res;
+			reject = rej;
+		});
+		return { promise, resolve, reject };
+	}
+
+	test('shows the optimistic state until the action commits', async () => {
+		const root = ReactNoop.createRoot();
+		const request = createRequest();
+
+		let like;
+		function App() {
+			const [likes, setLikes] = useState(0);
+			const [optimisticLikes, addOptimisticLike] = useOptimistic(
+				likes,
+				(state, amount) => state + amount
+			);
+			like = () =>
+				startTransition(async () => {
+					addOptimisticLike(1);
+					const savedLikes = await request.promise;
+					startTransition(() => {
+						setLikes(savedLikes);
+					});
+				});
+			return <Text text={'Likes: ' + optimisticLikes} />;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['Likes: 0']);
+
+		await act(async () => {
+			like();
+		});
+		expect(Scheduler).toHaveYielded(['Likes: 1']);
+		expect(root).toMatchRenderedOutput('Likes: 1');
+
+		await act(async () => {
+			request.resolve(5);
+		});
+		// 乐观更新被撤销，与真实的状态在同一次渲染中提交
+		expect(Scheduler).toHaveYielded(['Likes: 5']);
+		expect(root).toMatchRenderedOutput('Likes: 5');
+	});
+
+	test('stacks optimistic updates and reverts them when the action fails', async () => {
+		const root = ReactNoop.createRoot();
+		const request = createRequest();
+
+		let addOptimisticLike;
+		function App() {
+			const [likes] = useState(0);
+			const [optimisticLikes, _addOptimisticLike] = useOptimistic(
+				likes,
+				(state, amount) => state + amount
+			);
+			addOptimisticLike = _addOptimisticLike;
+			return <Text text={'Likes: ' + optimisticLikes} />;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['Likes: 0']);
+
+		await act(async () => {
+			startTransition(async () => {
+				addOptimisticLike(1);
+				addOptimisticLike(2);
+				await request.promise;
+			});
+		});
+		expect(Scheduler).toHaveYielded(['Likes: 3']);
+
+		await act(async () => {
+			request.reject(new Error('Network error'));
+		});
+		expect(Scheduler).toHaveYielded(['Likes: 0']);
+		expect(root).toMatchRenderedOutput('Likes: 0');
+	});
+
+	test('keeps an optimistic update only while its own action is pending', async () => {
+		const root = ReactNoop.createRoot();
+		const first = createRequest();
+		const second = createRequest();
+
+		let addOptimisticLike;
+		function App() {
+			const [likes] = useState(0);
+			const [optimisticLikes, _addOptimisticLike] = useOptimistic(
+				likes,
+				(state, amount) => state + amount
+			);
+			addOptimisticLike = _addOptimisticLike;
+			return <Text text={'Likes: ' + optimisticLikes} />;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['Likes: 0']);
+
+		await act(async () => {
+			startTransition(async () => {
+				addOptimisticLike(1);
+				await first.promise;
+			});
+			startTransition(async () => {
+				addOptimisticLike(10);
+				await second.promise;
+			});
+		});
+		expect(Scheduler).toHaveYielded(['Likes: 11']);
+
+		await act(async () => {
+			first.resolve();
+		});
+		// 第二个 action 仍在进行，只撤销第一个 action 的乐观更新
+		expect(Scheduler).toHaveYielded(['Likes: 10']);
+		expect(root).toMatchRenderedOutput('Likes: 10');
+
+		await act(async () => {
+			second.resolve();
+		});
+		expect(Scheduler).toHaveYielded(['Likes: 0']);
+		expect(root).toMatchRenderedOutput('Likes: 0');
+	});
+});
@@ -0,0 +1,166 @@
+/**
+ * Copyright (c) Facebook, Inc. and its affiliates.
+ *
+ * This source code is licensed under the MIT license found in the
+ * LICENSE file in the root directory of this source tree.
+ *
+ * @emails react-core
+ * @jest-environment node
+ */
+
+'use strict';
+
+let React;
+let ReactNoop;
+let Scheduler;
+let act;
+let useState;
+let useSyncExternalStore;
+
+describe('useSyncExternalStore', () => {
+	beforeEach(() => {
+		jest.resetModules();
+		jest.useFakeTimers();
+
+		React = require('react');
+		act = require('jest-react').act;
+		Scheduler = require('scheduler');
+		ReactNoop = require('react-noop-renderer');
+
+		useState = React.useState;
+		useSyncExternalStore = React.useSyncExternalStore;
+	});
+
+	function Text({ text }) {
+		Scheduler.unstable_yieldValue(text);
+		return text;
+	}
+
+	function createExternalStore(initialState) {
+		const listeners = new Set();
+		let currentState = initialState;
+		return {
+			set(state) {
+				currentState = state;
+				listeners.forEach((listener) => listener());
+			},
+			// 修改 store 但不通知订阅者
+			setSilently(state) {
+				currentState = state;
+			},
+			subscribe(listener) {
+				listeners.add(listener);
+				return () => listeners.delete(listener);
+			},
+			getState() {
+				return currentState;
+			},
+			getSubscriberCount() {
+				return listeners.size;
+			}
+		};
+	}
+
+	test('subscribes after commit and unsubscribes on unmount', async () => {
+		const store = createExternalStore('A');
+		const root = ReactNoop.createRoot();
+
+		function App() {
+			const text = useSyncExternalStore(store.subscribe, store.getState);
+			return <Text text={text} />;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['A']);
+		expect(store.getSubscriberCount()).toBe(1);
+
+		await act(async () => {
+			store.set('B');
+		});
+		expect(Scheduler).toHaveYielded(['B']);
+		expect(root).toMatchRenderedOutput('B');
+
+		await act(async () => {
+			root.render(null);
+		});
+		expect(store.getSubscriberCount()).toBe(0);
+	});
+
+	test('store mutation between time slices forces a synchronous re-render', async () => {
+		const store = createExternalStore(0);
+		const root = ReactNoop.createRoot();
+
+		function Reader({ name }) {
+			const value = useSyncExternalStore(store.subscribe, store.getState);
+			return <Text text={name + value} />;
+		}
+
+		let setTick;
+		function App() {
+			const [tick, _setTick] = useState(0);
+			setTick = _setTick;
+			return [
+				<Reader key="a" name="A" tick={tick} />,
+				<Reader key="b" name="B" tick={tick} />
+			];
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded(['A0', 'B0']);
+
+		await act(async () => {
+			Scheduler.unstable_runWithPriority(
+				Scheduler.unstable_NormalPriority,
+				() => setTick(1)
+			);
+			// 并发渲染完 A 之后让出
+			expect(Scheduler).toFlushAndYieldThrough(['A0']);
+			// 两个切片之间修改 store
+			store.set(1);
+		});
+		// 同步重新渲染，B 不会读到与 A 不一致的值
+		expect(Scheduler).toHaveYielded(['A1', 'B1', 'A1', 'B1']);
+		expect(root).toMatchRenderedOutput('A1B1');
+	});
+
+	test('detects tearing in a concurrent render before subscriptions exist', async () => {
+		const store = createExternalStore(0);
+		const root = ReactNoop.createRoot();
+
+		function Reader({ name }) {
+			const value = useSyncExternalStore(store.subscribe, store.getState);
+			return <Text text={name + value} />;
+		}
+
+		let setShow;
+		function App() {
+			const [show, _setShow] = useState(false);
+			setShow = _setShow;
+			return show
+				? [<Reader key="a" name="A" />, <Reader key="b" name="B" />]
+				: null;
+		}
+
+		await act(async () => {
+			root.render(<App />);
+		});
+		expect(Scheduler).toHaveYielded([]);
+
+		await act(async () => {
+			Scheduler.unstable_runWithPriority(
+				Scheduler.unstable_NormalPriority,
+				() => setShow(true)
+			);
+			expect(Scheduler).toFlushAndYieldThrough(['A0']);
+			// 尚未提交，没有订阅者会收到通知
+			store.setSilently(1);
+			// B 读到了新值，提交前的一致性检查发现 A 已经过期，同步重新渲染
+			expect(Scheduler).toFlushAndYield(['B1', 'A1', 'B1']);
+		});
+		expect(root).toMatchRenderedOutput('A1B1');
+	});
+});
@@ -1,42 +1,75 @@
-import { ReactElementType } from 'shared/ReactTypes';
+import { ReactContext, ReactElementType } from 'shared/ReactTypes';
+import { LazyComponent as LazyComponentType } from 'react/src/lazy';
 import {
 	FiberNode,
 	createFiberFromFragment,
 	createWorkInProgress,
 	createFiberFromOffscreen,
-	OffscreenProps
+	FiberRootNode,
+	OffscreenProps,
+	resolveLazyComponentTag
 } from './fiber';
-import { processUpdateQueue, UpdateQueue } from './updateQueue';
+import {
+	createUpdateQueue,
+	processUpdateQueue,
+	UpdateQueue
+} from './updateQueue';
 import {
 	ContextProvider,
 	Fragment,
 	FunctionComponent,
+	ClassComponent,
 	HostComponent,
 	HostRoot,
 	HostText,
 	OffscreenComponent,
 	SuspenseComponent,
-	MemoComponent
+	MemoComponent,
+	ForwardRef,
+	ErrorBoundaryComponent,
+	LazyComponent,
+	HostPortal,
+	ContextConsumer
 } from './workTags';
 
 import { mountChildFibers, reconcileChildFibers } from './childFibers';
 import { bailoutHook, renderWithHooks } from './fiberHooks';
-import { Lane, NoLanes, includeSomeLanes } from './fiberLanes';
+import { Lane, NoLanes, includeSomeLanes, mergeLanes } from './fiberLanes';
 import {
 	Ref,
 	NoFlags,
+	Callback,
 	DidCapture,
 	Placement,
 	ChildDeletion
 } from './fiberFlags';
 import {
+	checkIfContextChanged,
+	getContextName,
+	getProviderContext,
+	lazilyPropagateParentContextChanges,
 	prepareToReadContext,
 	propagateContextChange,
-	pushProvider
+	pushProvider,
+	readContext
 } from './fiberContext';
 import { pushSuspenseHandler } from './suspenseContext';
+import { trackUsedThenable } from './thenable';
+import { CacheContext, getCacheForRender } from './fiberCache';
 import { cloneChildFibers } from './childFibers';
 import { shallowEqual } from 'shared/shallowEquals';
+import { REACT_FORWARD_REF_TYPE } from 'shared/ReactSymbols';
+import { pushMaterializedTreeId, pushTreeFork } from './fiberTreeContext';
+import {
+	constructClassInstance,
+	mountClassInstance,
+	updateClassInstance
+} from './fiberClassComponent';
+import {
+	ErrorBoundaryState,
+	ErrorBoundaryUpdateQueue,
+	resetErrorBoundary
+} from './fiberErrorBoundary';
 
 // 是否能命中bailout
 /**
@@ -91,6 +124,9 @@ export const beginWork = (wip: FiberNode, renderLane: Lane) => {
 	didReceiveUpdate = false;
 	const current = wip.alternate;
 
+	// useId 依赖的 tree id
+	pushTreeFork(wip);
+
 	if (current !== null) {
 		const oldProps = current.memoizedProps;
 		const newProps = wip.pendingProps;
@@ -111,12 +147,22 @@ export const beginWork = (wip: FiberNode, renderLane: Lane) => {
 				didReceiveUpdate = false;
 
 				switch (wip.tag) {
+					case HostRoot:
+						pushProvider(
+							wip,
+							CacheContext,
+							getCacheForRender(wip.stateNode, renderLane)
+						);
+						break;
 					case ContextProvider:
 						const newValue = wip.memoizedProps.value;
-						const context = wip.type._context;
-						pushProvider(context, newValue);
+						const context = getProviderContext(wip);
+						pushProvider(wip, context, newValue);
+						break;
+					case SuspenseComponent:
+						// completeWork 中会弹出，bailout 时也要入栈
+						pushSuspenseHandler(wip);
 						break;
-					// TODO Suspense
 				}
 
 				return bailoutOnAlreadyFinishedWork(wip, renderLane);
@@ -133,18 +179,30 @@ export const beginWork = (wip: FiberNode, renderLane: Lane) => {
 			return updateHostComponent(wip);
 		case HostText:
 			return null;
+		case HostPortal:
+			return updatePortalComponent(wip);
 		case FunctionComponent:
 			return updateFunctionComponent(wip, wip.type, renderLane);
+		case ClassComponent:
+			return updateClassComponent(wip, wip.type, renderLane);
 		case Fragment:
 			return updateFragment(wip);
 		case ContextProvider:
 			return updateContextProvider(wip, renderLane);
+		case ContextConsumer:
+			return updateContextConsumer(wip, renderLane);
 		case SuspenseComponent:
 			return updateSuspenseComponent(wip);
+		case ErrorBoundaryComponent:
+			return updateErrorBoundary(wip, renderLane);
 		case OffscreenComponent:
 			return updateOffscreenComponent(wip);
 		case MemoComponent:
 			return updateMemoComponent(wip, renderLane);
+		case ForwardRef:
+			return updateForwardRef(wip, wip.type.render, renderLane);
+		case LazyComponent:
+			return mountLazyComponent(wip, renderLane);
 		default:
 			if (__DEV__) {
 				console.warn('beginWork未实现的类型');
@@ -154,6 +212,44 @@ export const beginWork = (wip: FiberNode, renderLane: Lane) => {
 	return null;
 };
 
+/**
+ * @function mountLazyComponent
+ * @description 处理 `LazyComponent` 类型的 Fiber 节点。
+ *              1. 通过 `preload()` 开始加载模块，并交给 `trackUsedThenable`：
+ *                 - 模块还在加载时抛出 `SuspenseException`，由最近的 `<Suspense>` 展示 fallback，加载完成后重新渲染；
+ *                 - 加载失败时抛出错误，交给最近的 `<ErrorBoundary>`。
+ *              2. 模块加载完成后，把 `wip.type` 替换为默认导出的组件，并按组件类型重新标记 `wip.tag`，
+ *                 之后的渲染直接按新的类型处理，不会再经过这里。
+ *
+ * @param {FiberNode} wip - 当前正在处理的 LazyComponent 类型的 work-in-progress Fiber 节点。
+ * @param {Lane} renderLane - 当前渲染工作的优先级 Lane。
+ * @returns {FiberNode | null} 返回解析后的组件渲染出的第一个子 Fiber 节点。
+ */
+function mountLazyComponent(wip: FiberNode, renderLane: Lane) {
+	const lazyComponent: LazyComponentType<any> = wip.elementType;
+	const module = trackUsedThenable(lazyComponent.preload());
+	if (__DEV__ && !('default' in module)) {
+		console.error(
+			"lazy 的加载函数应该返回一个带有 default 导出的模块，例如 () => import('./X')"
+		);
+	}
+	const Component = module.default;
+	wip.type = Component;
+	wip.tag = resolveLazyComponentTag(Component);
+
+	switch (wip.tag) {
+		case FunctionComponent:
+			return updateFunctionComponent(wip, Component, renderLane);
+		case ClassComponent:
+			return updateClassComponent(wip, Component, renderLane);
+		case MemoComponent:
+			return updateMemoComponent(wip, renderLane);
+		case ForwardRef:
+			return updateForwardRef(wip, Component.render, renderLane);
+	}
+	return null;
+}
+
 /**
  * @function updateMemoComponent
  * @description 处理 `MemoComponent` 类型的 Fiber 节点的 `beginWork` 逻辑。
@@ -169,7 +265,8 @@ export const beginWork = (wip: FiberNode, renderLane: Lane) => {
  *                   尝试跳过此组件及其子树的渲染。
  *              3. **继续更新**:
  *                 - 如果不满足 bailout 条件（例如 props 变化，或有相关的 state/context 更新），
- *                   则调用 `updateFunctionComponent` 来处理其内部包裹的实际函数组件 (`wip.type.type`)。
+ *                   则调用 `updateFunctionComponent` 来处理其内部包裹的实际函数组件 (`wip.type.type`)；
+ *                   如果包裹的是 `forwardRef` 组件，则调用 `updateForwardRef`。
  *
  * @param {FiberNode} wip - 当前正在处理的 MemoComponent 类型的 work-in-progress Fiber 节点。
  * @param {Lane} renderLane - 当前渲染工作的优先级 Lane。
@@ -201,6 +298,14 @@ function updateMemoComponent(wip: FiberNode, renderLane: Lane) {
 			}
 		}
 	}
+	if (
+		typeof Component === 'object' &&
+		Component !== null &&
+		Component.$$typeof === REACT_FORWARD_REF_TYPE
+	) {
+		// memo(forwardRef(render))
+		return updateForwardRef(wip, Component.render, renderLane);
+	}
 	return updateFunctionComponent(wip, Component, renderLane);
 }
 
@@ -209,7 +314,8 @@ function updateMemoComponent(wip: FiberNode, renderLane: Lane) {
  * @description 当一个 Fiber 节点 (wip) 自身没有接收到更新 (didReceiveUpdate is false)
  *              并且其 lanes 属性不包含当前的 renderLane 时，会调用此函数尝试进行 bailout 优化。
  *              它检查 `wip.childLanes` 是否包含 `renderLane`：
- *              - 如果不包含，意味着该 Fiber 节点的整个子树在当前 `renderLane` 下也没有待处理的工作，
+ *              - 如果不包含，先调用 `lazilyPropagateParentContextChanges` 把祖先 Provider 的变化传播到子树，
+ *                传播后仍不包含，意味着该 Fiber 节点的整个子树在当前 `renderLane` 下也没有待处理的工作，
  *                因此可以安全地跳过 (bailout) 对整个子树的处理，函数返回 `null`。
  *              - 如果包含，意味着虽然当前 Fiber 节点自身不需要重新渲染，但其子树中可能存在
  *                需要在当前 `renderLane` 下处理的更新。此时，会调用 `cloneChildFibers`
@@ -221,11 +327,19 @@ function updateMemoComponent(wip: FiberNode, renderLane: Lane) {
  *                             如果整个子树都可以 bailout，则返回 `null`。
  */
 function bailoutOnAlreadyFinishedWork(wip: FiberNode, renderLane: Lane) {
+	pushMaterializedTreeId(wip);
+
 	if (!includeSomeLanes(wip.childLanes, renderLane)) {
-		if (__DEV__) {
-			console.warn('bailout整棵子树', wip);
+		// 跳过子树之前检查子树中是否有依赖了变化的 context 的 fiber
+		if (wip.alternate !== null) {
+			lazilyPropagateParentContextChanges(wip, renderLane);
+		}
+		if (!includeSomeLanes(wip.childLanes, renderLane)) {
+			if (__DEV__) {
+				console.warn('bailout整棵子树', wip);
+			}
+			return null;
 		}
-		return null;
 	}
 
 	if (__DEV__) {
@@ -244,7 +358,7 @@ function bailoutOnAlreadyFinishedWork(wip: FiberNode, renderLane: Lane) {
  *                              其 `lanes` 属性包含了该 Fiber 节点上所有待处理更新的优先级。
  * @param {Lane} renderLane - 当前渲染工作的优先级 Lane。
  * @returns {boolean} 如果 `current.lanes` 中包含 `renderLane` (即存在与当前渲染优先级匹配的待处理更新)，
- *                    则返回 `true`，表示该 Fiber 节点需要处理更新。否则返回 `false`。
+ *                    或者依赖的 context 的值发生了变化，则返回 `true`，表示该 Fiber 节点需要处理更新。否则返回 `false`。
  */
 function checkScheduledUpdateOrContext(
 	current: FiberNode,
@@ -254,6 +368,11 @@ function checkScheduledUpdateOrContext(
 	if (includeSomeLanes(updateLanes, renderLane)) {
 		return true;
 	}
+	// Provider 不会主动通知子树中的 consumer，由 consumer 自己对比依赖的值
+	const deps = current.dependencies;
+	if (deps !== null && checkIfContextChanged(deps)) {
+		return true;
+	}
 	return false;
 }
 
@@ -262,24 +381,29 @@ function updateContextProvider(wip: FiberNode, renderLane: Lane) {
 	// 		$$typeof: REACT_PROVIDER_TYPE,
 	// 		_context: context
 	// 	};
-	const providerType = wip.type;
-	const context = providerType._context;
+	// 或者直接渲染的 context 对象本身
+	const context = getProviderContext(wip);
 	const newProps = wip.pendingProps;
 	const oldProps = wip.memoizedProps;
 	const newValue = newProps.value;
 
-	pushProvider(context, newValue);
+	if (__DEV__ && !('value' in newProps)) {
+		const name = getContextName(context);
+		const tagName = wip.type === context ? `<${name}>` : `<${name}.Provider>`;
+		console.error(`${tagName} 缺少 value 属性，是否拼写错误或忘记传入？`);
+	}
+
+	pushProvider(wip, context, newValue);
 
 	if (oldProps !== null) {
 		const oldValue = oldProps.value;
 
+		// 值变化时不遍历子树，子树中的 fiber bailout 时再通过 lazilyPropagateParentContextChanges 传播
 		if (
 			Object.is(oldValue, newValue) &&
 			oldProps.children === newProps.children
 		) {
 			return bailoutOnAlreadyFinishedWork(wip, renderLane);
-		} else {
-			propagateContextChange(wip, context, renderLane);
 		}
 	}
 
@@ -288,6 +412,33 @@ function updateContextProvider(wip: FiberNode, renderLane: Lane) {
 	return wip.child;
 }
 
+/**
+ * @function updateContextConsumer
+ * @description 处理 ContextConsumer 类型的 Fiber 节点 (`<Context.Consumer>`)。
+ *              通过 `readContext` 读取值并记录依赖，Provider 的值变化时它会重新渲染；
+ *              然后以这个值调用 children 渲染函数得到子节点。
+ * @param wip 父节点
+ * @param renderLane 本次更新的 lane
+ * @returns 返回协调后产生的第一个子 Fiber 节点
+ */
+function updateContextConsumer(wip: FiberNode, renderLane: Lane) {
+	const context: ReactContext<any> = wip.type._context;
+	const newProps = wip.pendingProps;
+	const render = newProps.children;
+
+	if (typeof render !== 'function') {
+		throw new Error(
+			`<${getContextName(context)}.Consumer> 的 children 必须是一个函数`
+		);
+	}
+
+	prepareToReadContext(wip, renderLane);
+	const newValue = readContext(wip, context);
+	const nextChildren = render(newValue);
+	reconcileChildren(wip, nextChildren);
+	return wip.child;
+}
+
 /**
  * @description 处理 Fragment 类型的 Fiber 节点
  * @param wip 父节点
@@ -299,6 +450,23 @@ function updateFragment(wip: FiberNode) {
 	return wip.child;
 }
 
+/**
+ * @description 处理 HostPortal 类型的 Fiber 节点。
+ *              portal 的子节点挂载在单独的容器中，祖先节点的 Placement 不会插入它们，
+ *              因此 mount 时也需要追踪副作用，让每个子节点自己打上 Placement。
+ * @param wip 父节点
+ * @returns 返回协调后产生的第一个子 Fiber 节点
+ */
+function updatePortalComponent(wip: FiberNode) {
+	const nextChildren = wip.pendingProps;
+	if (wip.alternate === null) {
+		wip.child = reconcileChildFibers(wip, null, nextChildren);
+	} else {
+		reconcileChildren(wip, nextChildren);
+	}
+	return wip.child;
+}
+
 /**
  * @function updateFunctionComponent
  * @description 在 begin/render 阶段处理 FunctionComponent 类型的 Fiber 节点。
@@ -334,6 +502,97 @@ function updateFunctionComponent(
 		return bailoutOnAlreadyFinishedWork(wip, renderLane);
 	}
 
+	pushMaterializedTreeId(wip);
+	reconcileChildren(wip, nextChildren);
+	return wip.child;
+}
+
+/**
+ * @function updateClassComponent
+ * @description 在 begin/render 阶段处理 ClassComponent 类型的 Fiber 节点。
+ *              首次渲染时创建组件实例并初始化 state；更新时处理 updateQueue，
+ *              并根据 `shouldComponentUpdate` / `PureComponent` 的结果决定是否需要重新执行 `render`。
+ *
+ * @param {FiberNode} wip - 当前正在处理的 ClassComponent 类型的 work-in-progress Fiber 节点。
+ * @param {FiberNode['type']} Component - 类组件的构造函数。
+ * @param {Lane} renderLane - 当前渲染工作的优先级 Lane。
+ * @returns {FiberNode | null} 返回下一个要处理的 Fiber 节点，或者在 bailout 或没有子节点时返回 `null`。
+ */
+function updateClassComponent(
+	wip: FiberNode,
+	Component: FiberNode['type'],
+	renderLane: Lane
+) {
+	const current = wip.alternate;
+	const nextProps = wip.pendingProps;
+
+	let shouldUpdate: boolean;
+	if (current === null || wip.stateNode === null) {
+		// mount
+		constructClassInstance(wip, Component, nextProps);
+		mountClassInstance(wip, Component, nextProps);
+		shouldUpdate = true;
+	} else {
+		// update
+		shouldUpdate = updateClassInstance(
+			current,
+			wip,
+			Component,
+			nextProps,
+			renderLane
+		);
+	}
+	return finishClassComponent(wip, shouldUpdate, renderLane);
+}
+
+/**
+ * @function finishClassComponent
+ * @description 执行类组件实例的 `render` 并协调子节点，`shouldUpdate` 为 false 时复用上一次的子树。
+ */
+function finishClassComponent(
+	wip: FiberNode,
+	shouldUpdate: boolean,
+	renderLane: Lane
+) {
+	markRef(wip.alternate, wip);
+
+	if (!shouldUpdate) {
+		return bailoutOnAlreadyFinishedWork(wip, renderLane);
+	}
+
+	const instance = wip.stateNode;
+	const nextChildren = instance.render();
+	reconcileChildren(wip, nextChildren);
+	return wip.child;
+}
+
+/**
+ * @function updateForwardRef
+ * @description 在 begin/render 阶段处理 ForwardRef 类型的 Fiber 节点。
+ *              与 `updateFunctionComponent` 的流程一致，区别在于渲染函数会以 `(props, ref)` 的形式被调用，
+ *              其中 `ref` 来自 `wip.ref`，即父组件传给该元素的 ref。
+ *
+ * @param {FiberNode} wip - 当前正在处理的 ForwardRef 类型的 work-in-progress Fiber 节点。
+ * @param {FiberNode['type']} render - `forwardRef` 包装的渲染函数 (`wip.type.render`)。
+ * @param {Lane} renderLane - 当前渲染工作的优先级 Lane。
+ * @returns {FiberNode | null} 返回下一个要处理的 Fiber 节点，或者在 bailout 或没有子节点时返回 `null`。
+ */
+function updateForwardRef(
+	wip: FiberNode,
+	render: FiberNode['type'],
+	renderLane: Lane
+) {
+	prepareToReadContext(wip, renderLane);
+	// render(props, ref)
+	const nextChildren = renderWithHooks(wip, render, renderLane, wip.ref);
+
+	const current = wip.alternate;
+	if (current !== null && !didReceiveUpdate) {
+		bailoutHook(wip, renderLane);
+		return bailoutOnAlreadyFinishedWork(wip, renderLane);
+	}
+
+	pushMaterializedTreeId(wip);
 	reconcileChildren(wip, nextChildren);
 	return wip.child;
 }
@@ -358,6 +617,14 @@ function updateHostRoot(wip: FiberNode, renderLane: Lane) {
 	wip.memoizedState = memoizedState;
 	console.log('updateHostRoot');
 
+	// 向下提供本次 render 使用的 Cache，刷新后通知读取过缓存的组件
+	const root = wip.stateNode as FiberRootNode;
+	const nextCache = getCacheForRender(root, renderLane);
+	pushProvider(wip, CacheContext, nextCache);
+	if (nextCache !== root.cache) {
+		propagateContextChange(wip, CacheContext, renderLane);
+	}
+
 	const current = wip.alternate;
 	// 考虑RootDidNotComplete的情况，需要复用memoizedState
 	if (current !== null) {
@@ -442,6 +709,61 @@ function updateOffscreenComponent(workInProgress: FiberNode) {
 	return workInProgress.child;
 }
 
+/**
+ * @function updateErrorBoundary
+ * @description 处理 `<ErrorBoundary>` 的 `beginWork` 逻辑。
+ *              1. 首次渲染时创建 updateQueue，并把 `reset` 绑定到 `queue.dispatch` 上。
+ *              2. 处理 updateQueue 得到新的 state：
+ *                 - `throwException` / `captureCommitPhaseError` 加入的 update 带有捕获到的错误；
+ *                 - `reset` 加入的 update 把 state 重置为 `null`。
+ *                 新捕获到错误时打上 Callback 标记，在 layout 阶段调用 `onError`。
+ *              3. state 为 `null` 时渲染 children，否则渲染 `fallback`，
+ *                 `fallback` 是函数时以 `(error, reset)` 调用。
+ *
+ * @param {FiberNode} wip - 当前正在处理的 ErrorBoundaryComponent 类型的 work-in-progress Fiber 节点。
+ * @param {Lane} renderLane - 当前渲染工作的优先级 Lane。
+ * @returns {FiberNode | null} 返回 children 或 fallback 对应的第一个子 Fiber 节点。
+ */
+function updateErrorBoundary(wip: FiberNode, renderLane: Lane) {
+	let updateQueue = wip.updateQueue as ErrorBoundaryUpdateQueue | null;
+	if (updateQueue === null) {
+		updateQueue = createUpdateQueue<ErrorBoundaryState | null>();
+		updateQueue.dispatch = resetErrorBoundary.bind(null, wip, updateQueue);
+		wip.updateQueue = updateQueue;
+		wip.memoizedState = null;
+	}
+
+	const prevState = wip.memoizedState as ErrorBoundaryState | null;
+	const pending = updateQueue.shared.pending;
+	updateQueue.shared.pending = null;
+	const { memoizedState, baseQueue } = processUpdateQueue(
+		prevState,
+		pending,
+		renderLane,
+		(update) => {
+			wip.lanes = mergeLanes(wip.lanes, update.lane);
+		}
+	);
+	// 优先级不够的 update 放回队列，留给之后的渲染处理
+	updateQueue.shared.pending = baseQueue;
+	wip.memoizedState = memoizedState;
+
+	if (memoizedState !== null && memoizedState !== prevState) {
+		wip.flags |= Callback;
+	}
+
+	const { children, fallback } = wip.pendingProps;
+	let nextChildren = children;
+	if (memoizedState !== null) {
+		nextChildren =
+			typeof fallback === 'function'
+				? fallback(memoizedState.error, updateQueue.dispatch)
+				: fallback;
+	}
+	reconcileChildren(wip, nextChildren);
+	return wip.child;
+}
+
 /**
  * @function updateSuspenseComponent
  * @description 处理 SuspenseComponent 类型的 Fiber 节点的更新逻辑。
@@ -532,7 +854,6 @@ function mountSuspensePrimaryChildren(
  *              同时挂载主内容 (primaryChildren) 和后备内容 (fallbackChildren)。
  *              主内容会被包裹在一个 mode 为 'hidden' 的 OffscreenComponent 中，
  *              而后备内容则正常挂载。
- *              后备内容 Fiber 节点会被标记为 `Placement`，因为它需要被插入到 DOM 中。
  *
  * @param {FiberNode} workInProgress - 当前正在处理的 SuspenseComponent 类型的 work-in-progress Fiber 节点。
  * @param {any} primaryChildren - Suspense 组件的主内容 (React 元素)。
@@ -550,11 +871,10 @@ function mountSuspenseFallbackChildren(
 		children: primaryChildren
 	};
 	const primaryChildFragment = createFiberFromOffscreen(primaryChildProps);
+	// Suspense 自身 (或它的祖先) 会被整体插入，fallback 不需要单独标记 Placement，
+	// 否则首次挂载时 fallback 会被插入两次
 	const fallbackChildFragment = createFiberFromFragment(fallbackChildren, null);
 
-	// 父组件Suspense已经mount，所以需要fallback标记Placement
-	fallbackChildFragment.flags |= Placement;
-
 	// 树的结构 Suspense -> Offscreen -> Fragment
 	primaryChildFragment.return = workInProgress;
 	fallbackChildFragment.return = workInProgress;
@@ -1,16 +1,21 @@
 /**
  * 负责处理一个父 Fiber 节点的子节点的协调（reconciliation）工作
  */
-import { REACT_ELEMENT_TYPE, REACT_FRAGMENT_TYPE } from 'shared/ReactSymbols';
-import { Key, Props, ReactElementType } from 'shared/ReactTypes';
+import {
+	REACT_ELEMENT_TYPE,
+	REACT_FRAGMENT_TYPE,
+	REACT_PORTAL_TYPE
+} from 'shared/ReactSymbols';
+import { Key, Props, ReactElementType, ReactPortal } from 'shared/ReactTypes';
 import {
 	createFiberFromElement,
 	createFiberFromFragment,
+	createFiberFromPortal,
 	createWorkInProgress,
 	FiberNode
 } from './fiber';
-import { ChildDeletion, Placement } from './fiberFlags';
-import { HostText, Fragment } from './workTags';
+import { ChildDeletion, Forked, Placement } from './fiberFlags';
+import { HostText, Fragment, HostPortal } from './workTags';
 
 type ExistingChildren = Map<string | number, FiberNode>;
 
@@ -94,7 +99,7 @@ function ChildReconciler(shouldTrackEffects: boolean) {
 			if (currentFiber.key === key) {
 				// key相同
 				if (element.$$typeof === REACT_ELEMENT_TYPE) {
-					if (currentFiber.type === element.type) {
+					if (currentFiber.elementType === element.type) {
 						let props = element.props;
 
 						// fragment 的 props 与其他不同
@@ -104,6 +109,8 @@ function ChildReconciler(shouldTrackEffects: boolean) {
 
 						// type相同
 						const existing = useFiber(currentFiber, props);
+						// ref 可能发生变化，以新的 element 为准
+						existing.ref = element.ref;
 						existing.return = returnFiber;
 
 						// 当前节点可复用，标记剩下的节点删除
@@ -146,6 +153,44 @@ function ChildReconciler(shouldTrackEffects: boolean) {
 		return fiber;
 	}
 
+	/**
+	 * @description newChild 是单个 portal 的情况，只有 key 和容器都相同时才复用旧的 HostPortal fiber
+	 * @param returnFiber wip的父节点
+	 * @param currentFiber 父节点在上一次渲染时的第一个子 Fiber 节点
+	 * @param portal `createPortal()` 返回的对象
+	 * @returns
+	 */
+	function reconcileSinglePortal(
+		returnFiber: FiberNode,
+		currentFiber: FiberNode | null,
+		portal: ReactPortal
+	) {
+		const key = portal.key;
+
+		while (currentFiber !== null) {
+			if (currentFiber.key === key) {
+				if (
+					currentFiber.tag === HostPortal &&
+					currentFiber.stateNode.containerInfo === portal.containerInfo
+				) {
+					const existing = useFiber(currentFiber, portal.children || []);
+					existing.return = returnFiber;
+					deleteRemainingChildren(returnFiber, currentFiber.sibling);
+					return existing;
+				}
+				// key相同，容器不同 删掉所有旧的（含 currentFiber ）
+				deleteRemainingChildren(returnFiber, currentFiber);
+				break;
+			}
+			deleteChild(returnFiber, currentFiber);
+			currentFiber = currentFiber.sibling;
+		}
+
+		const fiber = createFiberFromPortal(portal);
+		fiber.return = returnFiber;
+		return fiber;
+	}
+
 	/**
 	 * @description 专门用于处理文本内容（例如 <div>你好</div> 中的 "你好"）。
 	 * @param returnFiber 使用 reconcileChildFibers 作用域的 returnFiber， wip的父节点
@@ -234,6 +279,8 @@ function ChildReconciler(shouldTrackEffects: boolean) {
 			// 3. 标记移动还是插入
 			newFiber.index = i;
 			newFiber.return = returnFiber;
+			// 数组中的子节点形成分叉，useId 需要根据 index 区分它们
+			newFiber.flags |= Forked;
 
 			if (lastNewFiber === null) {
 				lastNewFiber = newFiber;
@@ -326,12 +373,24 @@ function ChildReconciler(shouldTrackEffects: boolean) {
 						);
 					}
 					if (before) {
-						if (before.type === element.type) {
+						if (before.elementType === element.type) {
 							existingChildren.delete(keyToUse);
-							return useFiber(before, element.props);
+							const existing = useFiber(before, element.props);
+							existing.ref = element.ref;
+							return existing;
 						}
 					}
 					return createFiberFromElement(element);
+				case REACT_PORTAL_TYPE:
+					if (
+						before &&
+						before.tag === HostPortal &&
+						before.stateNode.containerInfo === element.containerInfo
+					) {
+						existingChildren.delete(keyToUse);
+						return useFiber(before, element.children || []);
+					}
+					return createFiberFromPortal(element);
 			}
 
 			// TODO 数组类型
@@ -383,6 +442,10 @@ function ChildReconciler(shouldTrackEffects: boolean) {
 					return placeSingleChild(
 						reconcileSingleElement(returnFiber, currentFiber, newChild)
 					);
+				case REACT_PORTAL_TYPE:
+					return placeSingleChild(
+						reconcileSinglePortal(returnFiber, currentFiber, newChild)
+					);
 				default:
 					if (__DEV__) {
 						console.warn('未实现的reconcile类型', newChild);
@@ -483,9 +546,11 @@ export function cloneChildFibers(wip: FiberNode) {
 	while (currentChild.sibling !== null) {
 		currentChild = currentChild.sibling;
 		newChild = newChild.sibling = createWorkInProgress(
-			newChild,
-			newChild.pendingProps
+			currentChild,
+			currentChild.pendingProps
 		);
 		newChild.return = wip;
 	}
+	// 复用的 alternate 上可能残留着旧的 sibling (例如 Suspense 已经删除的 fallback)
+	newChild.sibling = null;
 }
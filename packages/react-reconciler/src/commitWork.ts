@@ -10,10 +10,19 @@ import {
 	unhideInstance,
 	unhideTextInstance
 } from 'hostConfig';
-import { FiberNode, FiberRootNode, PendingPassiveEffects } from './fiber';
 import {
+	FiberNode,
+	FiberRootNode,
+	PendingPassiveEffects,
+	PortalStateNode
+} from './fiber';
+import {
+	BeforeMutationMask,
+	Callback,
 	ChildDeletion,
 	Flags,
+	InsertionEffect,
+	LayoutEffect,
 	LayoutMask,
 	MutationMask,
 	NoFlags,
@@ -22,23 +31,46 @@ import {
 	Placement,
 	Update,
 	Ref,
+	Snapshot,
 	Visibility
 } from './fiberFlags';
 import {
+	ClassComponent,
+	ErrorBoundaryComponent,
+	ForwardRef,
 	FunctionComponent,
 	HostComponent,
+	HostPortal,
 	HostRoot,
 	HostText,
+	MemoComponent,
 	OffscreenComponent,
-	SuspenseComponent
+	SuspenseComponent,
+	WorkTag
 } from './workTags';
 import { Effect, FCUpdateQueue } from './fiberHooks';
-import { HookHasEffect } from './hookEffectTags';
+import { HookHasEffect, Insertion, Layout } from './hookEffectTags';
+import { ClassUpdateQueue } from './fiberClassComponent';
+import { ErrorBoundaryState } from './fiberErrorBoundary';
+import { captureCommitPhaseError } from './fiberThrow';
 
 let nextEffect: FiberNode | null = null;
 
+/**
+ * @function isFunctionComponentLike
+ * @description 判断一个 Fiber 节点是否会执行 Hooks，即是否可能持有 Effect 链表。
+ *              包括函数组件、`forwardRef` 组件以及 `memo` 组件。
+ * @param {WorkTag} tag - Fiber 节点的类型。
+ * @returns {boolean}
+ */
+function isFunctionComponentLike(tag: WorkTag) {
+	return (
+		tag === FunctionComponent || tag === ForwardRef || tag === MemoComponent
+	);
+}
+
 export const commitEffects = (
-	phrase: 'mutation' | 'layout',
+	phrase: 'beforeMutation' | 'mutation' | 'layout',
 	mask: Flags,
 	callback: (fiber: FiberNode, root: FiberRootNode) => void
 ) => {
@@ -54,7 +86,11 @@ export const commitEffects = (
 			} else {
 				// 向上遍历
 				up: while (nextEffect !== null) {
-					callback(nextEffect, root);
+					try {
+						callback(nextEffect, root);
+					} catch (error) {
+						captureCommitPhaseError(nextEffect, error);
+					}
 					const sibling: FiberNode | null = nextEffect.sibling;
 
 					if (sibling !== null) {
@@ -68,12 +104,52 @@ export const commitEffects = (
 	};
 };
 
+/**
+ * @function commitBeforeMutationEffectsOnFiber
+ * @description 在 DOM 变更之前执行类组件的 `getSnapshotBeforeUpdate`，
+ *              返回值保存在实例上，之后作为 `componentDidUpdate` 的第三个参数。
+ * @param {FiberNode} finishedWork - 当前正在处理的、已经完成工作的 Fiber 节点。
+ */
+const commitBeforeMutationEffectsOnFiber = (finishedWork: FiberNode) => {
+	const { flags, tag } = finishedWork;
+	const current = finishedWork.alternate;
+
+	if (
+		(flags & Snapshot) !== NoFlags &&
+		tag === ClassComponent &&
+		current !== null
+	) {
+		const instance = finishedWork.stateNode;
+		const snapshot = instance.getSnapshotBeforeUpdate(
+			current.memoizedProps,
+			current.memoizedState
+		);
+		if (__DEV__ && snapshot === undefined) {
+			console.error(
+				`${finishedWork.type.name}.getSnapshotBeforeUpdate() 应该返回快照或者 null，而不是 undefined`
+			);
+		}
+		instance.__reactInternalSnapshotBeforeUpdate = snapshot;
+	}
+	finishedWork.flags &= ~Snapshot;
+};
+
 const commitMutationEffectsOnFiber = (
 	finishedWork: FiberNode,
 	root: FiberRootNode
 ) => {
 	const { flags, tag } = finishedWork;
 
+	// useInsertionEffect 在当前 fiber 的 DOM 操作之前执行
+	if ((flags & InsertionEffect) !== NoFlags && isFunctionComponentLike(tag)) {
+		const lastEffect = getLastEffect(finishedWork);
+		if (lastEffect !== null) {
+			commitHookEffectListDestroy(Insertion | HookHasEffect, lastEffect);
+			commitHookEffectListCreate(Insertion | HookHasEffect, lastEffect);
+		}
+		finishedWork.flags &= ~InsertionEffect;
+	}
+
 	// 检查是否包含 Placement (放置/插入) 标记
 	if ((flags & Placement) !== NoFlags) {
 		commitPlacement(finishedWork);
@@ -82,9 +158,14 @@ const commitMutationEffectsOnFiber = (
 		finishedWork.flags &= ~Placement;
 	}
 
-	// 检查是否包含 Update (更新) 标记
-	if ((flags & Update) !== NoFlags) {
-		commitUpdate(finishedWork);
+	// 检查是否包含 Update (更新) 标记，类组件的 Update 留到 layout 阶段处理
+	if ((flags & Update) !== NoFlags && tag !== ClassComponent) {
+		if (isFunctionComponentLike(tag)) {
+			// 函数组件的 Update 来自 useEffectEvent，替换为最新的回调
+			commitEffectEventUpdates(finishedWork);
+		} else {
+			commitUpdate(finishedWork);
+		}
 		// 移除 Update 标记。
 		finishedWork.flags &= ~Update;
 	}
@@ -108,7 +189,18 @@ const commitMutationEffectsOnFiber = (
 		// 移除 PassiveEffect 标记
 		finishedWork.flags &= ~PassiveEffect;
 	}
-	if ((flags & Ref) !== NoFlags && tag === HostComponent) {
+
+	// useLayoutEffect 的 destroy 在 mutation 阶段执行，create 留到 layout 阶段
+	if ((flags & LayoutEffect) !== NoFlags && isFunctionComponentLike(tag)) {
+		const lastEffect = getLastEffect(finishedWork);
+		if (lastEffect !== null) {
+			commitHookEffectListDestroy(Layout | HookHasEffect, lastEffect);
+		}
+	}
+	if (
+		(flags & Ref) !== NoFlags &&
+		(tag === HostComponent || tag === ClassComponent)
+	) {
 		safelyDetachRef(finishedWork);
 	}
 	if ((flags & Visibility) !== NoFlags && tag === OffscreenComponent) {
@@ -118,6 +210,23 @@ const commitMutationEffectsOnFiber = (
 	}
 };
 
+/**
+ * @function commitEffectEventUpdates
+ * @description 将本次 render 中 useEffectEvent 收到的回调赋值给对应的 ref。
+ *              发生在 mutation 子阶段，早于 layout effect 和 `flushPassiveEffects`。
+ * @param finishedWork 调用了 useEffectEvent 的函数组件 fiber
+ */
+function commitEffectEventUpdates(finishedWork: FiberNode) {
+	const updateQueue = finishedWork.updateQueue as FCUpdateQueue<any> | null;
+	const events = updateQueue !== null ? updateQueue.events : null;
+	if (events !== null) {
+		for (let i = 0; i < events.length; i++) {
+			const { ref, nextImpl } = events[i];
+			ref.impl = nextImpl;
+		}
+	}
+}
+
 /**
  * @description 遍历指定 Fiber 节点 (`finishedWork`) 的子树，
  *              寻找并处理所有 "宿主子树的根节点"。
@@ -234,15 +343,20 @@ function safelyDetachRef(current: FiberNode) {
 /**
  * @function commitLayoutEffectsOnFiber
  * @description 针对单个 Fiber 节点执行其 "layout" 阶段的副作用。
- *              目前，这主要包括处理 ref 的附加。
+ *              目前，这包括处理 ref 的附加、执行 `useLayoutEffect` 的 create 以及类组件的生命周期。
  *              它会检查 Fiber 节点的 `flags` 属性：
- *              - 如果包含 `Ref` 标记并且 Fiber 节点是 `HostComponent` 类型，
- *                则调用 `safelyAttachRef` 来将 ref 附加到 DOM 实例上。
- *              处理完 `Ref` 副作用后，会从 `flags` 中移除该标记。
+ *              - 如果包含 `LayoutEffect` 标记并且 Fiber 节点是 `FunctionComponent` 类型，
+ *                则执行所有带有 `Layout | HookHasEffect` 标记的 Effect 的创建函数。
+ *              - 如果 Fiber 节点是 `ClassComponent` 类型，则根据 `Update` 标记执行
+ *                `componentDidMount` / `componentDidUpdate`，根据 `Callback` 标记执行 `setState` 的回调。
+ *              - 如果 Fiber 节点是 `ErrorBoundaryComponent` 类型且包含 `Callback` 标记，
+ *                则以捕获到的错误调用 `onError` 与 `root.onCaughtError`。
+ *              - 如果包含 `Ref` 标记并且 Fiber 节点是 `HostComponent` 或 `ClassComponent` 类型，
+ *                则调用 `safelyAttachRef` 来将 ref 附加到 DOM 实例或组件实例上。
+ *              处理完副作用后，会从 `flags` 中移除对应的标记。
  *
  * @param {FiberNode} finishedWork - 当前正在处理的、已经完成工作的 Fiber 节点。
- * @param {FiberRootNode} root - (未使用) FiberRootNode 实例，代表整个应用的根。
- *                               虽然传入了此参数，但在当前实现中并未直接使用。
+ * @param {FiberRootNode} root - FiberRootNode 实例，代表整个应用的根。
  */
 const commitLayoutEffectsOnFiber = (
 	finishedWork: FiberNode,
@@ -250,13 +364,74 @@ const commitLayoutEffectsOnFiber = (
 ) => {
 	const { flags, tag } = finishedWork;
 
-	if ((flags & Ref) !== NoFlags && tag === HostComponent) {
+	if ((flags & LayoutEffect) !== NoFlags && isFunctionComponentLike(tag)) {
+		const lastEffect = getLastEffect(finishedWork);
+		if (lastEffect !== null) {
+			commitHookEffectListCreate(Layout | HookHasEffect, lastEffect);
+		}
+		finishedWork.flags &= ~LayoutEffect;
+	}
+
+	if (tag === ClassComponent) {
+		commitClassLayoutLifecycles(finishedWork, flags);
+	}
+
+	if ((flags & Callback) !== NoFlags && tag === ErrorBoundaryComponent) {
+		// 新捕获到错误，通知 onError 与 root 的 onCaughtError
+		const { error } = finishedWork.memoizedState as ErrorBoundaryState;
+		const { onError } = finishedWork.memoizedProps;
+		if (typeof onError === 'function') {
+			onError(error);
+		}
+		root.onCaughtError(error);
+		finishedWork.flags &= ~Callback;
+	}
+
+	if (
+		(flags & Ref) !== NoFlags &&
+		(tag === HostComponent || tag === ClassComponent)
+	) {
 		// 绑定新的ref
 		safelyAttachRef(finishedWork);
 		finishedWork.flags &= ~Ref;
 	}
 };
 
+/**
+ * @function commitClassLayoutLifecycles
+ * @description 执行类组件在 layout 阶段的生命周期与 `setState` 回调。
+ *              首次挂载调用 `componentDidMount`，更新调用 `componentDidUpdate(prevProps, prevState, snapshot)`。
+ * @param {FiberNode} finishedWork - 类组件对应的 Fiber 节点。
+ * @param {Flags} flags - 进入 layout 阶段时 Fiber 节点上的 flags。
+ */
+function commitClassLayoutLifecycles(finishedWork: FiberNode, flags: Flags) {
+	const instance = finishedWork.stateNode;
+	const current = finishedWork.alternate;
+
+	if ((flags & Update) !== NoFlags) {
+		if (current === null) {
+			instance.componentDidMount();
+		} else {
+			instance.componentDidUpdate(
+				current.memoizedProps,
+				current.memoizedState,
+				instance.__reactInternalSnapshotBeforeUpdate
+			);
+		}
+		finishedWork.flags &= ~Update;
+	}
+
+	if ((flags & Callback) !== NoFlags) {
+		const updateQueue = finishedWork.updateQueue as ClassUpdateQueue<any>;
+		const callbacks = updateQueue.callbacks;
+		updateQueue.callbacks = null;
+		if (callbacks !== null) {
+			callbacks.forEach((callback) => callback.call(instance));
+		}
+		finishedWork.flags &= ~Callback;
+	}
+}
+
 /**
  * @function safelyAttachRef
  * @description 安全地将 ref 附加到 Fiber 节点的 DOM 实例上。
@@ -281,6 +456,12 @@ function safelyAttachRef(fiber: FiberNode) {
 	}
 }
 
+export const commitBeforeMutationEffects = commitEffects(
+	'beforeMutation',
+	BeforeMutationMask,
+	commitBeforeMutationEffectsOnFiber
+);
+
 export const commitMutationEffects = commitEffects(
 	'mutation',
 	MutationMask | PassiveMask,
@@ -317,18 +498,34 @@ function commitPassiveEffect(
 ) {
 	// update unmount
 	if (
-		fiber.tag !== FunctionComponent ||
+		!isFunctionComponentLike(fiber.tag) ||
 		(type === 'update' && (fiber.flags & PassiveEffect) === NoFlags)
 	) {
 		return;
 	}
-	const updateQueue = fiber.updateQueue as FCUpdateQueue<any>;
-	if (updateQueue !== null) {
-		if (updateQueue.lastEffect === null && __DEV__) {
+	// updateQueue 上可能只有 stores / events / memoCache，没有 effect
+	const lastEffect = getLastEffect(fiber);
+	if (lastEffect === null) {
+		if (type === 'update' && __DEV__) {
 			console.error('当FC存在PassiveEffect flag时，不应该不存在effect');
 		}
-		root.pendingPassiveEffects[type].push(updateQueue.lastEffect as Effect);
+		return;
+	}
+	root.pendingPassiveEffects[type].push({ fiber, lastEffect });
+}
+
+/**
+ * @function getLastEffect
+ * @description 获取函数组件 Fiber 节点上 Effect 循环链表的最后一个 Effect。
+ * @param {FiberNode} fiber - 函数组件对应的 Fiber 节点。
+ * @returns {Effect | null} 最后一个 Effect，不存在时返回 `null`。
+ */
+function getLastEffect(fiber: FiberNode): Effect | null {
+	const updateQueue = fiber.updateQueue as FCUpdateQueue<any> | null;
+	if (updateQueue === null) {
+		return null;
 	}
+	return updateQueue.lastEffect;
 }
 
 /**
@@ -455,6 +652,19 @@ function recordHostChildrenToDelete(
 	// 2. 每找到一个 host节点，判断下这个节点是不是 1 找到那个节点的兄弟节点
 }
 
+/**
+ * @function safelyCallOnUnmount
+ * @description 执行删除子树时的用户代码 (ref 解绑、`componentWillUnmount`、effect 的 destroy)。
+ *              抛出的错误交给 `captureCommitPhaseError`，不中断其余节点的卸载和宿主节点的移除。
+ */
+function safelyCallOnUnmount(unmountFiber: FiberNode, callback: () => void) {
+	try {
+		callback();
+	} catch (error) {
+		captureCommitPhaseError(unmountFiber, error);
+	}
+}
+
 /**
  * @description 这个函数负责完整地卸载一个 Fiber 节点 (childToDelete) 及其整个子树
  * * 执行清理逻辑
@@ -471,15 +681,55 @@ function commitDeletion(childToDelete: FiberNode, root: FiberRootNode) {
 			case HostComponent: // 如果是宿主组件 (如 <div>)
 				recordHostChildrenToDelete(rootChildrenToDelete, unmountFiber);
 				// 解绑ref
-				safelyDetachRef(unmountFiber);
+				safelyCallOnUnmount(unmountFiber, () => safelyDetachRef(unmountFiber));
 				return;
 			case HostText: // 如果是宿主文本节点
 				recordHostChildrenToDelete(rootChildrenToDelete, unmountFiber);
 				return;
-			case FunctionComponent: // 如果是函数组件
+			case ClassComponent: {
+				safelyCallOnUnmount(unmountFiber, () => safelyDetachRef(unmountFiber));
+				const instance = unmountFiber.stateNode;
+				if (typeof instance.componentWillUnmount === 'function') {
+					safelyCallOnUnmount(unmountFiber, () =>
+						instance.componentWillUnmount()
+					);
+				}
+				return;
+			}
+			case ErrorBoundaryComponent:
+				return;
+			case HostPortal: {
+				// portal 的子节点挂载在单独的容器中，逐个卸载并从该容器中移除，
+				// 然后断开 child，避免外层继续遍历时把它们当作当前宿主父节点的子节点
+				let child = unmountFiber.child;
+				while (child !== null) {
+					const nextChild: FiberNode | null = child.sibling;
+					child.return = unmountFiber;
+					commitDeletion(child, root);
+					child = nextChild;
+				}
+				unmountFiber.child = null;
+				return;
+			}
+			case ForwardRef:
+			case MemoComponent:
+			case FunctionComponent: {
+				// 如果是函数组件
 				// TODO 解绑ref
+				// useInsertionEffect、useLayoutEffect 的 destroy 同步执行
+				const lastEffect = getLastEffect(unmountFiber);
+				if (lastEffect !== null) {
+					safelyCallOnUnmount(unmountFiber, () =>
+						commitHookEffectListDestroy(Insertion, lastEffect)
+					);
+					safelyCallOnUnmount(unmountFiber, () =>
+						commitHookEffectListDestroy(Layout, lastEffect)
+					);
+				}
+				// useEffect 的 destroy 收集起来异步执行
 				commitPassiveEffect(unmountFiber, root, 'unmount');
 				return;
+			}
 			default:
 				if (__DEV__) {
 					console.warn('未处理的unmount类型', unmountFiber);
@@ -611,7 +861,8 @@ function getHostSibling(fiber: FiberNode) {
 			if (
 				parent === null ||
 				parent.tag === HostComponent ||
-				parent.tag === HostRoot
+				parent.tag === HostRoot ||
+				parent.tag === HostPortal
 			) {
 				return null;
 			}
@@ -631,7 +882,8 @@ function getHostSibling(fiber: FiberNode) {
 				// 不稳定，继续找
 				continue findSibling;
 			}
-			if (node.child === null) {
+			// portal 的子节点不在同一个宿主父节点中，不能作为参照物
+			if (node.child === null || node.tag === HostPortal) {
 				continue findSibling;
 			} else {
 				node.child.return = node;
@@ -670,6 +922,10 @@ function getHostParent(fiber: FiberNode): Container | null {
 		if (parentTag === HostRoot) {
 			return (parent.stateNode as FiberRootNode).container;
 		}
+		// HostPortal 的子节点挂载在 portal 指定的容器中
+		if (parentTag === HostPortal) {
+			return (parent.stateNode as PortalStateNode).containerInfo;
+		}
 		parent = parent.return;
 	}
 	if (__DEV__) {
@@ -716,6 +972,11 @@ function insertOrAppendPlacementNodeIntoContainer(
 		return;
 	}
 
+	// portal 的子节点由它们各自的 Placement 插入到 portal 的容器中
+	if (finishedWork.tag === HostPortal) {
+		return;
+	}
+
 	// 4. 如果 finishedWork 不是直接的宿主节点 (例如，它可能是一个函数组件 FunctionComponent)，
 	//    那么它本身不对应一个 DOM 元素。我们需要找到它渲染出来的实际 DOM 子孙节点。
 	//    获取 finishedWork 的第一个子 Fiber 节点。
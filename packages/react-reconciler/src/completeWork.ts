@@ -5,23 +5,31 @@ import {
 	Container,
 	createInstance,
 	createTextInstance,
-	Instance
+	Instance,
+	preparePortalMount
 } from 'hostConfig';
-import { FiberNode, OffscreenProps } from './fiber';
+import { FiberNode, OffscreenProps, PortalStateNode } from './fiber';
 import { NoFlags, Ref, Update, Visibility } from './fiberFlags';
 import {
 	HostRoot,
 	HostText,
 	HostComponent,
 	FunctionComponent,
+	ClassComponent,
 	Fragment,
 	ContextProvider,
 	OffscreenComponent,
 	SuspenseComponent,
-	MemoComponent
+	MemoComponent,
+	ForwardRef,
+	ErrorBoundaryComponent,
+	HostPortal,
+	ContextConsumer
 } from './workTags';
-import { popProvider } from './fiberContext';
+import { getProviderContext, popProvider } from './fiberContext';
+import { CacheContext } from './fiberCache';
 import { popSuspenseHandler } from './suspenseContext';
+import { popTreeContext } from './fiberTreeContext';
 import { mergeLanes, NoLanes } from './fiberLanes';
 
 function markRef(fiber: FiberNode) {
@@ -67,6 +75,8 @@ export const completeWork = (wip: FiberNode) => {
 	// 获取与当前 wip Fiber 对应的 current Fiber (上一次渲染的 Fiber 节点). 如果 current 为 null，表示这是一个全新的节点 (挂载阶段)
 	const current = wip.alternate;
 
+	popTreeContext(wip);
+
 	switch (wip.tag) {
 		case HostComponent:
 			if (current !== null && wip.stateNode) {
@@ -78,7 +88,7 @@ export const completeWork = (wip: FiberNode) => {
 				}
 			} else {
 				// mount
-				const instance = createInstance(wip.type, newProps);
+				const instance = createInstance(wip.type, newProps, wip);
 
 				appendAllChildren(instance, wip);
 				wip.stateNode = instance;
@@ -105,19 +115,32 @@ export const completeWork = (wip: FiberNode) => {
 			return null;
 
 		case HostRoot:
+			popProvider(CacheContext, wip);
+			bubbleProperties(wip);
+			return null;
+		case HostPortal:
+			if (current === null) {
+				preparePortalMount((wip.stateNode as PortalStateNode).containerInfo);
+			}
+			bubbleProperties(wip);
+			return null;
 		case FunctionComponent:
+		case ClassComponent:
+		case ErrorBoundaryComponent:
 		case Fragment:
 		case OffscreenComponent:
 		case MemoComponent:
+		case ForwardRef:
+		case ContextConsumer:
 			bubbleProperties(wip);
 			return null;
 		case ContextProvider:
-			const context = wip.type._context;
-			popProvider(context);
+			const context = getProviderContext(wip);
+			popProvider(context, wip);
 			bubbleProperties(wip);
 			return null;
 		case SuspenseComponent:
-			popSuspenseHandler();
+			popSuspenseHandler(wip);
 
 			const offscreenFiber = wip.child as FiberNode;
 			const isHidden = offscreenFiber.pendingProps.mode === 'hidden';
@@ -161,6 +184,8 @@ function appendAllChildren(parent: Container | Instance, wip: FiberNode) {
 		if (node.tag === HostComponent || node.tag === HostText) {
 			// 如果是，说明这个 node 对应一个真实的 DOM 元素或文本节点 (存储在 node.stateNode 中)
 			appendInitialChild(parent, node?.stateNode);
+		} else if (node.tag === HostPortal) {
+			// portal 的子节点挂载在它自己的容器中，不向下遍历
 		} else if (node.child !== null) {
 			node.child.return = node;
 			// 将 node 指向其子节点，实现向下遍历。
@@ -1,26 +1,51 @@
-import { Props, Key, Ref, ReactElementType, Wakeable } from 'shared/ReactTypes';
+import {
+	Props,
+	Key,
+	Ref,
+	ReactElementType,
+	ReactPortal,
+	Wakeable
+} from 'shared/ReactTypes';
 import {
 	ContextProvider,
 	Fragment,
 	FunctionComponent,
+	ClassComponent,
 	HostComponent,
 	OffscreenComponent,
 	SuspenseComponent,
 	WorkTag,
-	MemoComponent
+	MemoComponent,
+	ForwardRef,
+	ErrorBoundaryComponent,
+	LazyComponent,
+	HostPortal,
+	ContextConsumer
 } from './workTags';
-import { Flags, NoFlags } from './fiberFlags';
+import { Flags, NoFlags, StaticMask } from './fiberFlags';
 import { Container } from 'hostConfig';
 import { Lane, Lanes, NoLane, NoLanes } from './fiberLanes';
 import { Effect } from './fiberHooks';
 import { CallbackNode } from 'scheduler';
 import {
 	REACT_PROVIDER_TYPE,
+	REACT_CONTEXT_TYPE,
+	REACT_CONSUMER_TYPE,
 	REACT_SUSPENSE_TYPE,
-	REACT_MEMO_TYPE
+	REACT_ERROR_BOUNDARY_TYPE,
+	REACT_MEMO_TYPE,
+	REACT_FORWARD_REF_TYPE,
+	REACT_LAZY_TYPE
 } from 'shared/ReactSymbols';
 
 import { ContextItem } from './fiberContext';
+import { Cache, createCache } from './fiberCache';
+import {
+	defaultOnCaughtError,
+	defaultOnRecoverableError,
+	defaultOnUncaughtError,
+	RootErrorHandler
+} from './fiberErrorLogger';
 
 /**
  * @interface FiberDependencies
@@ -35,7 +60,7 @@ import { ContextItem } from './fiberContext';
  * @property {Lanes} lanes - 一个 Lanes 位掩码，表示与此 Fiber 节点的 Context 依赖相关的更新优先级。
  *                           当依赖的 Context 值发生变化时，会使用这些 Lanes 来调度更新。
  */
-interface FiberDependencies<Value> {
+export interface FiberDependencies<Value> {
 	firstContext: ContextItem<Value> | null;
 	lanes: Lanes;
 }
@@ -52,6 +77,8 @@ interface FiberDependencies<Value> {
  *                        - 对于函数组件，是组件函数本身。
  *                        - 对于宿主组件 (DOM 元素)，是标签名字符串 (如 'div')。
  *                        - 对于 Fragment 等，是特殊的 Symbol。
+ * @property {any} elementType - 创建 Fiber 节点的 React 元素的 `type`，协调子节点时用于判断能否复用。
+ *                               通常与 `type` 相同，`lazy` 组件解析后 `type` 是模块导出的组件，`elementType` 仍然是 lazy 对象。
  * @property {WorkTag} tag - 标识 Fiber 节点具体类型的数字标签 (如 FunctionComponent, HostComponent)。
  * @property {Props} pendingProps - 即将在此次渲染中应用的 props。
  * @property {Key | null} key - React 元素的 key，用于优化列表协调。
@@ -88,6 +115,7 @@ interface FiberDependencies<Value> {
  */
 export class FiberNode {
 	type: any;
+	elementType: any;
 	tag: WorkTag;
 	pendingProps: Props;
 	key: Key;
@@ -117,6 +145,7 @@ export class FiberNode {
 		this.key = key || null;
 		this.stateNode = null;
 		this.type = null;
+		this.elementType = null;
 
 		// 构成树状结构
 		this.return = null;
@@ -151,19 +180,29 @@ export class FiberNode {
  *              被动副作用主要指的是通过 `useEffect` Hook 注册的创建回调和销毁回调。
  *              这些副作用被设计为在浏览器完成所有 DOM 更新和绘制之后异步执行。
  *
- * @property {Effect[]} unmount - 一个数组，用于收集所有在当前提交周期中，
+ * @property {PendingPassiveEffect[]} unmount - 一个数组，用于收集所有在当前提交周期中，
  *                                由于组件卸载或 `useEffect` 依赖项变化
  *                                （导致旧的 effect 需要清理）而需要执行的销毁回调（清理函数）。
- *                                数组中的每个元素通常是 `Effect` 循环链表的最后一个节点。
+ *                                数组中的每个元素记录了 `Effect` 循环链表的最后一个节点及其所属的 fiber。
  *
- * @property {Effect[]} update - 一个数组，用于收集所有在当前提交周期中，
+ * @property {PendingPassiveEffect[]} update - 一个数组，用于收集所有在当前提交周期中，
  *                               由于组件首次挂载或 `useEffect` 依赖项变化
  *                               而需要执行的创建回调。
- *                               数组中的每个元素通常是 `Effect` 循环链表的最后一个节点。
+ *                               数组中的每个元素记录了 `Effect` 循环链表的最后一个节点及其所属的 fiber。
  */
 export interface PendingPassiveEffects {
-	unmount: Effect[];
-	update: Effect[];
+	unmount: PendingPassiveEffect[];
+	update: PendingPassiveEffect[];
+}
+
+/**
+ * @interface PendingPassiveEffect
+ * @description 一个函数组件在本次提交中需要执行的 `useEffect` 回调。
+ *              `fiber` 用于在回调抛出错误时寻找最近的 `<ErrorBoundary>`。
+ */
+export interface PendingPassiveEffect {
+	fiber: FiberNode;
+	lastEffect: Effect;
 }
 
 // FiberRootNode 是 React 应用中所有 Fiber 节点的根，它代表了整个应用的实例
@@ -189,6 +228,12 @@ export interface PendingPassiveEffects {
  * @property {WeakMap<Wakeable<any>, Set<Lane>> | null} pingCache - 一个 WeakMap，用于存储因 Suspense 挂起而关联的 Wakeable (如 Promise)
  *                                                                 与需要被 ping 的 Lanes 集合之间的映射。
  *                                                                 当 Wakeable 完成时，会根据此缓存来重新调度相关 Lanes 的更新。
+ * @property {string} identifierPrefix - `useId` 生成的 id 的前缀，来自 `createRoot` 的 `identifierPrefix` 选项。
+ * @property {Cache} cache - 已提交的渲染缓存，`cache(fn)` 的结果保存在这里。
+ * @property {Cache | null} pendingCache - `useCacheRefresh` 创建的新缓存，在 TransitionLane 提交后替换 `cache`。
+ * @property {RootErrorHandler} onUncaughtError - 没有被边界捕获的错误的回调，来自 `createRoot` 的选项。
+ * @property {RootErrorHandler} onCaughtError - 被 `<ErrorBoundary>` 捕获的错误的回调。
+ * @property {RootErrorHandler} onRecoverableError - 并发渲染出错、同步重试后成功恢复时的回调。
  *
  * @constructor
  * @param {Container} container - 真实的 DOM 容器元素，React 应用将渲染到这个元素内部。
@@ -213,6 +258,16 @@ export class FiberRootNode {
 	// WaekMap{Promise: Set<Lane>}
 	pingCache: WeakMap<Wakeable<any>, Set<Lane>> | null;
 
+	// useId 生成的 id 的前缀，避免同一页面中多个 root 的 id 冲突
+	identifierPrefix: string;
+
+	cache: Cache;
+	pendingCache: Cache | null;
+
+	onUncaughtError: RootErrorHandler;
+	onCaughtError: RootErrorHandler;
+	onRecoverableError: RootErrorHandler;
+
 	constructor(container: Container, hostRootFiber: FiberNode) {
 		this.container = container;
 		this.current = hostRootFiber;
@@ -232,6 +287,14 @@ export class FiberRootNode {
 			update: []
 		};
 		this.pingCache = null;
+		this.identifierPrefix = '';
+
+		this.cache = createCache();
+		this.pendingCache = null;
+
+		this.onUncaughtError = defaultOnUncaughtError;
+		this.onCaughtError = defaultOnCaughtError;
+		this.onRecoverableError = defaultOnRecoverableError;
 	}
 }
 
@@ -249,7 +312,7 @@ export class FiberRootNode {
  *                 并复制 `current` 的基本属性 (tag, key, stateNode, type)。同时建立 `current` 和新 WIP 节点的 `alternate` 链接。
  *              3. 如果 `alternate` 已经存在 (通常发生在更新时)，则直接复用这个现有的 WIP 节点。
  *                 此时，需要更新其 `pendingProps`，并重置其副作用相关的 flags (`flags`, `subtreeFlags`, `deletions`)，
- *                 因为副作用是在 Render 阶段计算并标记的。
+ *                 因为副作用是在 Render 阶段计算并标记的。`StaticMask` 中的 flags 与副作用无关，会从 `current` 保留下来。
  *              4. 无论创建还是复用，都会将 `current` 节点的 `type`, `updateQueue`, `child`, `memoizedProps`,
  *                 `memoizedState`, `ref`, `lanes`, `childLanes`, 和 `dependencies` 复制到 WIP 节点上。
  *                 这些属性代表了从 current 树继承的状态和结构，将在 Render 阶段根据 `pendingProps` 和更新队列进行修改。
@@ -283,7 +346,10 @@ export const createWorkInProgress = (
 	}
 
 	// mount 和 update 情况下都会复制/设置的通用属性：
+	// 静态flags不随render重置
+	wip.flags = current.flags & StaticMask;
 	wip.type = current.type;
+	wip.elementType = current.elementType;
 	wip.updateQueue = current.updateQueue;
 	wip.child = current.child;
 	wip.memoizedProps = current.memoizedProps;
@@ -313,14 +379,19 @@ export const createWorkInProgress = (
  *              2. 根据 `element.type` 的类型来确定新 FiberNode 的 `fiberTag` (WorkTag)：
  *                 - 如果 `type` 是字符串 (如 'div')，则 `fiberTag` 为 `HostComponent`。
  *                 - 如果 `type` 是一个对象，则检查其 `$$typeof` 属性：
- *                   - 如果是 `REACT_PROVIDER_TYPE`，则 `fiberTag` 为 `ContextProvider`。
+ *                   - 如果是 `REACT_PROVIDER_TYPE` 或 `REACT_CONTEXT_TYPE` (直接渲染 context 对象)，则 `fiberTag` 为 `ContextProvider`。
+ *                   - 如果是 `REACT_CONSUMER_TYPE`，则 `fiberTag` 为 `ContextConsumer`。
  *                   - 如果是 `REACT_MEMO_TYPE`，则 `fiberTag` 为 `MemoComponent`。
+ *                   - 如果是 `REACT_FORWARD_REF_TYPE`，则 `fiberTag` 为 `ForwardRef`。
+ *                   - 如果是 `REACT_LAZY_TYPE`，则 `fiberTag` 为 `LazyComponent`。
  *                   - 其他对象类型会触发开发环境下的警告。
  *                 - 如果 `type` 是 `REACT_SUSPENSE_TYPE` (Symbol)，则 `fiberTag` 为 `SuspenseComponent`。
+ *                 - 如果 `type` 是 `REACT_ERROR_BOUNDARY_TYPE` (Symbol)，则 `fiberTag` 为 `ErrorBoundaryComponent`。
+ *                 - 如果 `type` 是继承自 `React.Component` 的类，则 `fiberTag` 为 `ClassComponent`。
  *                 - 如果 `type` 是函数 (默认情况)，则 `fiberTag` 为 `FunctionComponent`。
  *                 - 其他未识别的 `type` 会触发开发环境下的警告。
  *              3. 使用确定的 `fiberTag`、`props` 和 `key` 创建一个新的 `FiberNode` 实例。
- *              4. 将 `element.type` 赋值给 `fiber.type`，并将 `element.ref` 赋值给 `fiber.ref`。
+ *              4. 将 `element.type` 赋值给 `fiber.type` 与 `fiber.elementType`，并将 `element.ref` 赋值给 `fiber.ref`。
  * @param {ReactElementType} element - 用于创建 FiberNode 的 React 元素。
  * @returns {FiberNode} 返回新创建的 FiberNode 实例。
  */
@@ -331,34 +402,102 @@ export function createFiberFromElement(element: ReactElementType): FiberNode {
 	if (typeof type === 'string') {
 		// <div/> type: 'div'
 		fiberTag = HostComponent;
+	} else if (typeof type === 'function' && shouldConstruct(type)) {
+		fiberTag = ClassComponent;
 	} else if (typeof type === 'object') {
 		switch (type.$$typeof) {
 			case REACT_PROVIDER_TYPE:
+			case REACT_CONTEXT_TYPE:
 				fiberTag = ContextProvider;
 				break;
+			case REACT_CONSUMER_TYPE:
+				fiberTag = ContextConsumer;
+				break;
 			case REACT_MEMO_TYPE:
 				fiberTag = MemoComponent;
 				break;
+			case REACT_FORWARD_REF_TYPE:
+				fiberTag = ForwardRef;
+				break;
+			case REACT_LAZY_TYPE:
+				fiberTag = LazyComponent;
+				break;
 			default:
 				console.warn('未定义的type类型', element);
 				break;
 		}
 	} else if (type === REACT_SUSPENSE_TYPE) {
 		fiberTag = SuspenseComponent;
+	} else if (type === REACT_ERROR_BOUNDARY_TYPE) {
+		fiberTag = ErrorBoundaryComponent;
 	} else if (typeof type !== 'function' && __DEV__) {
 		console.warn('为定义的type类型', element);
 	}
 	const fiber = new FiberNode(fiberTag, props, key);
 	fiber.type = type;
+	fiber.elementType = type;
 	fiber.ref = ref;
 	return fiber;
 }
 
+/**
+ * @function resolveLazyComponentTag
+ * @description 根据 `lazy` 模块默认导出的组件确定 fiber 新的 tag。
+ * @param {any} Component - 模块的默认导出。
+ * @returns {WorkTag} `FunctionComponent`、`ClassComponent`、`MemoComponent` 或 `ForwardRef`。
+ */
+export function resolveLazyComponentTag(Component: any): WorkTag {
+	if (typeof Component === 'function') {
+		return shouldConstruct(Component) ? ClassComponent : FunctionComponent;
+	}
+	if (Component !== null && Component !== undefined) {
+		switch (Component.$$typeof) {
+			case REACT_MEMO_TYPE:
+				return MemoComponent;
+			case REACT_FORWARD_REF_TYPE:
+				return ForwardRef;
+		}
+	}
+	throw new Error(`lazy 组件的默认导出不是有效的组件类型: ${Component}`);
+}
+
+/**
+ * @function shouldConstruct
+ * @description 判断组件是否是类组件。`React.Component` 的原型上带有 `isReactComponent` 标记。
+ * @param {Function} Component - 组件类型。
+ * @returns {boolean}
+ */
+function shouldConstruct(Component: any): boolean {
+	const prototype = Component.prototype;
+	return !!(prototype && prototype.isReactComponent);
+}
+
 export function createFiberFromFragment(elements: any[], key: Key): FiberNode {
 	const fiber = new FiberNode(Fragment, elements, key);
 	return fiber;
 }
 
+/**
+ * @description HostPortal fiber 的 stateNode，`containerInfo` 是 portal 子节点的宿主父节点。
+ */
+export interface PortalStateNode {
+	containerInfo: Container;
+}
+
+/**
+ * @function createFiberFromPortal
+ * @description 根据 `createPortal()` 返回的对象创建 HostPortal fiber，pendingProps 就是 portal 的子节点。
+ * @param {ReactPortal} portal
+ * @returns {FiberNode}
+ */
+export function createFiberFromPortal(portal: ReactPortal): FiberNode {
+	const pendingProps = portal.children !== null ? portal.children : [];
+	const fiber = new FiberNode(HostPortal, pendingProps, portal.key);
+	const stateNode: PortalStateNode = { containerInfo: portal.containerInfo };
+	fiber.stateNode = stateNode;
+	return fiber;
+}
+
 export interface OffscreenProps {
 	mode: 'visible' | 'hidden';
 	children: any;
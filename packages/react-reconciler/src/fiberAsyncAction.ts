@@ -0,0 +1,116 @@
+import internals from 'shared/internals';
+import { scheduleMicroTask } from 'hostConfig';
+import { Transition } from 'react/src/currentBatchConfig';
+
+const { currentBatchConfig } = internals;
+
+// 每个 transition 的 async action 全部结束后需要执行的回调
+const settledCallbacks = new Map<Transition, Array<() => void>>();
+
+/**
+ * @function isThenable
+ * @description 判断 `startTransition` 的回调是否返回了 thenable (async action)。
+ */
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+	return (
+		value !== null &&
+		typeof value === 'object' &&
+		typeof (value as PromiseLike<unknown>).then === 'function'
+	);
+}
+
+/**
+ * @function createTransition
+ * @description 为一次 `startTransition` 调用创建标识。
+ */
+export function createTransition(): Transition {
+	return { pendingActionCount: 0 };
+}
+
+/**
+ * @function isAsyncActionPending
+ * @description `transition` 中是否还有进行中的 async action，其他 transition 中的 action 不影响结果。
+ */
+export function isAsyncActionPending(transition: Transition): boolean {
+	return transition.pendingActionCount > 0;
+}
+
+/**
+ * @function runInTransition
+ * @description 重新进入 `transition` 执行 `callback`。
+ *              `currentBatchConfig.transition` 在回调同步执行完后就被恢复了，
+ *              action 结束后的后续更新 (例如重置 `isPending`) 通过它重新归入同一个 transition。
+ */
+export function runInTransition(transition: Transition, callback: () => void) {
+	const prevTransition = currentBatchConfig.transition;
+	currentBatchConfig.transition = transition;
+	try {
+		callback();
+	} finally {
+		currentBatchConfig.transition = prevTransition;
+	}
+}
+
+/**
+ * @function entangleAsyncAction
+ * @description 把 async action 记录到发起它的 `transition` 上，Promise 结束之前 `isAsyncActionPending` 为 `true`。
+ * @param {Transition} transition - 发起 action 的 transition。
+ * @param {PromiseLike<T>} thenable - async action 返回的 Promise。
+ * @returns {PromiseLike<T>} 传入的 thenable。
+ */
+export function entangleAsyncAction<T>(
+	transition: Transition,
+	thenable: PromiseLike<T>
+): PromiseLike<T> {
+	transition.pendingActionCount++;
+	const finish = () => {
+		transition.pendingActionCount--;
+		if (transition.pendingActionCount === 0) {
+			const callbacks = settledCallbacks.get(transition);
+			if (callbacks !== undefined) {
+				settledCallbacks.delete(transition);
+				callbacks.forEach((callback) => callback());
+			}
+		}
+	};
+	thenable.then(finish, finish);
+	return thenable;
+}
+
+/**
+ * @function afterAsyncActionSettles
+ * @description `transition` 中的 async action 全部结束后执行 `callback`，
+ *              `transition` 为 `null` 或没有进行中的 action 时在下一个微任务中执行。
+ * @param {Transition | null} transition - 需要等待的 transition。
+ * @param {() => void} callback - 需要等待 action 结束的回调，例如撤销 `useOptimistic` 的乐观更新。
+ */
+export function afterAsyncActionSettles(
+	transition: Transition | null,
+	callback: () => void
+) {
+	// 在 startTransition 的回调中调用时，回调返回的 Promise 还没有被记录，推迟到微任务中再检查
+	scheduleMicroTask(() => {
+		if (transition === null || !isAsyncActionPending(transition)) {
+			callback();
+			return;
+		}
+		const callbacks = settledCallbacks.get(transition);
+		if (callbacks === undefined) {
+			settledCallbacks.set(transition, [callback]);
+		} else {
+			callbacks.push(callback);
+		}
+	});
+}
+
+/**
+ * @function onStartTransitionFinish
+ * @description 注册到 `currentBatchConfig` 上，顶层 `startTransition` 的回调执行完后调用。
+ */
+function onStartTransitionFinish(transition: Transition, returnValue: unknown) {
+	if (isThenable(returnValue)) {
+		entangleAsyncAction(transition, returnValue);
+	}
+}
+
+internals.currentBatchConfig.onStartTransitionFinish = onStartTransitionFinish;
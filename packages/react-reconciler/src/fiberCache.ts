@@ -0,0 +1,56 @@
+import { REACT_CONTEXT_TYPE } from 'shared/ReactSymbols';
+import { ReactContext } from 'shared/ReactTypes';
+import { FiberRootNode } from './fiber';
+import { Lane, TransitionLane } from './fiberLanes';
+
+/**
+ * @interface Cache
+ * @description root 级别的渲染缓存，`cache(fn)` 的结果都保存在这里。
+ * @property {Map<() => unknown, unknown>} data - 以 resourceType (创建缓存的函数) 为 key 的缓存。
+ */
+export interface Cache {
+	data: Map<() => unknown, unknown>;
+}
+
+/**
+ * @constant CacheContext
+ * @description HostRoot 通过这个内部 context 向下提供本次 render 使用的 Cache。
+ *              读取缓存的组件会依赖它，因此 `useCacheRefresh` 换上新 Cache 后，
+ *              `propagateContextChange` 能找到这些组件并重新渲染。
+ */
+export const CacheContext: ReactContext<Cache | null> = {
+	$$typeof: REACT_CONTEXT_TYPE,
+	Provider: null,
+	Consumer: null,
+	_currentValue: null
+};
+
+export function createCache(): Cache {
+	return {
+		data: new Map()
+	};
+}
+
+/**
+ * @function getCacheForRender
+ * @description 获取 HostRoot 在本次 render 中应该提供的 Cache。
+ *              `useCacheRefresh` 创建的新 Cache 只在 TransitionLane 的 render 中生效，
+ *              在它提交之前，其他优先级的 render 仍然使用旧的 Cache。
+ */
+export function getCacheForRender(root: FiberRootNode, renderLane: Lane) {
+	if (renderLane === TransitionLane && root.pendingCache !== null) {
+		return root.pendingCache;
+	}
+	return root.cache;
+}
+
+/**
+ * @function commitRootCache
+ * @description 提交 TransitionLane 时，把刷新后的 Cache 设置为 root 当前的 Cache。
+ */
+export function commitRootCache(root: FiberRootNode, lane: Lane) {
+	if (lane === TransitionLane && root.pendingCache !== null) {
+		root.cache = root.pendingCache;
+		root.pendingCache = null;
+	}
+}
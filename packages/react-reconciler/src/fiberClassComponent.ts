@@ -0,0 +1,378 @@
+import { Component, Updater } from 'react/src/component';
+import { Props } from 'shared/ReactTypes';
+import { shallowEqual } from 'shared/shallowEquals';
+import { FiberNode } from './fiber';
+import { Callback, Snapshot, Update as UpdateFlag } from './fiberFlags';
+import { Lane, mergeLanes, requestUpdateLane } from './fiberLanes';
+import {
+	createUpdate,
+	createUpdateQueue,
+	enqueueUpdate,
+	processUpdateQueue,
+	Update,
+	UpdateQueue
+} from './updateQueue';
+import { scheduleUpdateOnFiber } from './workLoop';
+
+// 类组件 update 的种类
+const UpdateState = 0;
+const ForceUpdate = 2;
+
+/**
+ * @interface ClassUpdateAction
+ * @description 类组件 Update 对象上的 action。
+ *              与 Hook 不同，类组件的 update 需要区分种类并携带 `setState` 的回调，
+ *              因此把这些信息一起放在 action 中，交给 `processUpdateQueue` 处理。
+ *
+ * @property {typeof UpdateState | typeof ForceUpdate} tag - update 的种类。
+ * @property {any} payload - `setState` 传入的部分状态或者 `(prevState, props) => partialState` 函数。
+ * @property {(() => void) | null} callback - 更新提交后在 layout 阶段执行的回调。
+ */
+interface ClassUpdateAction {
+	tag: typeof UpdateState | typeof ForceUpdate;
+	payload: any;
+	callback: (() => void) | null;
+}
+
+/**
+ * @interface ClassUpdateQueue
+ * @description 类组件 fiber 的 updateQueue。
+ *              Hook 把 baseState / baseQueue 保存在各自的 Hook 上，类组件只有一份 state，保存在队列上。
+ */
+export interface ClassUpdateQueue<State> extends UpdateQueue<State> {
+	baseState: State;
+	baseQueue: Update<State> | null;
+	// 本次 render 处理过的 update 的回调，commit 阶段执行
+	callbacks: Array<() => void> | null;
+}
+
+// 本次处理的 update 中是否包含 forceUpdate
+let hasForceUpdate = false;
+
+function createClassUpdateQueue<State>(baseState: State) {
+	const updateQueue = createUpdateQueue<State>() as ClassUpdateQueue<State>;
+	updateQueue.baseState = baseState;
+	updateQueue.baseQueue = null;
+	updateQueue.callbacks = null;
+	return updateQueue;
+}
+
+/**
+ * @function cloneUpdateQueue
+ * @description current 与 wip 共用同一个 updateQueue 时，为 wip 复制一份，
+ *              避免被打断的 render 修改 current 的 baseState 与 callbacks。
+ *              `shared` 仍然共用，这样 `setState` 产生的 update 对两棵树都可见。
+ */
+function cloneUpdateQueue<State>(current: FiberNode, wip: FiberNode) {
+	const currentQueue = current.updateQueue as ClassUpdateQueue<State>;
+	if (wip.updateQueue === currentQueue) {
+		const queue = createClassUpdateQueue(currentQueue.baseState);
+		queue.shared = currentQueue.shared;
+		queue.baseQueue = currentQueue.baseQueue;
+		wip.updateQueue = queue;
+	}
+}
+
+/**
+ * @constant classComponentUpdater
+ * @description 挂载时注入到类组件实例上的 updater，`setState` / `forceUpdate` 最终会调用这里。
+ */
+const classComponentUpdater: Updater = {
+	enqueueSetState(instance, payload, callback) {
+		enqueueClassUpdate(instance, { tag: UpdateState, payload, callback });
+	},
+	enqueueForceUpdate(instance, callback) {
+		enqueueClassUpdate(instance, { tag: ForceUpdate, payload: null, callback });
+	}
+};
+
+function enqueueClassUpdate(
+	instance: Component<any, any>,
+	action: ClassUpdateAction
+) {
+	const fiber = instance._reactInternals as FiberNode;
+	const lane = requestUpdateLane();
+	const update = createUpdate<any>(action, lane);
+	enqueueUpdate(
+		fiber.updateQueue as ClassUpdateQueue<any>,
+		update,
+		fiber,
+		lane
+	);
+	scheduleUpdateOnFiber(fiber, lane);
+}
+
+/**
+ * @function constructClassInstance
+ * @description 首次渲染时创建类组件实例，并建立实例与 fiber 之间的关联。
+ * @param {FiberNode} wip - 类组件对应的 work-in-progress fiber。
+ * @param {any} ctor - 类组件的构造函数。
+ * @param {Props} props - 本次渲染的 props。
+ * @returns {Component} 创建的组件实例。
+ */
+export function constructClassInstance(
+	wip: FiberNode,
+	ctor: any,
+	props: Props
+): Component<any, any> {
+	const instance = new ctor(props);
+	const state =
+		instance.state !== null && instance.state !== undefined
+			? instance.state
+			: null;
+	wip.memoizedState = state;
+	wip.updateQueue = createClassUpdateQueue(state);
+
+	instance.updater = classComponentUpdater;
+	wip.stateNode = instance;
+	instance._reactInternals = wip;
+	return instance;
+}
+
+/**
+ * @function mountClassInstance
+ * @description 首次渲染时初始化实例的 props 与 state，执行 `getDerivedStateFromProps`，
+ *              并为 `componentDidMount` 打上 Update 标记。
+ */
+export function mountClassInstance(wip: FiberNode, ctor: any, newProps: Props) {
+	const instance = wip.stateNode;
+	instance.props = newProps;
+	instance.state = wip.memoizedState;
+
+	if (typeof ctor.getDerivedStateFromProps === 'function') {
+		instance.state = applyDerivedStateFromProps(wip, ctor, newProps);
+	}
+	if (typeof instance.componentDidMount === 'function') {
+		wip.flags |= UpdateFlag;
+	}
+}
+
+/**
+ * @function updateClassInstance
+ * @description 更新时计算类组件新的 state，并决定本次是否需要重新执行 `render`。
+ *              1. 处理 updateQueue 得到新的 state。
+ *              2. props 与 state 都没有变化 (且没有 forceUpdate) 时直接跳过。
+ *              3. 执行 `getDerivedStateFromProps`。
+ *              4. 通过 `shouldComponentUpdate` 或 `PureComponent` 的浅比较决定是否更新，
+ *                 需要更新时为 `componentDidUpdate`、`getSnapshotBeforeUpdate` 打上标记。
+ *
+ * @returns {boolean} 是否需要重新执行 `render`。
+ */
+export function updateClassInstance(
+	current: FiberNode,
+	wip: FiberNode,
+	ctor: any,
+	newProps: Props,
+	renderLane: Lane
+): boolean {
+	const instance = wip.stateNode;
+	cloneUpdateQueue(current, wip);
+
+	const oldProps = wip.memoizedProps;
+	const oldState = wip.memoizedState;
+	let newState = processClassUpdateQueue(
+		current,
+		wip,
+		instance,
+		newProps,
+		renderLane
+	);
+
+	if (oldProps === newProps && oldState === newState && !hasForceUpdate) {
+		return false;
+	}
+
+	if (typeof ctor.getDerivedStateFromProps === 'function') {
+		newState = applyDerivedStateFromProps(wip, ctor, newProps);
+	}
+
+	const shouldUpdate =
+		hasForceUpdate ||
+		checkShouldComponentUpdate(
+			instance,
+			ctor,
+			oldProps,
+			newProps,
+			oldState,
+			newState
+		);
+
+	if (shouldUpdate) {
+		if (typeof instance.componentDidUpdate === 'function') {
+			wip.flags |= UpdateFlag;
+		}
+		if (typeof instance.getSnapshotBeforeUpdate === 'function') {
+			wip.flags |= Snapshot;
+		}
+	}
+
+	// 即使跳过了 render，实例上的 props 与 state 也要更新为最新的值
+	instance.props = newProps;
+	instance.state = newState;
+	return shouldUpdate;
+}
+
+/**
+ * @function processClassUpdateQueue
+ * @description 把 pending update 合并到 baseQueue 中，并使用 `processUpdateQueue` 计算新的 state。
+ *              合并后的队列同时保存在 current 上，这样 render 被打断时 update 不会丢失。
+ * @returns 计算得到的新 state，同时会写入 `wip.memoizedState`。
+ */
+function processClassUpdateQueue<State>(
+	current: FiberNode,
+	wip: FiberNode,
+	instance: Component<any, State>,
+	props: Props,
+	renderLane: Lane
+): State {
+	const queue = wip.updateQueue as ClassUpdateQueue<State>;
+	const pending = queue.shared.pending;
+	queue.shared.pending = null;
+	hasForceUpdate = false;
+
+	let baseQueue = queue.baseQueue;
+	if (pending !== null) {
+		if (baseQueue !== null) {
+			// baseQueue b2 -> b0 -> b1 -> b2
+			// pendingQueue p2 -> p0 -> p1 -> p2
+			const baseFirst = baseQueue.next;
+			const pendingFirst = pending.next;
+			baseQueue.next = pendingFirst;
+			pending.next = baseFirst;
+			// p2 -> b0 -> b1 -> b2 -> p0 -> p1 -> p2
+		}
+		baseQueue = pending;
+		// 保存在current中
+		(current.updateQueue as ClassUpdateQueue<State>).baseQueue = pending;
+	}
+
+	if (baseQueue === null) {
+		return wip.memoizedState;
+	}
+
+	const {
+		memoizedState,
+		baseState: newBaseState,
+		baseQueue: newBaseQueue
+	} = processUpdateQueue(
+		queue.baseState,
+		baseQueue,
+		renderLane,
+		(update) => {
+			wip.lanes = mergeLanes(wip.lanes, update.lane);
+		},
+		(state: State, action: ClassUpdateAction) =>
+			getStateFromUpdate(wip, queue, action, state, instance, props),
+		// 回调已经在本次 render 中加入 callbacks，重新计算时不再加入
+		(action: ClassUpdateAction): ClassUpdateAction => ({
+			...action,
+			callback: null
+		})
+	);
+	queue.baseState = newBaseState;
+	queue.baseQueue = newBaseQueue;
+	wip.memoizedState = memoizedState;
+	return memoizedState;
+}
+
+/**
+ * @function getStateFromUpdate
+ * @description 类组件的 reducer：把一个 update 应用到 `prevState` 上。
+ *              `setState` 的部分状态会被浅合并，函数形式会以 `(prevState, props)` 调用。
+ */
+function getStateFromUpdate<State>(
+	wip: FiberNode,
+	queue: ClassUpdateQueue<State>,
+	action: ClassUpdateAction,
+	prevState: State,
+	instance: Component<any, State>,
+	props: Props
+): State {
+	const callback = action.callback;
+	if (callback !== null) {
+		wip.flags |= Callback;
+		if (queue.callbacks === null) {
+			queue.callbacks = [callback];
+		} else {
+			queue.callbacks.push(callback);
+		}
+	}
+
+	if (action.tag === ForceUpdate) {
+		hasForceUpdate = true;
+		return prevState;
+	}
+
+	const payload = action.payload;
+	const partialState =
+		typeof payload === 'function'
+			? payload.call(instance, prevState, props)
+			: payload;
+	if (partialState === null || partialState === undefined) {
+		return prevState;
+	}
+	return Object.assign({}, prevState, partialState);
+}
+
+/**
+ * @function applyDerivedStateFromProps
+ * @description 执行静态方法 `getDerivedStateFromProps`，把返回的部分状态合并到 `wip.memoizedState` 上。
+ */
+function applyDerivedStateFromProps(
+	wip: FiberNode,
+	ctor: any,
+	nextProps: Props
+) {
+	const prevState = wip.memoizedState;
+	const partialState = ctor.getDerivedStateFromProps(nextProps, prevState);
+
+	if (__DEV__ && partialState === undefined) {
+		console.error(
+			`${ctor.name}.getDerivedStateFromProps() 应该返回需要合并的 state 或者 null，而不是 undefined`
+		);
+	}
+
+	const memoizedState =
+		partialState === null || partialState === undefined
+			? prevState
+			: Object.assign({}, prevState, partialState);
+	wip.memoizedState = memoizedState;
+
+	// 没有被跳过的 update 时，派生的 state 也作为下一次计算的 baseState
+	const queue = wip.updateQueue as ClassUpdateQueue<any>;
+	if (queue.baseQueue === null) {
+		queue.baseState = memoizedState;
+	}
+	return memoizedState;
+}
+
+/**
+ * @function checkShouldComponentUpdate
+ * @description 优先使用实例的 `shouldComponentUpdate`，
+ *              `PureComponent` 浅比较 props 与 state，其他情况总是更新。
+ */
+function checkShouldComponentUpdate(
+	instance: any,
+	ctor: any,
+	oldProps: Props,
+	newProps: Props,
+	oldState: any,
+	newState: any
+): boolean {
+	if (typeof instance.shouldComponentUpdate === 'function') {
+		const shouldUpdate = instance.shouldComponentUpdate(newProps, newState);
+		if (__DEV__ && shouldUpdate === undefined) {
+			console.error(
+				`${ctor.name}.shouldComponentUpdate() 返回了 undefined，应该返回 true 或 false`
+			);
+		}
+		return !!shouldUpdate;
+	}
+
+	if (ctor.prototype && ctor.prototype.isPureReactComponent) {
+		return (
+			!shallowEqual(oldProps, newProps) || !shallowEqual(oldState, newState)
+		);
+	}
+	return true;
+}
@@ -1,5 +1,7 @@
+import { REACT_CONTEXT_TYPE } from 'shared/ReactSymbols';
 import { ReactContext } from 'shared/ReactTypes';
-import { FiberNode } from './fiber';
+import { FiberDependencies, FiberNode } from './fiber';
+import { DidPropagateContext, NoFlags } from './fiberFlags';
 import {
 	Lane,
 	NoLanes,
@@ -9,29 +11,89 @@ import {
 } from './fiberLanes';
 import { markWipReceivedUpdate } from './beginWork';
 import { ContextProvider } from './workTags';
+import { createCursor, pop, push } from './fiberStack';
 
 let lastContextDep: ContextItem<any> | null = null;
 
+/**
+ * @interface ContextItem
+ * @description fiber 读取 context 时记录的依赖，串成链表保存在 `fiber.dependencies` 上。
+ * @property {ReactContext<Value>} context - 读取的 context。
+ * @property {Value} memoizedState - 读取时 context 的值。
+ * @property {Function | null} selector - `useContextSelector` 传入的 selector，`useContext` 等读取整个值时为 `null`。
+ * @property {unknown} selectedValue - selector 的结果。只有结果变化时才认为该依赖发生了变化。
+ */
 export interface ContextItem<Value> {
 	context: ReactContext<Value>;
 	memoizedState: Value;
+	selector: ((value: Value) => unknown) | null;
+	selectedValue: unknown;
 	next: ContextItem<Value> | null;
 }
 
-let prevContextValue: any = null;
-const prevContextValueStack: any[] = [];
+/**
+ * @function getProviderContext
+ * @description 取出 ContextProvider fiber 提供的 context。
+ *              fiber.type 可能是 `Context.Provider`，也可能是直接渲染的 context 对象本身。
+ */
+export function getProviderContext<T>(
+	providerFiber: FiberNode
+): ReactContext<T> {
+	const type = providerFiber.type;
+	return type.$$typeof === REACT_CONTEXT_TYPE ? type : type._context;
+}
 
-export function pushProvider<T>(context: ReactContext<T>, newValue: T) {
-	prevContextValueStack.push(prevContextValue);
+/**
+ * @function getContextName
+ * @description context 在警告信息和调试工具中显示的名字，优先使用 `displayName`。
+ */
+export function getContextName(context: ReactContext<any>): string {
+	return context.displayName || 'Context';
+}
 
-	prevContextValue = context._currentValue;
-	context._currentValue = newValue;
+/**
+ * @interface ProviderValue
+ * @description 进入 Provider 之前 context 的值，离开 Provider 或丢弃被打断的 render 时恢复。
+ */
+interface ProviderValue<T> {
+	context: ReactContext<T>;
+	value: T;
 }
 
-export function popProvider<T>(context: ReactContext<T>) {
-	context._currentValue = prevContextValue;
+const valueCursor = createCursor<ProviderValue<any> | null>(
+	null,
+	(providerValue) => {
+		const { context, value } = providerValue as ProviderValue<any>;
+		context._currentValue = value;
+	}
+);
 
-	prevContextValue = prevContextValueStack.pop();
+/**
+ * @function pushProvider
+ * @description 进入 Provider 时调用，把 context 的值设置为 `nextValue`，旧值保存在 fiber 栈上。
+ * @param {FiberNode} providerFiber - 提供该值的 fiber (ContextProvider 或 HostRoot)。
+ */
+export function pushProvider<T>(
+	providerFiber: FiberNode,
+	context: ReactContext<T>,
+	nextValue: T
+) {
+	push(valueCursor, { context, value: context._currentValue }, providerFiber);
+	context._currentValue = nextValue;
+}
+
+/**
+ * @function popProvider
+ * @description 离开 Provider 时调用，把 context 的值恢复为进入 Provider 之前的值。
+ * @param {FiberNode} providerFiber - 与 `pushProvider` 时相同的 fiber。
+ */
+export function popProvider<T>(
+	context: ReactContext<T>,
+	providerFiber: FiberNode
+) {
+	const providerValue = valueCursor.current as ProviderValue<T>;
+	pop(valueCursor, providerFiber);
+	context._currentValue = providerValue.value;
 }
 
 export function prepareToReadContext(wip: FiberNode, renderLane: Lane) {
@@ -41,7 +103,11 @@ export function prepareToReadContext(wip: FiberNode, renderLane: Lane) {
 	if (deps !== null) {
 		const firstContext = deps.firstContext;
 		if (firstContext !== null) {
-			if (includeSomeLanes(deps.lanes, renderLane)) {
+			// context 的变化是延迟传播的，没有被调度到的 fiber 也要对比依赖的值
+			if (
+				includeSomeLanes(deps.lanes, renderLane) ||
+				checkIfContextChanged(deps)
+			) {
 				markWipReceivedUpdate();
 			}
 			deps.firstContext = null;
@@ -53,17 +119,49 @@ export function readContext<T>(
 	consumer: FiberNode | null,
 	context: ReactContext<T>
 ): T {
-	if (consumer === null) {
-		throw new Error('只能在函数组件中调用useContext');
-	}
 	const value = context._currentValue;
+	appendContextItem(consumer, {
+		context,
+		memoizedState: value,
+		selector: null,
+		selectedValue: value,
+		next: null
+	});
+	return value;
+}
 
-	// 建立 fiber -> context
-	const contextItem: ContextItem<T> = {
+/**
+ * @function readContextWithSelector
+ * @description `useContextSelector` 的实现：读取 context 的值并返回 `selector` 的结果。
+ *              selector 与结果都记录在依赖上，Provider 的值变化时只有结果变化的 fiber 会被调度。
+ */
+export function readContextWithSelector<T, S>(
+	consumer: FiberNode | null,
+	context: ReactContext<T>,
+	selector: (value: T) => S
+): S {
+	const value = context._currentValue;
+	const selectedValue = selector(value);
+	appendContextItem(consumer, {
 		context,
-		next: null,
-		memoizedState: value
-	};
+		memoizedState: value,
+		selector,
+		selectedValue,
+		next: null
+	});
+	return selectedValue;
+}
+
+/**
+ * @description 建立 fiber -> context 的依赖，追加到 consumer 本次 render 的依赖链表末尾
+ */
+function appendContextItem<T>(
+	consumer: FiberNode | null,
+	contextItem: ContextItem<T>
+) {
+	if (consumer === null) {
+		throw new Error('只能在函数组件中调用useContext');
+	}
 
 	if (lastContextDep === null) {
 		lastContextDep = contextItem;
@@ -74,8 +172,95 @@ export function readContext<T>(
 	} else {
 		lastContextDep = lastContextDep.next = contextItem;
 	}
+}
 
-	return value;
+/**
+ * @function didSelectedValueChange
+ * @description 判断 context 的新值是否影响依赖 `contextItem` 的 fiber。
+ *              值与读取时相同时不受影响；否则没有 selector 时总是受影响，
+ *              有 selector 时对比结果，selector 抛出错误时也视为变化，交给 render 阶段重新执行并抛出。
+ */
+function didSelectedValueChange<T>(
+	contextItem: ContextItem<T>,
+	nextValue: T
+): boolean {
+	if (Object.is(contextItem.memoizedState, nextValue)) {
+		return false;
+	}
+	const selector = contextItem.selector;
+	if (selector === null) {
+		return true;
+	}
+	try {
+		return !Object.is(selector(nextValue), contextItem.selectedValue);
+	} catch {
+		return true;
+	}
+}
+
+/**
+ * @function checkIfContextChanged
+ * @description 对比 fiber 上次 render 读取的 context 与当前的值，判断是否需要重新 render。
+ *              在 `beginWork` 中调用，此时 `context._currentValue` 就是该 fiber 所在位置的值。
+ * @param {FiberDependencies<any>} deps - fiber 上次 render 记录的依赖。
+ * @returns {boolean} 是否有依赖的 context 发生了变化。
+ */
+export function checkIfContextChanged(deps: FiberDependencies<any>): boolean {
+	let contextItem = deps.firstContext;
+	while (contextItem !== null) {
+		if (
+			didSelectedValueChange(contextItem, contextItem.context._currentValue)
+		) {
+			return true;
+		}
+		contextItem = contextItem.next;
+	}
+	return false;
+}
+
+/**
+ * @function lazilyPropagateParentContextChanges
+ * @description Provider 的值变化时不会立即遍历子树，而是在 `bailoutOnAlreadyFinishedWork` 将要跳过
+ *              `wip` 的子树时调用：向上找到本次 render 中值发生变化的 Provider，把变化传播到 `wip` 的子树。
+ *              传播完成后给 `wip` 打上 `DidPropagateContext`，子树中的 fiber 之后向上查找时到此为止，
+ *              因此每个被跳过的子树最多只遍历一次。
+ * @param {FiberNode} wip - 将要跳过子树的 fiber。
+ * @param {Lane} renderLane - 当前渲染的优先级。
+ */
+export function lazilyPropagateParentContextChanges(
+	wip: FiberNode,
+	renderLane: Lane
+) {
+	// 离 wip 最近的 Provider 会遮住外层提供同一个 context 的 Provider
+	const providedContexts: ReactContext<any>[] = [];
+	const changedContexts: ReactContext<any>[] = [];
+
+	let parent = wip.return;
+	while (parent !== null) {
+		if ((parent.flags & DidPropagateContext) !== NoFlags) {
+			break;
+		}
+		if (parent.tag === ContextProvider) {
+			const context = getProviderContext(parent);
+			const current = parent.alternate;
+			if (providedContexts.indexOf(context) === -1) {
+				providedContexts.push(context);
+				if (
+					current !== null &&
+					current.memoizedProps !== null &&
+					!Object.is(current.memoizedProps.value, parent.memoizedProps.value)
+				) {
+					changedContexts.push(context);
+				}
+			}
+		}
+		parent = parent.return;
+	}
+
+	for (let i = 0; i < changedContexts.length; i++) {
+		propagateContextChange(wip, changedContexts[i], renderLane);
+	}
+	wip.flags |= DidPropagateContext;
 }
 
 export function propagateContextChange<T>(
@@ -83,6 +268,7 @@ export function propagateContextChange<T>(
 	context: ReactContext<T>,
 	renderLane: Lane
 ) {
+	const nextValue = context._currentValue;
 	let fiber = wip.child;
 	if (fiber !== null) {
 		fiber.return = wip;
@@ -96,7 +282,10 @@ export function propagateContextChange<T>(
 
 			let contextItem = deps.firstContext;
 			while (contextItem !== null) {
-				if (contextItem.context === context) {
+				if (
+					contextItem.context === context &&
+					didSelectedValueChange(contextItem, nextValue)
+				) {
 					// 找到了
 					fiber.lanes = mergeLanes(fiber.lanes, renderLane);
 					const alternate = fiber.alternate;
@@ -111,7 +300,8 @@ export function propagateContextChange<T>(
 				contextItem = contextItem.next;
 			}
 		} else if (fiber.tag === ContextProvider) {
-			nextFiber = fiber.type === wip.type ? null : fiber.child;
+			// 内层提供同一个 context 的 Provider 会遮住外层的值，不用继续向下
+			nextFiber = getProviderContext(fiber) === context ? null : fiber.child;
 		} else {
 			nextFiber = fiber.child;
 		}
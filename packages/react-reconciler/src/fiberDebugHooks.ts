@@ -0,0 +1,654 @@
+import { Dispatcher } from 'react/src/currentDispatcher';
+import internals from 'shared/internals';
+import {
+	Action,
+	ReactContext,
+	Reducer,
+	Ref,
+	Thenable,
+	Usable
+} from 'shared/ReactTypes';
+import {
+	REACT_CONTEXT_TYPE,
+	REACT_FORWARD_REF_TYPE,
+	REACT_MEMO_CACHE_SENTINEL
+} from 'shared/ReactSymbols';
+import { FiberNode } from './fiber';
+import { ContextItem } from './fiberContext';
+import { Flags } from './fiberFlags';
+import { CacheContext } from './fiberCache';
+import { Effect, FCUpdateQueue, Hook, HookDeps, HookType } from './fiberHooks';
+import { ForwardRef, FunctionComponent, MemoComponent } from './workTags';
+
+const { currentDispatcher } = internals;
+
+/**
+ * @interface HooksNode
+ * @description `inspectHooksOfFiber` 返回的树中的一个节点。
+ * @property {number | null} id - 原生 Hook 在 Hook 链表中的下标；自定义 Hook、Context 等不占用槽位的为 `null`。
+ * @property {string} name - 原生 Hook 为 `State`、`Effect`、`Memo` 等，读取设置了 `displayName` 的 context 时为 `displayName`；自定义 Hook 为去掉 `use` 前缀的函数名。
+ * @property {unknown} value - 当前的值；自定义 Hook 的值来自其中的 `useDebugValue`。
+ * @property {HookDeps} deps - effect / memo 类 Hook 的依赖项，其余为 `null`。
+ * @property {Flags | null} effectTag - effect 类 Hook 上的 Effect.tag (Passive / Layout / Insertion | HookHasEffect)。
+ * @property {HooksNode[]} subHooks - 自定义 Hook 内部调用的 Hook。
+ */
+export interface HooksNode {
+	id: number | null;
+	name: string;
+	value: unknown;
+	deps: HookDeps;
+	effectTag: Flags | null;
+	subHooks: HooksNode[];
+}
+
+/**
+ * @interface HookLogEntry
+ * @description 重新执行组件时记录的一次原生 Hook 调用。
+ * @property {string | null} displayName - 代替 `primitive` 显示的名字，目前只有 context 的 `displayName`。
+ * @property {StackFrame[]} stack - 调用栈，用于推断外层的自定义 Hook。
+ */
+interface HookLogEntry {
+	id: number | null;
+	primitive: string;
+	displayName: string | null;
+	value: unknown;
+	deps: HookDeps;
+	effectTag: Flags | null;
+	stack: StackFrame[];
+}
+
+interface StackFrame {
+	name: string;
+	source: string;
+}
+
+// 重新执行组件期间的状态
+let hookLog: HookLogEntry[] = [];
+let inspectingFiber: FiberNode | null = null;
+let nextHook: Hook | null = null;
+let nextHookId = 0;
+let nextContextItem: ContextItem<any> | null = null;
+let memoCacheIndex = 0;
+
+// 组件读取到尚未就绪的 thenable 时，中止重新执行
+const SuspendedInspection = new Error('inspectHooksOfFiber: 组件挂起');
+
+/**
+ * @function inspectHooksOfFiber
+ * @description 调试工具使用的 Hook 检查 API。
+ *              使用只读的 Dispatcher 重新执行一次组件：每个原生 Hook 按顺序从 `fiber.memoizedState` 链表中读取对应的 Hook，
+ *              记录当前的值、依赖和 effect 标记，并通过调用栈把它们归到外层的自定义 Hook 下。
+ *              重新执行不会创建更新，也不会修改 fiber 上的任何数据。
+ * @param {FiberNode} fiber - 函数组件 (包括 forwardRef / memo) 对应的 fiber。
+ * @returns {HooksNode[]} Hook 树。
+ */
+export function inspectHooksOfFiber(fiber: FiberNode): HooksNode[] {
+	if (
+		fiber.tag !== FunctionComponent &&
+		fiber.tag !== ForwardRef &&
+		fiber.tag !== MemoComponent
+	) {
+		throw new Error('inspectHooksOfFiber只支持函数组件');
+	}
+
+	let type = fiber.tag === MemoComponent ? fiber.type.type : fiber.type;
+	let secondArg = undefined;
+	if (
+		fiber.tag === ForwardRef ||
+		(type !== null && type.$$typeof === REACT_FORWARD_REF_TYPE)
+	) {
+		type = type.render;
+		secondArg = fiber.ref;
+	}
+
+	hookLog = [];
+	inspectingFiber = fiber;
+	nextHook = fiber.memoizedState;
+	nextHookId = 0;
+	nextContextItem =
+		fiber.dependencies !== null ? fiber.dependencies.firstContext : null;
+	memoCacheIndex = 0;
+
+	const prevDispatcher = currentDispatcher.current;
+	currentDispatcher.current = InspectionDispatcher;
+	try {
+		type(fiber.memoizedProps, secondArg);
+	} catch (error) {
+		if (error !== SuspendedInspection) {
+			throw error;
+		}
+	} finally {
+		currentDispatcher.current = prevDispatcher;
+		inspectingFiber = null;
+		nextHook = null;
+		nextContextItem = null;
+	}
+
+	const log = hookLog;
+	hookLog = [];
+	return buildTree(log);
+}
+
+/**
+ * @function readHook
+ * @description 按顺序读取下一个 Hook，并检查类型与记录在 Hook 上的类型是否一致。
+ */
+function readHook(type: HookType): Hook | null {
+	const hook = nextHook;
+	if (hook === null) {
+		return null;
+	}
+	if (__DEV__ && hook.type !== type) {
+		console.error(
+			`inspectHooksOfFiber: Hook类型不一致 ${hook.type} -> ${type}`
+		);
+	}
+	nextHook = hook.next;
+	nextHookId++;
+	return hook;
+}
+
+function readContextForInspection<T>(context: ReactContext<T>): T {
+	let item = nextContextItem;
+	while (item !== null) {
+		if (item.context === context) {
+			nextContextItem = item.next;
+			return item.memoizedState;
+		}
+		item = item.next;
+	}
+	return context._currentValue;
+}
+
+function logHook(
+	primitive: string,
+	id: number | null,
+	value: unknown,
+	deps: HookDeps = null,
+	effectTag: Flags | null = null,
+	displayName: string | null = null
+) {
+	hookLog.push({
+		id,
+		primitive,
+		displayName,
+		value,
+		deps,
+		effectTag,
+		stack: captureStack()
+	});
+}
+
+function noop() {}
+
+function inspectState<S>(initialState: (() => S) | S): [S, Action<S>] {
+	const id = nextHookId;
+	const hook = readHook('State');
+	const state: S =
+		hook !== null
+			? hook.memoizedState
+			: initialState instanceof Function
+				? initialState()
+				: initialState;
+	logHook('State', id, state);
+	return [state, noop as any];
+}
+
+function inspectReducer<S, I, A>(
+	reducer: Reducer<S, A>,
+	initialArg: I,
+	init?: (initialArg: I) => S
+): [S, (action: A) => void] {
+	const id = nextHookId;
+	const hook = readHook('Reducer');
+	let state: S;
+	if (hook !== null) {
+		state = hook.memoizedState;
+	} else {
+		state = init !== undefined ? init(initialArg) : (initialArg as any);
+	}
+	logHook('Reducer', id, state);
+	return [state, noop];
+}
+
+function inspectEffectImpl(
+	type: HookType,
+	create: unknown,
+	deps: HookDeps | undefined
+) {
+	const id = nextHookId;
+	const hook = readHook(type);
+	const effect = hook !== null ? (hook.memoizedState as Effect) : null;
+	logHook(
+		type,
+		id,
+		create,
+		effect !== null ? effect.deps : (deps ?? null),
+		effect !== null ? effect.tag : null
+	);
+}
+
+function inspectEffect(create: () => void, deps: HookDeps | undefined) {
+	inspectEffectImpl('Effect', create, deps);
+}
+
+function inspectLayoutEffect(create: () => void, deps: HookDeps | undefined) {
+	inspectEffectImpl('LayoutEffect', create, deps);
+}
+
+function inspectInsertionEffect(
+	create: () => void,
+	deps: HookDeps | undefined
+) {
+	inspectEffectImpl('InsertionEffect', create, deps);
+}
+
+function inspectImperativeHandle<T>(
+	ref: Ref | null | undefined,
+	create: () => T,
+	deps: HookDeps | undefined
+) {
+	const id = nextHookId;
+	const hook = readHook('ImperativeHandle');
+	const effect = hook !== null ? (hook.memoizedState as Effect) : null;
+	let instance: unknown = undefined;
+	if (ref !== null && typeof ref === 'object') {
+		instance = ref.current;
+	}
+	logHook(
+		'ImperativeHandle',
+		id,
+		instance,
+		effect !== null ? effect.deps : (deps ?? null),
+		effect !== null ? effect.tag : null
+	);
+}
+
+function inspectEffectEvent<F>(callback: F): F {
+	const id = nextHookId;
+	const hook = readHook('EffectEvent');
+	logHook('EffectEvent', id, callback);
+	return hook !== null ? (hook.updateQueue as F) : callback;
+}
+
+function inspectId(): string {
+	const id = nextHookId;
+	const hook = readHook('Id');
+	const value = hook !== null ? hook.memoizedState : '';
+	logHook('Id', id, value);
+	return value;
+}
+
+function inspectSyncExternalStore<T>(
+	subscribe: (onStoreChange: () => void) => () => void,
+	getSnapshot: () => T
+): T {
+	const id = nextHookId;
+	const hook = readHook('SyncExternalStore');
+	// 订阅 store 的 effect
+	readHook('Effect');
+	const value = hook !== null ? hook.memoizedState : getSnapshot();
+	logHook('SyncExternalStore', id, value);
+	return value;
+}
+
+function inspectTransition(): [boolean, (callback: () => void) => void] {
+	const id = nextHookId;
+	const stateHook = readHook('State');
+	readHook('Transition');
+	const isPending = stateHook !== null ? stateHook.memoizedState : false;
+	logHook('Transition', id, isPending);
+	return [isPending, noop];
+}
+
+function inspectDeferredValue<T>(value: T): T {
+	const id = nextHookId;
+	const hook = readHook('DeferredValue');
+	const prevValue = hook !== null ? hook.memoizedState : value;
+	logHook('DeferredValue', id, prevValue);
+	return prevValue;
+}
+
+function inspectOptimistic<S, A>(passthrough: S): [S, (action: A) => void] {
+	const id = nextHookId;
+	const hook = readHook('Optimistic');
+	const state = hook !== null ? hook.memoizedState : passthrough;
+	logHook('Optimistic', id, state);
+	return [state, noop];
+}
+
+function inspectActionState<S, P>(
+	action: (state: S, payload: P) => S | Promise<S>,
+	initialState: S
+): [S, (payload: P) => void, boolean] {
+	const id = nextHookId;
+	const stateHook = readHook('State');
+	const pendingHook = readHook('State');
+	readHook('ActionState');
+	const state = stateHook !== null ? stateHook.memoizedState : initialState;
+	const isPending = pendingHook !== null ? pendingHook.memoizedState : false;
+	logHook('ActionState', id, state);
+	return [state, noop, isPending];
+}
+
+function inspectRef<T>(initialValue: T): { current: T } {
+	const id = nextHookId;
+	const hook = readHook('Ref');
+	const ref = hook !== null ? hook.memoizedState : { current: initialValue };
+	logHook('Ref', id, ref.current);
+	return ref;
+}
+
+function inspectMemo<T>(nextCreate: () => T, deps: HookDeps | undefined): T {
+	const id = nextHookId;
+	const hook = readHook('Memo');
+	let value: T;
+	let prevDeps: HookDeps = deps ?? null;
+	if (hook !== null) {
+		value = hook.memoizedState[0];
+		prevDeps = hook.memoizedState[1];
+	} else {
+		value = nextCreate();
+	}
+	logHook('Memo', id, value, prevDeps);
+	return value;
+}
+
+function inspectCallback<T>(callback: T, deps: HookDeps | undefined): T {
+	const id = nextHookId;
+	const hook = readHook('Callback');
+	let value = callback;
+	let prevDeps: HookDeps = deps ?? null;
+	if (hook !== null) {
+		value = hook.memoizedState[0];
+		prevDeps = hook.memoizedState[1];
+	}
+	logHook('Callback', id, value, prevDeps);
+	return value;
+}
+
+function inspectCacheRefresh(): () => void {
+	const id = nextHookId;
+	const hook = readHook('CacheRefresh');
+	logHook('CacheRefresh', id, undefined);
+	return hook !== null ? hook.memoizedState : noop;
+}
+
+function inspectMemoCache(size: number): any[] {
+	const fiber = inspectingFiber as FiberNode;
+	const updateQueue = fiber.updateQueue as FCUpdateQueue<any> | null;
+	const memoCache = updateQueue !== null ? updateQueue.memoCache : null;
+	const data = memoCache !== null ? memoCache.data[memoCacheIndex] : undefined;
+	memoCacheIndex++;
+	// 返回副本，避免重新执行时写入已提交的缓存
+	const value =
+		data !== undefined
+			? data.slice()
+			: new Array(size).fill(REACT_MEMO_CACHE_SENTINEL);
+	logHook('MemoCache', null, value);
+	return value;
+}
+
+function inspectContext<T>(context: ReactContext<T>): T {
+	const value = readContextForInspection(context);
+	logHook('Context', null, value, null, null, context.displayName || null);
+	return value;
+}
+
+function inspectContextSelector<T, S>(
+	context: ReactContext<T>,
+	selector: (value: T) => S
+): S {
+	const value = selector(readContextForInspection(context));
+	logHook(
+		'ContextSelector',
+		null,
+		value,
+		null,
+		null,
+		context.displayName || null
+	);
+	return value;
+}
+
+function inspectUse<T>(usable: Usable<T>): T {
+	if (usable !== null && typeof usable === 'object') {
+		if (typeof (usable as Thenable<T>).then === 'function') {
+			const thenable = usable as Thenable<T>;
+			switch (thenable.status) {
+				case 'fulfilled':
+					logHook('Use', null, thenable.value);
+					return thenable.value;
+				case 'rejected':
+					logHook('Use', null, thenable.reason);
+					throw thenable.reason;
+				default:
+					logHook('Use', null, thenable);
+					throw SuspendedInspection;
+			}
+		} else if ((usable as ReactContext<T>).$$typeof === REACT_CONTEXT_TYPE) {
+			const context = usable as ReactContext<T>;
+			const value = readContextForInspection(context);
+			logHook('Context', null, value, null, null, context.displayName || null);
+			return value;
+		}
+	}
+	throw new Error('不支持的use参数 ' + usable);
+}
+
+function inspectDebugValue<T>(value: T, format?: (value: T) => unknown) {
+	logHook(
+		'DebugValue',
+		null,
+		typeof format === 'function' ? format(value) : value
+	);
+}
+
+function getCacheForTypeForInspection<T>(resourceType: () => T): T {
+	const cache = readContextForInspection(CacheContext);
+	if (cache !== null && cache.data.has(resourceType)) {
+		return cache.data.get(resourceType) as T;
+	}
+	return resourceType();
+}
+
+const InspectionDispatcher: Dispatcher = {
+	useState: inspectState as Dispatcher['useState'],
+	useReducer: inspectReducer,
+	useActionState: inspectActionState,
+	useEffect: inspectEffect,
+	useLayoutEffect: inspectLayoutEffect,
+	useInsertionEffect: inspectInsertionEffect,
+	useImperativeHandle: inspectImperativeHandle,
+	useEffectEvent: inspectEffectEvent,
+	useId: inspectId,
+	useSyncExternalStore: inspectSyncExternalStore,
+	useTransition: inspectTransition,
+	useDeferredValue: inspectDeferredValue,
+	useOptimistic: inspectOptimistic,
+	useRef: inspectRef,
+	useContext: inspectContext,
+	useContextSelector: inspectContextSelector,
+	use: inspectUse,
+	useMemo: inspectMemo,
+	useCallback: inspectCallback,
+	useMemoCache: inspectMemoCache,
+	useCacheRefresh: inspectCacheRefresh,
+	useDebugValue: inspectDebugValue,
+	getCacheForType: getCacheForTypeForInspection
+};
+
+interface CallSite {
+	getFunctionName(): string | null;
+	getFileName(): string | null;
+	getLineNumber(): number | null;
+	getColumnNumber(): number | null;
+}
+
+type ErrorConstructorWithStackTrace = ErrorConstructor & {
+	stackTraceLimit?: number;
+	prepareStackTrace?: (error: Error, callSites: CallSite[]) => unknown;
+	captureStackTrace?: (target: object) => void;
+};
+
+/**
+ * @function captureStack
+ * @description 获取当前调用栈，第一帧是 captureStack 的调用者。
+ *              V8 下直接读取 CallSite，得到的是运行时的函数名；
+ *              字符串形式的 stack 可能已经被 source map 改写 (例如 jest)，函数名会变成调用处的标识符。
+ *              其他引擎退回到解析 `name@source` 格式的 stack。
+ */
+function captureStack(): StackFrame[] {
+	const ErrorWithStackTrace = Error as ErrorConstructorWithStackTrace;
+	const prevStackTraceLimit = ErrorWithStackTrace.stackTraceLimit;
+	// V8 默认只保留 10 帧，嵌套较深的自定义 Hook 会被截断
+	ErrorWithStackTrace.stackTraceLimit = 50;
+	try {
+		if (typeof ErrorWithStackTrace.captureStackTrace === 'function') {
+			const prevPrepareStackTrace = ErrorWithStackTrace.prepareStackTrace;
+			ErrorWithStackTrace.prepareStackTrace = (_, callSites) => callSites;
+			const holder: { stack?: CallSite[] } = {};
+			try {
+				ErrorWithStackTrace.captureStackTrace(holder);
+				// 读取 stack 时才会调用 prepareStackTrace
+				const callSites = holder.stack || [];
+				return callSites.slice(1).map((callSite) => ({
+					name: callSite.getFunctionName() || '',
+					source: `${callSite.getFileName()}:${callSite.getLineNumber()}:${callSite.getColumnNumber()}`
+				}));
+			} finally {
+				ErrorWithStackTrace.prepareStackTrace = prevPrepareStackTrace;
+			}
+		}
+		const stack = new Error().stack || '';
+		const frames: StackFrame[] = [];
+		const lines = stack.split('\n');
+		for (let i = 0; i < lines.length; i++) {
+			const match = /^([^@]*)@(.*)$/.exec(lines[i].trim());
+			if (match !== null) {
+				frames.push({ name: match[1], source: match[2] });
+			}
+		}
+		return frames.slice(1);
+	} finally {
+		ErrorWithStackTrace.stackTraceLimit = prevStackTraceLimit;
+	}
+}
+
+// 编译工具 (例如 babel 转换 async 函数时) 可能会给内部声明的函数名加上 `_` 前缀
+function normalizeHookName(name: string) {
+	return name.replace(/^_+/, '');
+}
+
+function isCustomHookName(name: string) {
+	return /^use[A-Z0-9]/.test(normalizeHookName(name));
+}
+
+/**
+ * @function getCustomHookPath
+ * @description 从一次原生 Hook 调用的调用栈中找出外层的自定义 Hook，由外到内排列。
+ *              栈的结构为：logHook -> inspectXxx... -> React 导出的 useXxx -> 自定义 Hook... -> 组件。
+ *              每个自定义 Hook 以其调用位置 (上一帧的 source) 区分，同一个自定义 Hook 被调用两次时会得到两个节点。
+ */
+function getCustomHookPath(stack: StackFrame[]): StackFrame[] {
+	let i = 0;
+	while (
+		i < stack.length &&
+		(stack[i].name === 'logHook' || stack[i].name.startsWith('inspect'))
+	) {
+		i++;
+	}
+	// 跳过 React 导出的 Hook
+	i++;
+	const path: StackFrame[] = [];
+	for (; i < stack.length; i++) {
+		const frame = stack[i];
+		if (!isCustomHookName(frame.name)) {
+			break;
+		}
+		const caller = stack[i + 1];
+		path.unshift({
+			name: frame.name,
+			source: caller !== undefined ? caller.source : ''
+		});
+	}
+	return path;
+}
+
+function buildTree(log: HookLogEntry[]) {
+	const rootChildren: HooksNode[] = [];
+	let prevPath: StackFrame[] = [];
+
+	for (let i = 0; i < log.length; i++) {
+		const entry = log[i];
+		const path = getCustomHookPath(entry.stack);
+
+		// 与上一次调用共同的自定义 Hook 前缀可以复用已经创建的节点
+		let commonLength = 0;
+		while (
+			commonLength < path.length &&
+			commonLength < prevPath.length &&
+			path[commonLength].name === prevPath[commonLength].name &&
+			path[commonLength].source === prevPath[commonLength].source
+		) {
+			commonLength++;
+		}
+		let levelChildren = rootChildren;
+		for (let j = 0; j < commonLength; j++) {
+			levelChildren = levelChildren[levelChildren.length - 1].subHooks;
+		}
+		for (let j = commonLength; j < path.length; j++) {
+			const node: HooksNode = {
+				id: null,
+				name: normalizeHookName(path[j].name).slice(3),
+				value: undefined,
+				deps: null,
+				effectTag: null,
+				subHooks: []
+			};
+			levelChildren.push(node);
+			levelChildren = node.subHooks;
+		}
+		levelChildren.push({
+			id: entry.id,
+			name: entry.displayName !== null ? entry.displayName : entry.primitive,
+			value: entry.value,
+			deps: entry.deps,
+			effectTag: entry.effectTag,
+			subHooks: []
+		});
+		prevPath = path;
+	}
+
+	processDebugValues(rootChildren, null);
+	return rootChildren;
+}
+
+/**
+ * @function processDebugValues
+ * @description 把 `useDebugValue` 记录的值挂到外层自定义 Hook 的 `value` 上，并从树中移除 DebugValue 节点。
+ *              组件中直接调用的 `useDebugValue` 没有对应的自定义 Hook，会被忽略。
+ */
+function processDebugValues(
+	hooksTree: HooksNode[],
+	parentHooksNode: HooksNode | null
+) {
+	const debugValues: unknown[] = [];
+	for (let i = 0; i < hooksTree.length; i++) {
+		const node = hooksTree[i];
+		if (node.name === 'DebugValue' && node.subHooks.length === 0) {
+			hooksTree.splice(i, 1);
+			i--;
+			debugValues.push(node.value);
+		} else {
+			processDebugValues(node.subHooks, node);
+		}
+	}
+	if (parentHooksNode !== null) {
+		if (debugValues.length === 1) {
+			parentHooksNode.value = debugValues[0];
+		} else if (debugValues.length > 1) {
+			parentHooksNode.value = debugValues;
+		}
+	}
+}
@@ -0,0 +1,84 @@
+import { FiberNode } from './fiber';
+import { DidCapture, NoFlags } from './fiberFlags';
+import { Lane, requestUpdateLane } from './fiberLanes';
+import { createUpdate, enqueueUpdate, UpdateQueue } from './updateQueue';
+import { scheduleUpdateOnFiber } from './workLoop';
+import { ErrorBoundaryComponent } from './workTags';
+
+/**
+ * @interface ErrorBoundaryState
+ * @description `<ErrorBoundary>` fiber 的 `memoizedState`，为 `null` 时渲染 children，
+ *              否则渲染 `fallback`。
+ * @property {unknown} error - 捕获到的错误。
+ */
+export interface ErrorBoundaryState {
+	error: unknown;
+}
+
+export type ErrorBoundaryUpdateQueue = UpdateQueue<ErrorBoundaryState | null>;
+
+/**
+ * @function findErrorBoundary
+ * @description 从抛出错误的 fiber 的父节点开始向上寻找最近的 `<ErrorBoundary>`。
+ *              - render 阶段跳过本次 render 中已经捕获过错误的边界 (`DidCapture`)，
+ *                即 fallback 自身抛出的错误交给更外层的边界处理。
+ *              - commit 阶段跳过已经在展示 fallback 的边界。
+ * @param {FiberNode} sourceFiber - 抛出错误的 fiber。
+ * @param {boolean} isCommitPhase - 是否是 commit 阶段 (effect、ref 回调) 抛出的错误。
+ * @returns {FiberNode | null} 找到的边界，没有时返回 `null`。
+ */
+export function findErrorBoundary(
+	sourceFiber: FiberNode,
+	isCommitPhase: boolean
+): FiberNode | null {
+	let node = sourceFiber.return;
+	while (node !== null) {
+		if (node.tag === ErrorBoundaryComponent) {
+			const alreadyCaptured = isCommitPhase
+				? node.memoizedState !== null
+				: (node.flags & DidCapture) !== NoFlags;
+			if (!alreadyCaptured) {
+				return node;
+			}
+		}
+		node = node.return;
+	}
+	return null;
+}
+
+/**
+ * @function enqueueCapturedError
+ * @description 在边界的 updateQueue 中加入一个携带错误的 update，
+ *              边界处理到这个 update 后会切换到 fallback。
+ */
+export function enqueueCapturedError(
+	boundary: FiberNode,
+	error: unknown,
+	lane: Lane
+) {
+	const updateQueue = boundary.updateQueue as ErrorBoundaryUpdateQueue;
+	enqueueUpdate(
+		updateQueue,
+		createUpdate<ErrorBoundaryState | null>({ error }, lane),
+		boundary,
+		lane
+	);
+}
+
+/**
+ * @function resetErrorBoundary
+ * @description 作为 `reset` 传给 `fallback`，清除捕获到的错误并重新渲染 children。
+ */
+export function resetErrorBoundary(
+	boundary: FiberNode,
+	updateQueue: ErrorBoundaryUpdateQueue
+) {
+	const lane = requestUpdateLane();
+	enqueueUpdate(
+		updateQueue,
+		createUpdate<ErrorBoundaryState | null>(null, lane),
+		boundary,
+		lane
+	);
+	scheduleUpdateOnFiber(boundary, lane);
+}
@@ -0,0 +1,34 @@
+/**
+ * @description root 上报告错误的回调，通过 `createRoot` 的选项配置。
+ */
+export type RootErrorHandler = (error: unknown) => void;
+
+/**
+ * @function defaultOnUncaughtError
+ * @description 没有配置 `onUncaughtError` 时，报告没有被边界捕获的错误。
+ *              调用时可能处于 commit 阶段或同步任务队列中，抛出会中断其余的副作用，因此只报告不抛出：
+ *              宿主环境提供 `reportError` 时交给它处理 (与未捕获的异常一样触发 `error` 事件)，否则打印。
+ */
+export function defaultOnUncaughtError(error: unknown) {
+	if (typeof reportError === 'function') {
+		reportError(error);
+	} else {
+		console.error(error);
+	}
+}
+
+/**
+ * @function defaultOnCaughtError
+ * @description 没有配置 `onCaughtError` 时，打印被 `<ErrorBoundary>` 捕获的错误。
+ */
+export function defaultOnCaughtError(error: unknown) {
+	console.error(error);
+}
+
+/**
+ * @function defaultOnRecoverableError
+ * @description 没有配置 `onRecoverableError` 时，打印 React 自动恢复的错误。
+ */
+export function defaultOnRecoverableError(error: unknown) {
+	console.error(error);
+}
@@ -15,15 +15,50 @@ export const Visibility = 0b0100000;
 // 捕获到 something
 export const DidCapture = 0b1000000;
 
+// useLayoutEffect
+export const LayoutEffect = 0b10000000;
+// useInsertionEffect
+export const InsertionEffect = 0b100000000;
+
+// 类组件 setState 的回调，在 layout 阶段执行
+export const Callback = 0b1000000000;
+// 类组件的 getSnapshotBeforeUpdate，在 beforeMutation 阶段执行
+export const Snapshot = 0b10000000000;
+
 // unwind应该捕获、还未捕获到
 export const ShouldCapture = 0b1000000000000;
 
+// 在 reconcileChildrenArray 中创建，用于计算 useId 的 tree id
+export const Forked = 0b10000000000000;
+// 调用过 useId，子树需要额外的 tree id
+export const MaterializedTreeId = 0b100000000000000;
+
+// 并发渲染中读取了外部store，提交前需要检查store是否在渲染期间发生了变化
+export const StoreConsistency = 0b1000000000000000;
+
+// 本次render中已经把祖先Provider的context变化传播到了子树，子树中的fiber向上查找Provider时到此为止
+export const DidPropagateContext = 0b10000000000000000;
+
+// 不随每次render重置的flags，createWorkInProgress时会从current复制
+export const StaticMask = Forked | MaterializedTreeId;
+
+// getSnapshotBeforeUpdate在DOM变更之前执行
+export const BeforeMutationMask = Snapshot;
+
+// useLayoutEffect的destroy、useInsertionEffect的create/destroy在mutation阶段执行
 export const MutationMask =
-	Placement | Update | ChildDeletion | Ref | Visibility;
-export const LayoutMask = Ref;
+	Placement |
+	Update |
+	ChildDeletion |
+	Ref |
+	Visibility |
+	LayoutEffect |
+	InsertionEffect;
+// useLayoutEffect的create、类组件的componentDidMount/DidUpdate和setState回调在layout阶段执行
+export const LayoutMask = Update | Callback | Ref | LayoutEffect;
 
 // 删除子节点可能触发useEffect destroy
 export const PassiveMask = PassiveEffect | ChildDeletion;
 
 export const HostEffectMask =
-	MutationMask | LayoutMask | PassiveMask | DidCapture;
+	BeforeMutationMask | MutationMask | LayoutMask | PassiveMask | DidCapture;
@@ -1,16 +1,26 @@
 import { Dispatch } from 'react/src/currentDispatcher';
 import { Dispatcher } from 'react/src/currentDispatcher';
-import currentBatchConfig from 'react/src/currentBatchConfig';
+import { Transition } from 'react/src/currentBatchConfig';
 import internals from 'shared/internals';
-import { Action, ReactContext, Thenable, Usable } from 'shared/ReactTypes';
-import { FiberNode } from './fiber';
 import {
+	Action,
+	ReactContext,
+	Reducer,
+	Ref,
+	Thenable,
+	Usable
+} from 'shared/ReactTypes';
+import { FiberNode, FiberRootNode } from './fiber';
+import {
+	includeOnlyNonUrgentLanes,
 	Lane,
 	NoLane,
 	NoLanes,
 	mergeLanes,
 	removeLanes,
-	requestUpdateLane
+	requestUpdateLane,
+	SyncLane,
+	TransitionLane
 } from './fiberLanes';
 import {
 	basicStateReducer,
@@ -21,13 +31,41 @@ import {
 	Update,
 	UpdateQueue
 } from './updateQueue';
-import { scheduleUpdateOnFiber } from './workLoop';
+import {
+	getWorkInProgressRoot,
+	markRootUpdated,
+	scheduleUpdateOnFiber
+} from './workLoop';
 import { trackUsedThenable } from './thenable';
-import { REACT_CONTEXT_TYPE } from 'shared/ReactSymbols';
-import { Flags, PassiveEffect } from './fiberFlags';
-import { HookHasEffect, Passive } from './hookEffectTags';
+import {
+	REACT_CONTEXT_TYPE,
+	REACT_MEMO_CACHE_SENTINEL
+} from 'shared/ReactSymbols';
+import {
+	Flags,
+	InsertionEffect,
+	LayoutEffect,
+	MaterializedTreeId,
+	PassiveEffect,
+	StoreConsistency,
+	Update as UpdateFlag
+} from './fiberFlags';
+import { HookHasEffect, Insertion, Layout, Passive } from './hookEffectTags';
 import { markWipReceivedUpdate } from './beginWork';
-import { readContext as readContextOrigin } from './fiberContext';
+import {
+	readContext as readContextOrigin,
+	readContextWithSelector
+} from './fiberContext';
+import { getTreeId } from './fiberTreeContext';
+import { CacheContext, createCache } from './fiberCache';
+import { HostRoot } from './workTags';
+import {
+	afterAsyncActionSettles,
+	createTransition,
+	entangleAsyncAction,
+	isThenable,
+	runInTransition
+} from './fiberAsyncAction';
 
 let currentlyRenderingFiber: FiberNode | null = null;
 
@@ -42,7 +80,28 @@ let workInProgressHook: Hook | null = null;
 let currentHook: Hook | null = null;
 let renderLane: Lane = NoLane;
 
-const { currentDispatcher } = internals;
+/**
+ * @param localIdCounter 当前组件中已经调用过的 useId 次数，用于区分同一组件中的多个 id
+ */
+let localIdCounter = 0;
+
+/**
+ * @param currentComponentNameInDev DEV 下当前正在执行的组件名，用于 Hook 规则相关的警告
+ */
+let currentComponentNameInDev: string | null = null;
+// 每个组件只警告一次 Hook 顺序变化
+const didWarnAboutMismatchedHooks = new Set<string>();
+
+/**
+ * @param didScheduleRenderPhaseUpdateDuringThisPass 本次执行组件时是否调用了自身的 setState
+ * @param numberOfReRenders render 阶段的更新导致组件重新执行的次数，大于 0 时 useState/useReducer 只应用 render 阶段的更新
+ */
+let didScheduleRenderPhaseUpdateDuringThisPass = false;
+let numberOfReRenders = 0;
+// render 阶段更新导致的重新执行次数上限，超过时认为出现了无限循环
+const RE_RENDER_LIMIT = 25;
+
+const { currentDispatcher, currentBatchConfig } = internals;
 
 function readContext<Value>(context: ReactContext<Value>): Value {
 	const consumer = currentlyRenderingFiber as FiberNode;
@@ -50,11 +109,53 @@ function readContext<Value>(context: ReactContext<Value>): Value {
 }
 
 /**
+ * @function useContextSelector
+ * @description 读取 context 中的一部分。Provider 的值变化时，只有 `selector` 的结果
+ *              (通过 `Object.is` 比较) 发生变化，组件才会重新渲染。
+ *              与 `useContext` 一样不占用 Hook 链表的槽位。
+ * @param context 读取的 context
+ * @param selector 从 context 的值中选出组件需要的部分，应当是纯函数
+ */
+function useContextSelector<Value, Selected>(
+	context: ReactContext<Value>,
+	selector: (value: Value) => Selected
+): Selected {
+	const consumer = currentlyRenderingFiber as FiberNode;
+	return readContextWithSelector(consumer, context, selector);
+}
+
+/**
+ * @type HookType
+ * @description Hook 的类型，记录在 Hook 对象上，供调试工具 (`inspectHooksOfFiber`) 区分链表中的每个槽位。
+ *              `useTransition`、`useActionState` 等复合 Hook 内部的 `useState` 会单独占用 `State` 类型的槽位。
+ */
+export type HookType =
+	| 'State'
+	| 'Reducer'
+	| 'Effect'
+	| 'LayoutEffect'
+	| 'InsertionEffect'
+	| 'ImperativeHandle'
+	| 'Id'
+	| 'SyncExternalStore'
+	| 'Transition'
+	| 'DeferredValue'
+	| 'Optimistic'
+	| 'ActionState'
+	| 'EffectEvent'
+	| 'Ref'
+	| 'Memo'
+	| 'Callback'
+	| 'CacheRefresh';
+
+/**
+ * @property {HookType} type - Hook 的类型
  * @property {any} memoizedState - 存储了 Hook 的核心数据（如状态值）
  * @property {unknown} updateQueue - 与该 Hook 相关的更新队列
  * @property {Hook} next - 指向下一个hook
  */
-interface Hook {
+export interface Hook {
+	type: HookType;
 	// 此处的 memoizedState 不同于 fiberNode 中的 memoizedState
 	// fiberNode 中的 memoizedState 指向一个链表，链表的元素是Hooks（useState、useEffect...）
 	memoizedState: any;
@@ -76,15 +177,70 @@ export interface FCUpdateQueue<State> extends UpdateQueue<State> {
 	// 指向effect环状链表中，最后一个
 	lastEffect: Effect | null;
 	lastRenderedState: State;
+	// 上一次render使用的reducer，用于eagerState的计算
+	lastRenderedReducer: Reducer<State, any> | null;
+	// 并发渲染中读取的外部store，提交前检查是否发生了变化
+	stores: StoreConsistencyCheck<any>[] | null;
+	// useEffectEvent 在本次 render 中的最新回调，commit 阶段替换到 ref 上
+	events: EventFunctionPayload<any>[] | null;
+	// useMemoCache 分配的缓存槽位
+	memoCache: MemoCache | null;
+}
+
+/**
+ * @interface MemoCache
+ * @description useMemoCache 保存在 updateQueue 上的缓存。
+ * @property {any[][]} data - 每次调用 useMemoCache 对应一个固定长度的数组。
+ * @property {number} index - 本次 render 中下一次 useMemoCache 调用对应的下标。
+ */
+interface MemoCache {
+	data: any[][];
+	index: number;
+}
+
+/**
+ * @interface EventFunctionPayload
+ * @description useEffectEvent 保存在 updateQueue.events 中的记录。
+ * @property {{ impl: F }} ref - 稳定函数实际调用的回调。
+ * @property {F} nextImpl - 本次 render 传入的回调，commit 时赋值给 `ref.impl`。
+ */
+export interface EventFunctionPayload<F extends AnyFunction> {
+	ref: { impl: F };
+	nextImpl: F;
+}
+
+/**
+ * @interface StoreConsistencyCheck
+ * @description 记录一次并发渲染中从外部 store 读取到的快照，用于在提交前检测 "撕裂"。
+ * @property {T} value - render 时读取到的快照。
+ * @property {() => T} getSnapshot - 读取最新快照的函数。
+ */
+export interface StoreConsistencyCheck<T> {
+	value: T;
+	getSnapshot: () => T;
+}
+
+/**
+ * @interface StoreInstance
+ * @description useSyncExternalStore 保存在 Hook.updateQueue 中的实例，记录最近一次提交的快照。
+ * @property {T} value - 最近一次提交的快照。
+ * @property {() => T} getSnapshot - 最近一次提交时使用的 getSnapshot。
+ */
+interface StoreInstance<T> {
+	value: T;
+	getSnapshot: () => T;
 }
 
 type EffectCallback = () => void;
+type AnyFunction = (...args: any[]) => any;
 export type HookDeps = any[] | null;
 
 export function renderWithHooks(
 	wip: FiberNode,
 	Component: FiberNode['type'],
-	lane: Lane
+	lane: Lane,
+	// ForwardRef 组件的第二个参数 ref
+	secondArg?: any
 ) {
 	// 赋值操作
 
@@ -97,6 +253,11 @@ export function renderWithHooks(
 	// 重置 effect链表
 	wip.updateQueue = null;
 	renderLane = lane;
+	localIdCounter = 0;
+	if (__DEV__) {
+		currentComponentNameInDev =
+			Component.displayName || Component.name || 'Anonymous';
+	}
 
 	const current = wip.alternate;
 
@@ -109,39 +270,304 @@ export function renderWithHooks(
 	}
 
 	const props = wip.pendingProps;
-	// FC render
-	const children = Component(props);
+	let children;
+	let didRenderTooFewHooks = false;
+	try {
+		// FC render
+		children = Component(props, secondArg);
+
+		if (didScheduleRenderPhaseUpdateDuringThisPass) {
+			children = renderWithHooksAgain(wip, Component, props, secondArg);
+		}
 
-	// 重置操作
-	currentlyRenderingFiber = null;
-	workInProgressHook = null;
-	currentHook = null;
-	renderLane = NoLane;
+		// update 时上一次的 Hook 链表没有被走完，说明本次执行的 Hook 比上次少
+		didRenderTooFewHooks =
+			current !== null &&
+			(currentHook !== null
+				? currentHook.next !== null
+				: current.memoizedState !== null);
+	} finally {
+		// 重置操作，组件抛出错误时同样需要执行
+		currentlyRenderingFiber = null;
+		workInProgressHook = null;
+		currentHook = null;
+		renderLane = NoLane;
+		didScheduleRenderPhaseUpdateDuringThisPass = false;
+		numberOfReRenders = 0;
+		// render 之外 (effect、事件回调中) 调用 Hook 时报错，而不是读到上一个组件的状态
+		currentDispatcher.current = ContextOnlyDispatcher;
+	}
+
+	if (didRenderTooFewHooks) {
+		throw new Error(`组件 ${Component.name} 本次执行时的Hook比上次执行时少`);
+	}
 	return children;
 }
 
+/**
+ * @function renderWithHooksAgain
+ * @description 组件在执行过程中调用了自身的 setState 时，立即重新执行组件，直到不再产生 render 阶段的更新。
+ *              重新执行时复用上一次执行创建的 Hook (见 `updateWorkInProgressHook`)，
+ *              effect 链表等保存在 updateQueue 上的数据会重新收集。
+ * @throws {Error} 重新执行的次数超过 `RE_RENDER_LIMIT` 时抛出错误，避免无限循环。
+ */
+function renderWithHooksAgain(
+	wip: FiberNode,
+	Component: FiberNode['type'],
+	props: any,
+	secondArg: any
+) {
+	let children;
+	do {
+		didScheduleRenderPhaseUpdateDuringThisPass = false;
+		if (numberOfReRenders >= RE_RENDER_LIMIT) {
+			throw new Error(
+				'重新渲染的次数过多，组件在 render 阶段调用 setState 导致了无限循环'
+			);
+		}
+		numberOfReRenders++;
+
+		currentHook = null;
+		workInProgressHook = null;
+		localIdCounter = 0;
+		resetFunctionComponentUpdateQueue(wip);
+		// 首次挂载时同样使用 update 的实现，复用第一次执行创建的 Hook
+		currentDispatcher.current = HooksDispatcherOnUpdate;
+
+		children = Component(props, secondArg);
+	} while (didScheduleRenderPhaseUpdateDuringThisPass);
+	return children;
+}
+
+function resetFunctionComponentUpdateQueue(wip: FiberNode) {
+	const updateQueue = wip.updateQueue as FCUpdateQueue<any> | null;
+	if (updateQueue !== null) {
+		updateQueue.lastEffect = null;
+		updateQueue.stores = null;
+		updateQueue.events = null;
+		if (updateQueue.memoCache !== null) {
+			updateQueue.memoCache.index = 0;
+		}
+	}
+}
+
 const HooksDispatcherOnMount: Dispatcher = {
 	useState: mountState,
+	useReducer: mountReducer,
 	useEffect: mountEffect,
+	useLayoutEffect: mountLayoutEffect,
+	useInsertionEffect: mountInsertionEffect,
+	useImperativeHandle: mountImperativeHandle,
+	useEffectEvent: mountEvent,
+	useId: mountId,
+	useSyncExternalStore: mountSyncExternalStore,
 	useTransition: mountTransition,
+	useDeferredValue: mountDeferredValue,
+	useOptimistic: mountOptimistic,
+	useActionState: mountActionState,
 	useRef: mountRef,
 	useContext: readContext,
+	useContextSelector,
 	use,
 	useMemo: mountMemo,
-	useCallback: mountCallback
+	useCallback: mountCallback,
+	useMemoCache,
+	useCacheRefresh: mountRefresh,
+	useDebugValue,
+	getCacheForType
 };
 
 const HooksDispatcherOnUpdate: Dispatcher = {
 	useState: updateState,
+	useReducer: updateReducer,
 	useEffect: updateEffect,
+	useLayoutEffect: updateLayoutEffect,
+	useInsertionEffect: updateInsertionEffect,
+	useImperativeHandle: updateImperativeHandle,
+	useEffectEvent: updateEvent,
+	useId: updateId,
+	useSyncExternalStore: updateSyncExternalStore,
 	useTransition: updateTransition,
+	useDeferredValue: updateDeferredValue,
+	useOptimistic: updateOptimistic,
+	useActionState: updateActionState,
 	useRef: updateRef,
 	useContext: readContext,
+	useContextSelector,
 	use,
 	useMemo: updateMemo,
-	useCallback: updateCallback
+	useCallback: updateCallback,
+	useMemoCache,
+	useCacheRefresh: updateRefresh,
+	useDebugValue,
+	getCacheForType
+};
+
+function throwInvalidHookError(): never {
+	throw new Error('hook只能在函数组件中执行');
+}
+
+/**
+ * @constant ContextOnlyDispatcher
+ * @description render 结束后安装的 Dispatcher。
+ *              在 effect、事件回调等 render 之外的地方调用 Hook 时直接报错；
+ *              `getCacheForType` 不是 Hook，在 render 之外调用时不做缓存。
+ */
+const ContextOnlyDispatcher: Dispatcher = {
+	useState: throwInvalidHookError,
+	useReducer: throwInvalidHookError,
+	useEffect: throwInvalidHookError,
+	useLayoutEffect: throwInvalidHookError,
+	useInsertionEffect: throwInvalidHookError,
+	useImperativeHandle: throwInvalidHookError,
+	useEffectEvent: throwInvalidHookError,
+	useId: throwInvalidHookError,
+	useSyncExternalStore: throwInvalidHookError,
+	useTransition: throwInvalidHookError,
+	useDeferredValue: throwInvalidHookError,
+	useOptimistic: throwInvalidHookError,
+	useActionState: throwInvalidHookError,
+	useRef: throwInvalidHookError,
+	useContext: throwInvalidHookError,
+	useContextSelector: throwInvalidHookError,
+	use: throwInvalidHookError,
+	useMemo: throwInvalidHookError,
+	useCallback: throwInvalidHookError,
+	useMemoCache: throwInvalidHookError,
+	useCacheRefresh: throwInvalidHookError,
+	useDebugValue: throwInvalidHookError,
+	getCacheForType
 };
 
+/**
+ * @function createInvalidNestedHooksDispatcherInDev
+ * @description DEV 下在 `useMemo`、`useState` / `useReducer` 的初始化函数执行期间安装的 Dispatcher。
+ *              在这些回调中调用 Hook 会打乱 Hook 链表的顺序，这里先给出警告，再交给原来的实现。
+ * @param dispatcher 当前 render 使用的 Dispatcher (mount / update)
+ */
+function createInvalidNestedHooksDispatcherInDev(
+	dispatcher: Dispatcher
+): Dispatcher {
+	const nestedDispatcher = { ...dispatcher };
+	(Object.keys(dispatcher) as (keyof Dispatcher)[]).forEach((name) => {
+		if (name === 'getCacheForType') {
+			return;
+		}
+		const impl = dispatcher[name] as AnyFunction;
+		(nestedDispatcher as Record<string, AnyFunction>)[name] = (...args) => {
+			console.error(
+				`不要在 useMemo、useReducer 或 useState 的回调函数中调用 ${name}，Hook 只能在函数组件的顶层调用`
+			);
+			return impl(...args);
+		};
+	});
+	return nestedDispatcher;
+}
+
+const InvalidNestedHooksDispatcherOnMountInDev = __DEV__
+	? createInvalidNestedHooksDispatcherInDev(HooksDispatcherOnMount)
+	: HooksDispatcherOnMount;
+const InvalidNestedHooksDispatcherOnUpdateInDev = __DEV__
+	? createInvalidNestedHooksDispatcherInDev(HooksDispatcherOnUpdate)
+	: HooksDispatcherOnUpdate;
+
+/**
+ * @function callWithoutNestedHooks
+ * @description 执行 render 期间由 Hook 调用的用户回调 (useMemo 的 create、useState 的初始化函数等)。
+ *              DEV 下回调执行期间安装 InvalidNestedHooksDispatcher，回调中调用 Hook 时给出警告。
+ */
+function callWithoutNestedHooks<T>(callback: () => T): T {
+	if (!__DEV__) {
+		return callback();
+	}
+	const prevDispatcher = currentDispatcher.current;
+	currentDispatcher.current =
+		prevDispatcher === HooksDispatcherOnMount
+			? InvalidNestedHooksDispatcherOnMountInDev
+			: InvalidNestedHooksDispatcherOnUpdateInDev;
+	try {
+		return callback();
+	} finally {
+		currentDispatcher.current = prevDispatcher;
+	}
+}
+
+/**
+ * @function warnOnHookMismatchInDev
+ * @description 本次 render 中某个位置的 Hook 类型与上次不同 (例如在条件语句中调用了 Hook)，
+ *              打印两次 render 的 Hook 列表，每个组件只警告一次。
+ *              render 阶段更新导致的重新执行中，上次 render 指同一次渲染中的上一次执行。
+ * @param prevHooks 上次 render 的 Hook 链表
+ * @param prevHook 上次 render 在该位置的 Hook
+ * @param nextType 本次 render 在该位置调用的 Hook 类型
+ */
+function warnOnHookMismatchInDev(
+	prevHooks: Hook | null,
+	prevHook: Hook,
+	nextType: HookType
+) {
+	const componentName = currentComponentNameInDev as string;
+	if (didWarnAboutMismatchedHooks.has(componentName)) {
+		return;
+	}
+	didWarnAboutMismatchedHooks.add(componentName);
+
+	const prevTypes: HookType[] = [];
+	let hook = prevHooks;
+	while (hook !== null) {
+		prevTypes.push(hook.type);
+		if (hook === prevHook) {
+			break;
+		}
+		hook = hook.next;
+	}
+	// 本次 render 中已经调用的 Hook，重新执行时链表中还有上一次执行留下的 Hook
+	const nextTypes: HookType[] = [];
+	hook =
+		workInProgressHook === null
+			? null
+			: (currentlyRenderingFiber as FiberNode).memoizedState;
+	while (hook !== null) {
+		nextTypes.push(hook.type);
+		if (hook === workInProgressHook) {
+			break;
+		}
+		hook = hook.next;
+	}
+	nextTypes.push(nextType);
+
+	let table = '';
+	for (let i = 0; i < prevTypes.length; i++) {
+		const prevName = getHookName(prevTypes[i]);
+		const row = `${i + 1}. ${prevName}`;
+		table += `${row.padEnd(30)}${getHookName(nextTypes[i])}\n`;
+	}
+	console.error(
+		`组件 ${componentName} 的Hook调用顺序发生了变化，Hook必须在每次render中以相同的顺序调用。\n\n` +
+			`${'   上次render'.padEnd(30)}本次render\n` +
+			`${'-'.repeat(54)}\n` +
+			table
+	);
+}
+
+function getHookName(type: HookType) {
+	return `use${type}`;
+}
+
+/**
+ * @function checkDepsAreArrayInDev
+ * @description DEV 下检查依赖项是否是数组。
+ */
+function checkDepsAreArrayInDev(hookType: HookType, deps: unknown) {
+	if (__DEV__) {
+		if (deps !== undefined && deps !== null && !Array.isArray(deps)) {
+			console.error(
+				`${getHookName(hookType)} 的依赖项必须是数组，实际收到的是 ${typeof deps}`
+			);
+		}
+	}
+}
+
 /**
  * @function mountRef
  * @description `useRef` Hook 在组件首次挂载时的实现。
@@ -157,7 +583,7 @@ const HooksDispatcherOnUpdate: Dispatcher = {
  *                           并且在组件的整个生命周期内保持同一个引用。
  */
 function mountRef<T>(initialValue: T): { current: T } {
-	const hook = mountWorkInProgressHook();
+	const hook = mountWorkInProgressHook('Ref');
 	const ref = { current: initialValue };
 	hook.memoizedState = ref;
 	return ref;
@@ -177,30 +603,252 @@ function mountRef<T>(initialValue: T): { current: T } {
  * @returns {{ current: T }} 返回上一次渲染时创建的 ref 对象。
  */
 function updateRef<T>(initialValue: T): { current: T } {
-	const hook = updateWorkInProgressHook();
+	const hook = updateWorkInProgressHook('Ref');
 	return hook.memoizedState;
 }
 
 /**
- * @description useEffect Hook 在组件首次挂载时的实现
- * @param create 用户传入的 useEffect 的第一个参数，即副作用的创建函数
- * @param deps 用户传入的 useEffect 的第二个参数，即依赖项数组 (可选)
+ * @function mountId
+ * @description `useId` Hook 在组件首次挂载时的实现。
+ *              id 由以下几部分组成：`:` + `identifierPrefix` + `r` + tree id + (`H` + 组件内序号) + `:`。
+ *              - tree id 来自 `fiberTreeContext`，只取决于组件在树中的位置，
+ *                因此不会像全局计数器那样受渲染顺序影响，服务端与客户端可以生成相同的 id。
+ *              - 同一组件中多次调用 `useId` 时，用组件内的序号区分 (第一次调用不带序号)。
+ *              生成的 id 保存在 Hook 中，后续更新直接复用。
+ *              同时为当前 fiber 打上 `MaterializedTreeId` 标记，使其子树使用新的 tree id，避免与自身冲突。
+ * @returns {string} 生成的 id。
  */
-function mountEffect(create: EffectCallback | void, deps: HookDeps | void) {
-	// 获取这次 useEffect 调用的 Hook 对象
-	const hook = mountWorkInProgressHook();
-	const nextDeps = deps === undefined ? null : deps;
+function mountId(): string {
+	const hook = mountWorkInProgressHook('Id');
+	const root = getWorkInProgressRoot() as FiberRootNode;
+	const identifierPrefix = root.identifierPrefix;
+
+	let id = ':' + identifierPrefix + 'r' + getTreeId();
+	const localId = localIdCounter++;
+	if (localId > 0) {
+		id += 'H' + localId.toString(32);
+	}
+	id += ':';
 
-	// 在当前正在渲染的 FiberNode 上打上 PassiveEffect
-	(currentlyRenderingFiber as FiberNode).flags |= PassiveEffect;
+	(currentlyRenderingFiber as FiberNode).flags |= MaterializedTreeId;
+	hook.memoizedState = id;
+	return id;
+}
 
-	// 创建并存储 Effect 对象
-	hook.memoizedState = pushEffect(
+/**
+ * @function updateId
+ * @description `useId` Hook 在组件更新阶段的实现，直接返回挂载时生成的 id。
+ * @returns {string} 挂载时生成的 id。
+ */
+function updateId(): string {
+	const hook = updateWorkInProgressHook('Id');
+	return hook.memoizedState;
+}
+
+/**
+ * @function mountSyncExternalStore
+ * @description `useSyncExternalStore` Hook 在组件首次挂载时的实现。
+ *              1. 调用 `getSnapshot` 读取当前快照，保存在 `hook.memoizedState` 中。
+ *              2. 如果是并发渲染 (非 `SyncLane`)，记录一次一致性检查，
+ *                 渲染完成后由 `workLoop` 检查 store 是否在 render 期间被修改 (撕裂)。
+ *              3. 在 passive effect 中订阅 store，并在提交后更新 `StoreInstance`，
+ *                 如果在 render 与订阅之间 store 发生了变化，会强制同步重新渲染。
+ *              本实现没有服务端渲染与 hydration，`getServerSnapshot` 不会被使用。
+ * @param subscribe 订阅 store 的函数，接收一个回调，返回取消订阅的函数
+ * @param getSnapshot 读取 store 当前快照的函数，store 未变化时必须返回相同的值
+ * @param getServerSnapshot (可选) 服务端渲染与 hydration 时使用的快照
+ * @returns 当前快照
+ */
+function mountSyncExternalStore<T>(
+	subscribe: (onStoreChange: () => void) => () => void,
+	getSnapshot: () => T,
+	getServerSnapshot?: () => T
+): T {
+	const fiber = currentlyRenderingFiber as FiberNode;
+	const hook = mountWorkInProgressHook('SyncExternalStore');
+
+	const nextSnapshot = getSnapshot();
+	if (__DEV__) {
+		if (!Object.is(nextSnapshot, getSnapshot())) {
+			console.error('getSnapshot的返回值应该被缓存，否则会导致无限循环');
+		}
+	}
+	if (renderLane !== SyncLane) {
+		pushStoreConsistencyCheck(fiber, getSnapshot, nextSnapshot);
+	}
+	hook.memoizedState = nextSnapshot;
+
+	const inst: StoreInstance<T> = {
+		value: nextSnapshot,
+		getSnapshot
+	};
+	hook.updateQueue = inst;
+
+	// 在passive effect中订阅store
+	mountEffect(subscribeToStore.bind(null, fiber, inst, subscribe), [subscribe]);
+
+	// 提交后更新inst，并检查render之后store是否变化
+	fiber.flags |= PassiveEffect;
+	pushEffect(
 		Passive | HookHasEffect,
-		create,
+		updateStoreInstance.bind(null, fiber, inst, nextSnapshot, getSnapshot),
 		undefined,
-		nextDeps
+		null
 	);
+	return nextSnapshot;
+}
+
+/**
+ * @function updateSyncExternalStore
+ * @description `useSyncExternalStore` Hook 在组件更新阶段的实现。
+ *              重新读取快照，如果与上一次不同则标记组件接收到了更新；
+ *              `subscribe` 变化时重新订阅，快照或 `getSnapshot` 变化时在提交后更新 `StoreInstance`。
+ * @param subscribe 订阅 store 的函数
+ * @param getSnapshot 读取 store 当前快照的函数
+ * @param getServerSnapshot (可选) 服务端渲染与 hydration 时使用的快照
+ * @returns 当前快照
+ */
+function updateSyncExternalStore<T>(
+	subscribe: (onStoreChange: () => void) => () => void,
+	getSnapshot: () => T,
+	getServerSnapshot?: () => T
+): T {
+	const fiber = currentlyRenderingFiber as FiberNode;
+	const hook = updateWorkInProgressHook('SyncExternalStore');
+
+	const nextSnapshot = getSnapshot();
+	if (__DEV__) {
+		if (!Object.is(nextSnapshot, getSnapshot())) {
+			console.error('getSnapshot的返回值应该被缓存，否则会导致无限循环');
+		}
+	}
+	const prevSnapshot = hook.memoizedState;
+	const snapshotChanged = !Object.is(prevSnapshot, nextSnapshot);
+	if (snapshotChanged) {
+		hook.memoizedState = nextSnapshot;
+		markWipReceivedUpdate();
+	}
+	const inst = hook.updateQueue as StoreInstance<T>;
+
+	updateEffect(subscribeToStore.bind(null, fiber, inst, subscribe), [
+		subscribe
+	]);
+
+	if (inst.getSnapshot !== getSnapshot || snapshotChanged) {
+		fiber.flags |= PassiveEffect;
+		pushEffect(
+			Passive | HookHasEffect,
+			updateStoreInstance.bind(null, fiber, inst, nextSnapshot, getSnapshot),
+			undefined,
+			null
+		);
+		if (renderLane !== SyncLane) {
+			pushStoreConsistencyCheck(fiber, getSnapshot, nextSnapshot);
+		}
+	}
+	return nextSnapshot;
+}
+
+/**
+ * @function pushStoreConsistencyCheck
+ * @description 在 fiber 的 updateQueue 上记录一次 store 一致性检查，并打上 `StoreConsistency` 标记。
+ * @param fiber 读取 store 的 fiber
+ * @param getSnapshot 读取最新快照的函数
+ * @param renderedSnapshot render 时读取到的快照
+ */
+function pushStoreConsistencyCheck<T>(
+	fiber: FiberNode,
+	getSnapshot: () => T,
+	renderedSnapshot: T
+) {
+	fiber.flags |= StoreConsistency;
+	const check: StoreConsistencyCheck<T> = {
+		getSnapshot,
+		value: renderedSnapshot
+	};
+	let updateQueue = fiber.updateQueue as FCUpdateQueue<any> | null;
+	if (updateQueue === null) {
+		updateQueue = createFCUpdateQueue();
+		fiber.updateQueue = updateQueue;
+		updateQueue.stores = [check];
+	} else if (updateQueue.stores === null) {
+		updateQueue.stores = [check];
+	} else {
+		updateQueue.stores.push(check);
+	}
+}
+
+/**
+ * @function updateStoreInstance
+ * @description 提交后执行的 passive effect：记录本次提交的快照，
+ *              如果 render 之后 store 又发生了变化，则强制同步重新渲染。
+ */
+function updateStoreInstance<T>(
+	fiber: FiberNode,
+	inst: StoreInstance<T>,
+	nextSnapshot: T,
+	getSnapshot: () => T
+) {
+	inst.value = nextSnapshot;
+	inst.getSnapshot = getSnapshot;
+
+	if (checkIfSnapshotChanged(inst)) {
+		forceStoreRerender(fiber);
+	}
+}
+
+/**
+ * @function subscribeToStore
+ * @description 订阅 store 的 passive effect，返回的取消订阅函数作为 destroy。
+ */
+function subscribeToStore<T>(
+	fiber: FiberNode,
+	inst: StoreInstance<T>,
+	subscribe: (onStoreChange: () => void) => () => void
+) {
+	const handleStoreChange = () => {
+		if (checkIfSnapshotChanged(inst)) {
+			forceStoreRerender(fiber);
+		}
+	};
+	return subscribe(handleStoreChange);
+}
+
+/**
+ * @function checkIfSnapshotChanged
+ * @description 比较 store 的最新快照与最近一次提交的快照，`getSnapshot` 抛错时也视为变化。
+ */
+function checkIfSnapshotChanged<T>(inst: StoreInstance<T>): boolean {
+	const latestGetSnapshot = inst.getSnapshot;
+	const prevValue = inst.value;
+	try {
+		const nextValue = latestGetSnapshot();
+		return !Object.is(prevValue, nextValue);
+	} catch {
+		return true;
+	}
+}
+
+/**
+ * @function forceStoreRerender
+ * @description store 变化时以 `SyncLane` 同步重新渲染 fiber，外部 store 的更新不能被时间切片打断。
+ */
+function forceStoreRerender(fiber: FiberNode) {
+	fiber.lanes = mergeLanes(fiber.lanes, SyncLane);
+	const alternate = fiber.alternate;
+	if (alternate !== null) {
+		alternate.lanes = mergeLanes(alternate.lanes, SyncLane);
+	}
+	scheduleUpdateOnFiber(fiber, SyncLane);
+}
+
+/**
+ * @description useEffect Hook 在组件首次挂载时的实现
+ * @param create 用户传入的 useEffect 的第一个参数，即副作用的创建函数
+ * @param deps 用户传入的 useEffect 的第二个参数，即依赖项数组 (可选)
+ */
+function mountEffect(create: EffectCallback | void, deps: HookDeps | void) {
+	mountEffectImpl('Effect', PassiveEffect, Passive, create, deps);
 }
 
 /**
@@ -219,7 +867,254 @@ function mountEffect(create: EffectCallback | void, deps: HookDeps | void) {
  * @param {EffectDeps | void} deps - 用户传入的 `useEffect` 的第二个参数，即依赖项数组 (可选)。
  */
 function updateEffect(create: EffectCallback | void, deps: HookDeps | void) {
-	const hook = updateWorkInProgressHook();
+	updateEffectImpl('Effect', PassiveEffect, Passive, create, deps);
+}
+
+/**
+ * @description useLayoutEffect Hook 在组件首次挂载时的实现。
+ *              create 会在 commit 的 layout 子阶段同步执行 (DOM 变更之后、浏览器绘制之前)。
+ * @param create 副作用的创建函数
+ * @param deps 依赖项数组 (可选)
+ */
+function mountLayoutEffect(
+	create: EffectCallback | void,
+	deps: HookDeps | void
+) {
+	mountEffectImpl('LayoutEffect', LayoutEffect, Layout, create, deps);
+}
+
+/**
+ * @description useLayoutEffect Hook 在组件更新阶段的实现。
+ *              依赖变化时，旧的 destroy 在 mutation 子阶段执行，新的 create 在 layout 子阶段执行。
+ * @param create 副作用的创建函数
+ * @param deps 依赖项数组 (可选)
+ */
+function updateLayoutEffect(
+	create: EffectCallback | void,
+	deps: HookDeps | void
+) {
+	updateEffectImpl('LayoutEffect', LayoutEffect, Layout, create, deps);
+}
+
+/**
+ * @description useInsertionEffect Hook 在组件首次挂载时的实现。
+ *              create/destroy 都在 mutation 子阶段、当前 fiber 的 DOM 操作之前执行，
+ *              主要用于 CSS-in-JS 库在布局读取之前注入样式。
+ * @param create 副作用的创建函数
+ * @param deps 依赖项数组 (可选)
+ */
+function mountInsertionEffect(
+	create: EffectCallback | void,
+	deps: HookDeps | void
+) {
+	mountEffectImpl('InsertionEffect', InsertionEffect, Insertion, create, deps);
+}
+
+/**
+ * @description useInsertionEffect Hook 在组件更新阶段的实现。
+ * @param create 副作用的创建函数
+ * @param deps 依赖项数组 (可选)
+ */
+function updateInsertionEffect(
+	create: EffectCallback | void,
+	deps: HookDeps | void
+) {
+	updateEffectImpl('InsertionEffect', InsertionEffect, Insertion, create, deps);
+}
+
+/**
+ * @description useImperativeHandle Hook 在组件首次挂载时的实现。
+ *              本质上是一个 useLayoutEffect：在 layout 子阶段把 `create()` 的返回值绑定到 ref 上，
+ *              在 destroy 时 (依赖变化或组件卸载) 把 ref 重置为 `null`。
+ * @param ref 父组件通过 forwardRef 传入的 ref
+ * @param create 返回需要暴露给父组件的实例值
+ * @param deps 依赖项数组 (可选)，ref 本身会被追加到依赖中
+ */
+function mountImperativeHandle<T>(
+	ref: Ref | null | undefined,
+	create: () => T,
+	deps: HookDeps | void
+) {
+	checkDepsAreArrayInDev('ImperativeHandle', deps);
+	const effectDeps = Array.isArray(deps) ? deps.concat([ref]) : null;
+	mountEffectImpl(
+		'ImperativeHandle',
+		LayoutEffect,
+		Layout,
+		imperativeHandleEffect.bind(null, create, ref),
+		effectDeps
+	);
+}
+
+/**
+ * @description useImperativeHandle Hook 在组件更新阶段的实现。
+ * @param ref 父组件通过 forwardRef 传入的 ref
+ * @param create 返回需要暴露给父组件的实例值
+ * @param deps 依赖项数组 (可选)，ref 本身会被追加到依赖中
+ */
+function updateImperativeHandle<T>(
+	ref: Ref | null | undefined,
+	create: () => T,
+	deps: HookDeps | void
+) {
+	checkDepsAreArrayInDev('ImperativeHandle', deps);
+	const effectDeps = Array.isArray(deps) ? deps.concat([ref]) : null;
+	updateEffectImpl(
+		'ImperativeHandle',
+		LayoutEffect,
+		Layout,
+		imperativeHandleEffect.bind(null, create, ref),
+		effectDeps
+	);
+}
+
+/**
+ * @function imperativeHandleEffect
+ * @description useImperativeHandle 对应的 layout effect 的 create 函数。
+ *              - 函数 ref：调用 `ref(instance)`，destroy 时调用 `ref(null)`。
+ *              - 对象 ref：设置 `ref.current = instance`，destroy 时重置为 `null`。
+ * @param create 返回需要暴露的实例值
+ * @param ref 需要绑定的 ref
+ * @returns 用于解绑 ref 的 destroy 函数
+ */
+function imperativeHandleEffect<T>(
+	create: () => T,
+	ref: Ref | null | undefined
+): EffectCallback | void {
+	if (typeof ref === 'function') {
+		const instance = create();
+		ref(instance);
+		return () => {
+			ref(null);
+		};
+	} else if (ref !== null && ref !== undefined) {
+		const instance = create();
+		ref.current = instance;
+		return () => {
+			ref.current = null;
+		};
+	}
+}
+
+/**
+ * @description useEffectEvent 返回的稳定函数集合，`areHookInputsEqual` 比较依赖时会跳过它们。
+ */
+const effectEventFunctions = new WeakSet<AnyFunction>();
+
+/**
+ * @function mountEvent
+ * @description `useEffectEvent` Hook 在组件首次挂载时的实现。
+ *              返回一个引用稳定的函数，调用时总是执行最近一次提交的 `callback`，
+ *              因此 effect 内部可以读取最新的 props / state，而无需把它们放进依赖项。
+ * @param callback 需要包装的回调
+ * @returns 稳定的事件函数
+ */
+function mountEvent<F extends AnyFunction>(callback: F): F {
+	const hook = mountWorkInProgressHook('EffectEvent');
+	const ref = { impl: callback };
+	hook.memoizedState = ref;
+
+	const eventFn = function (this: unknown, ...args: Parameters<F>) {
+		if (currentlyRenderingFiber !== null) {
+			throw new Error('useEffectEvent 返回的函数不能在 render 阶段调用');
+		}
+		return ref.impl.apply(this, args);
+	} as F;
+	effectEventFunctions.add(eventFn);
+	hook.updateQueue = eventFn;
+	return eventFn;
+}
+
+/**
+ * @function updateEvent
+ * @description `useEffectEvent` Hook 在更新阶段的实现。
+ *              不直接修改 `ref.impl`（render 可能被丢弃），而是记录到 updateQueue.events，
+ *              在 commit 的 mutation 子阶段替换，保证 layout / passive effect 执行时读到的是最新回调。
+ * @param callback 本次 render 传入的回调
+ * @returns 与挂载时相同的事件函数
+ */
+function updateEvent<F extends AnyFunction>(callback: F): F {
+	const hook = updateWorkInProgressHook('EffectEvent');
+	const ref = hook.memoizedState as { impl: F };
+	useEffectEventImpl({ ref, nextImpl: callback });
+	return hook.updateQueue as F;
+}
+
+/**
+ * @function useEffectEventImpl
+ * @description 记录一次 useEffectEvent 回调的替换，并为 fiber 打上 `Update` 标记，
+ *              使 commit 阶段会访问到这个 fiber。
+ */
+function useEffectEventImpl<F extends AnyFunction>(
+	payload: EventFunctionPayload<F>
+) {
+	const fiber = currentlyRenderingFiber as FiberNode;
+	fiber.flags |= UpdateFlag;
+	let updateQueue = fiber.updateQueue as FCUpdateQueue<any> | null;
+	if (updateQueue === null) {
+		updateQueue = createFCUpdateQueue();
+		fiber.updateQueue = updateQueue;
+		updateQueue.events = [payload];
+	} else if (updateQueue.events === null) {
+		updateQueue.events = [payload];
+	} else {
+		updateQueue.events.push(payload);
+	}
+}
+
+/**
+ * @function mountEffectImpl
+ * @description 各类 effect Hook 在首次挂载时的通用实现。
+ *              在当前 FiberNode 上打上 `fiberFlags`，并创建一个带有 `hookFlags | HookHasEffect` 标记的 Effect。
+ * @param {HookType} hookType - 记录在 Hook 上的类型。
+ * @param {Flags} fiberFlags - 打在 FiberNode 上的标记 (PassiveEffect / LayoutEffect / InsertionEffect)。
+ * @param {Flags} hookFlags - 打在 Effect 上的标记 (Passive / Layout / Insertion)。
+ * @param {EffectCallback | void} create - 副作用的创建函数。
+ * @param {HookDeps | void} deps - 依赖项数组 (可选)。
+ */
+function mountEffectImpl(
+	hookType: HookType,
+	fiberFlags: Flags,
+	hookFlags: Flags,
+	create: EffectCallback | void,
+	deps: HookDeps | void
+) {
+	checkDepsAreArrayInDev(hookType, deps);
+	// 获取这次 effect Hook 调用的 Hook 对象
+	const hook = mountWorkInProgressHook(hookType);
+	const nextDeps = deps === undefined ? null : deps;
+
+	// 在当前正在渲染的 FiberNode 上打上对应的 flag
+	(currentlyRenderingFiber as FiberNode).flags |= fiberFlags;
+
+	// 创建并存储 Effect 对象
+	hook.memoizedState = pushEffect(
+		hookFlags | HookHasEffect,
+		create,
+		undefined,
+		nextDeps
+	);
+}
+
+/**
+ * @function updateEffectImpl
+ * @description 各类 effect Hook 在更新阶段的通用实现。
+ *              依赖项未变化时只保留 Effect (不带 `HookHasEffect`)；
+ *              变化时在 FiberNode 上打上 `fiberFlags`，并创建带有 `HookHasEffect` 的 Effect。
+ * @param {Flags} fiberFlags - 打在 FiberNode 上的标记。
+ * @param {Flags} hookFlags - 打在 Effect 上的标记。
+ * @param {EffectCallback | void} create - 副作用的创建函数。
+ * @param {HookDeps | void} deps - 依赖项数组 (可选)。
+ */
+function updateEffectImpl(
+	hookType: HookType,
+	fiberFlags: Flags,
+	hookFlags: Flags,
+	create: EffectCallback | void,
+	deps: HookDeps | void
+) {
+	checkDepsAreArrayInDev(hookType, deps);
+	const hook = updateWorkInProgressHook(hookType);
 	const nextDeps = deps === undefined ? null : deps;
 	let destroy: EffectCallback | void;
 
@@ -230,15 +1125,15 @@ function updateEffect(create: EffectCallback | void, deps: HookDeps | void) {
 		if (nextDeps !== null) {
 			// 浅比较依赖
 			const prevDeps = prevEffect.deps;
-			if (areHookInputsEqual(nextDeps, prevDeps)) {
-				hook.memoizedState = pushEffect(Passive, create, destroy, nextDeps);
+			if (areHookInputsEqual(hookType, nextDeps, prevDeps)) {
+				hook.memoizedState = pushEffect(hookFlags, create, destroy, nextDeps);
 				return;
 			}
 		}
 		// 浅比较 不相等
-		(currentlyRenderingFiber as FiberNode).flags |= PassiveEffect;
+		(currentlyRenderingFiber as FiberNode).flags |= fiberFlags;
 		hook.memoizedState = pushEffect(
-			Passive | HookHasEffect,
+			hookFlags | HookHasEffect,
 			create,
 			destroy,
 			nextDeps
@@ -246,18 +1141,52 @@ function updateEffect(create: EffectCallback | void, deps: HookDeps | void) {
 	}
 }
 
+/**
+ * @function stringifyDeps
+ * @description DEV 警告中展示依赖数组。Symbol、没有原型的对象等无法直接转为字符串，此时展示它们的类型。
+ */
+function stringifyDeps(deps: unknown[]): string {
+	return deps
+		.map((dep) => {
+			try {
+				return String(dep);
+			} catch {
+				return typeof dep;
+			}
+		})
+		.join(', ');
+}
+
 /**
  * @function areHookInputsEqual
  * @description 浅比较两个依赖项数组 (`EffectDeps`) 是否相等。
+ * @param {HookType} hookType - 调用方的 Hook 类型，用于 DEV 下的警告。
  * @param {EffectDeps} nextDeps - 新的依赖项数组。`EffectDeps` 类型通常是 `any[] | null`。
  * @param {EffectDeps} prevDeps - 上一次渲染时的依赖项数组。
  * @returns {boolean} 如果两个依赖项数组被认为是相等的，则返回 `true`；否则返回 `false`。
  */
-function areHookInputsEqual(nextDeps: HookDeps, prevDeps: HookDeps) {
+function areHookInputsEqual(
+	hookType: HookType,
+	nextDeps: HookDeps,
+	prevDeps: HookDeps
+) {
 	if (prevDeps === null || nextDeps === null) {
 		return false;
 	}
+	if (__DEV__) {
+		if (prevDeps.length !== nextDeps.length) {
+			console.error(
+				`${getHookName(hookType)} 的依赖数组长度在两次render之间发生了变化，依赖数组的长度应该保持不变。\n\n` +
+					`上次: [${stringifyDeps(prevDeps)}]\n` +
+					`本次: [${stringifyDeps(nextDeps)}]`
+			);
+		}
+	}
 	for (let i = 0; i < prevDeps.length && i < nextDeps.length; i++) {
+		// useEffectEvent 返回的函数不是响应式的值，不参与比较
+		if (effectEventFunctions.has(nextDeps[i])) {
+			continue;
+		}
 		if (Object.is(prevDeps[i], nextDeps[i])) {
 			continue;
 		}
@@ -317,15 +1246,40 @@ function pushEffect(
 function createFCUpdateQueue<State>() {
 	const updateQueue = createUpdateQueue<State>() as FCUpdateQueue<State>;
 	updateQueue.lastEffect = null;
+	updateQueue.lastRenderedReducer = null;
+	updateQueue.stores = null;
+	updateQueue.events = null;
+	updateQueue.memoCache = null;
 	return updateQueue;
 }
 
 /**
  * @function updateState
  * @description `useState` Hook 在组件更新阶段的实现。
- *              当一个已挂载的组件因状态变化或其他原因重新渲染时，其内部的 `useState` 调用会执行此函数。
+ *              `useState` 等价于以 `basicStateReducer` 作为 reducer 的 `useReducer`，
+ *              因此直接复用 `updateReducer` 的逻辑。
+ * @template State - 状态的类型。
+ * @returns {[State, Dispatch<State>]} 返回最新的状态值和对应的 dispatch 函数 (即 `setState`)。
+ * @see {@link updateReducer}
+ */
+function updateState<State>(): [State, Dispatch<State>] {
+	const hook = updateWorkInProgressHook('State');
+	if (numberOfReRenders > 0) {
+		return rerenderReducerImpl<State, Action<State>>(hook, basicStateReducer);
+	}
+	return updateReducerImpl<State, Action<State>>(
+		hook,
+		currentHook as Hook,
+		basicStateReducer
+	);
+}
+
+/**
+ * @function updateReducer
+ * @description `useReducer` Hook 在组件更新阶段的实现。
+ *              当一个已挂载的组件因状态变化或其他原因重新渲染时，其内部的 `useReducer`/`useState` 调用会执行此函数。
  *              主要流程：
- *              1. **获取当前 Hook**: 调用 `updateWorkInProgressHook` 来获取或创建与当前 `useState` 调用对应的
+ *              1. **获取当前 Hook**: 调用 `updateWorkInProgressHook` 来获取或创建与当前调用对应的
  *                 work-in-progress Hook 对象，并从 `currentHook` (上一次渲染的 Hook) 继承状态和队列信息。
  *              2. **处理更新队列**:
  *                 - 获取当前 Hook 的 `updateQueue`、`baseState` (上一次计算完成的基础状态)。
@@ -334,7 +1288,7 @@ function createFCUpdateQueue<State>() {
  *                 - 如果存在新的 `pending` 更新，将其与 `baseQueue` 合并，形成一个完整的待处理更新链表。
  *                   这个合并后的链表会存储在 `currentHook.baseQueue` 中，以备后续可能的 bailout 或重用。
  *              3. **计算新状态**: 如果存在待处理的更新链表 (`baseQueue`)：
- *                 - 调用 `processUpdateQueue`，传入 `baseState`、`baseQueue` 和当前的 `renderLane`。
+ *                 - 调用 `processUpdateQueue`，传入 `baseState`、`baseQueue`、当前的 `renderLane` 以及本次的 `reducer`。
  *                 - `processUpdateQueue` 会遍历更新链表，只应用那些优先级与 `renderLane` 匹配的更新，
  *                   计算出新的 `memoizedState`。
  *                 - 任何因优先级不足而被跳过的更新，会被 `processUpdateQueue` 重新组织成一个新的 `baseQueue`，
@@ -343,17 +1297,79 @@ function createFCUpdateQueue<State>() {
  *                   则调用 `markWipReceivedUpdate` 标记当前 Fiber 节点接收到了更新。
  *              4. **更新 Hook 状态**: 将计算得到的 `memoizedState`、`baseState` 和 `baseQueue`
  *                 存储回当前的 work-in-progress Hook 对象。
- *              5. **记录渲染状态**: 将最终的 `memoizedState` 存储到 `updateQueue.lastRenderedState`，
- *                 供下一次 eager state 优化或 `dispatchSetState` 使用。
+ *              5. **记录渲染状态**: 将最终的 `memoizedState` 和本次使用的 `reducer` 分别存储到
+ *                 `updateQueue.lastRenderedState`、`updateQueue.lastRenderedReducer`，
+ *                 供下一次 `dispatchSetState` 的 eager state 优化使用。
  * @template State - 状态的类型。
- * @returns {[State, Dispatch<State>]} 返回一个包含两个元素的数组：
+ * @template I - 初始参数的类型 (更新阶段不使用)。
+ * @template A - action 的类型。
+ * @param {Reducer<State, A>} reducer - 本次渲染传入的 reducer。
+ * @returns {[State, (action: A) => void]} 返回一个包含两个元素的数组：
  *          - `memoizedState` (State): 当前 Hook 计算得出的最新状态值。
- *          - `dispatch` (Dispatch<State>): 与此状态关联的 dispatch 函数 (即 `setState`)。
+ *          - `dispatch`: 与此状态关联的 dispatch 函数。
  */
-function updateState<State>(): [State, Dispatch<State>] {
-	// 找到当前useState对应的hook数据
-	const hook = updateWorkInProgressHook();
+function updateReducer<State, I, A>(
+	reducer: Reducer<State, A>
+): [State, (action: A) => void] {
+	// 找到当前useReducer对应的hook数据
+	const hook = updateWorkInProgressHook('Reducer');
+	if (numberOfReRenders > 0) {
+		return rerenderReducerImpl(hook, reducer);
+	}
+	return updateReducerImpl(hook, currentHook as Hook, reducer);
+}
 
+/**
+ * @function rerenderReducerImpl
+ * @description render 阶段更新导致组件重新执行时 `useReducer` / `useState` 的实现。
+ *              hook 复用了上一次执行的结果，普通的更新已经处理过，
+ *              这里只需要在 `memoizedState` 上依次应用 render 阶段产生的更新。
+ * @param hook 复用的 work-in-progress hook
+ * @param reducer 本次执行传入的 reducer
+ */
+function rerenderReducerImpl<State, A>(
+	hook: Hook,
+	reducer: Reducer<State, A>
+): [State, (action: A) => void] {
+	const queue = hook.updateQueue as FCUpdateQueue<State>;
+	queue.lastRenderedReducer = reducer;
+
+	const lastRenderPhaseUpdate = queue.shared.pending;
+	let newState: State = hook.memoizedState;
+	if (lastRenderPhaseUpdate !== null) {
+		queue.shared.pending = null;
+		const firstRenderPhaseUpdate = lastRenderPhaseUpdate.next as Update<State>;
+		let update = firstRenderPhaseUpdate;
+		do {
+			newState = reducer(newState, update.action as A);
+			update = update.next as Update<State>;
+		} while (update !== firstRenderPhaseUpdate);
+
+		if (!Object.is(newState, hook.memoizedState)) {
+			markWipReceivedUpdate();
+		}
+		hook.memoizedState = newState;
+		// 没有被跳过的更新时，baseState 与 memoizedState 保持一致
+		if (hook.baseQueue === null) {
+			hook.baseState = newState;
+		}
+		queue.lastRenderedState = newState;
+	}
+	return [newState, queue.dispatch as (action: A) => void];
+}
+
+/**
+ * @function updateReducerImpl
+ * @description `updateReducer` 的计算部分，`useOptimistic` 在设置了新的 `baseState` 之后复用它。
+ * @param hook 本次渲染的 work-in-progress hook
+ * @param current 上一次渲染对应的 hook
+ * @param reducer 本次渲染传入的 reducer
+ */
+function updateReducerImpl<State, A>(
+	hook: Hook,
+	current: Hook,
+	reducer: Reducer<State, A>
+): [State, (action: A) => void] {
 	// 计算新state的逻辑
 	const queue = hook.updateQueue as FCUpdateQueue<State>;
 
@@ -361,7 +1377,6 @@ function updateState<State>(): [State, Dispatch<State>] {
 	const pending = queue.shared.pending;
 	queue.shared.pending = null;
 
-	const current = currentHook as Hook;
 	let baseQueue = current.baseQueue;
 
 	if (pending !== null) {
@@ -390,12 +1405,18 @@ function updateState<State>(): [State, Dispatch<State>] {
 			memoizedState,
 			baseQueue: newBaseQueue,
 			baseState: newBaseState
-		} = processUpdateQueue(baseState, baseQueue, renderLane, (update) => {
-			const skippedLane = update.lane;
-			const fiber = currentlyRenderingFiber as FiberNode;
-			// NoLanes
-			fiber.lanes = mergeLanes(fiber.lanes, skippedLane);
-		});
+		} = processUpdateQueue(
+			baseState,
+			baseQueue,
+			renderLane,
+			(update) => {
+				const skippedLane = update.lane;
+				const fiber = currentlyRenderingFiber as FiberNode;
+				// NoLanes
+				fiber.lanes = mergeLanes(fiber.lanes, skippedLane);
+			},
+			reducer
+		);
 
 		// NaN === NaN // false
 		// Object.is true
@@ -410,9 +1431,14 @@ function updateState<State>(): [State, Dispatch<State>] {
 		hook.baseQueue = newBaseQueue;
 
 		queue.lastRenderedState = memoizedState;
+	} else {
+		// 没有待处理的更新时 memoizedState 与 baseState 一致，
+		// 只有 useOptimistic 每次渲染都会传入新的 baseState
+		hook.memoizedState = baseState;
 	}
+	queue.lastRenderedReducer = reducer;
 
-	return [hook.memoizedState, queue.dispatch as Dispatch<State>];
+	return [hook.memoizedState, queue.dispatch as (action: A) => void];
 }
 
 /**
@@ -424,11 +1450,10 @@ function updateState<State>(): [State, Dispatch<State>] {
  * 	* 错误检测
  * * 什么时候触发：
  * 	* 交互阶段 onClick
- * 	* render阶段 （TODO）
+ * 	* render阶段的更新导致组件重新执行 (renderWithHooksAgain)
  * @returns
  */
-function updateWorkInProgressHook(): Hook {
-	// TODO render阶段触发的更新 (这个注释可能指未来需要处理在渲染阶段直接触发更新的复杂情况)
+function updateWorkInProgressHook(type: HookType): Hook {
 	let nextCurrentHook: Hook | null; // 用来存储从上一次渲染的 Hook 链表中找到的、与当前 Hook 调用对应的那个 Hook 对象
 
 	// 1. 确定当前应该处理哪个 "current" Hook (来自上一次渲染的 Hook)
@@ -460,6 +1485,25 @@ function updateWorkInProgressHook(): Hook {
 		nextCurrentHook = currentHook.next; // 移动到上一次渲染的 Hook 链表中的下一个 Hook 对象。
 	}
 
+	// render 阶段更新导致的重新执行：复用上一次执行创建的 work-in-progress Hook，
+	// 保留其中的状态和 render 阶段的更新 (首次挂载时没有 current Hook)
+	const nextWorkInProgressHook =
+		workInProgressHook === null
+			? (currentlyRenderingFiber as FiberNode).memoizedState
+			: workInProgressHook.next;
+	if (nextWorkInProgressHook !== null) {
+		if (__DEV__ && (nextWorkInProgressHook as Hook).type !== type) {
+			warnOnHookMismatchInDev(
+				(currentlyRenderingFiber as FiberNode).memoizedState,
+				nextWorkInProgressHook as Hook,
+				type
+			);
+		}
+		workInProgressHook = nextWorkInProgressHook as Hook;
+		currentHook = nextCurrentHook;
+		return workInProgressHook;
+	}
+
 	// 2. 检查 Hook 调用顺序是否一致
 	if (nextCurrentHook === null) {
 		// 如果 `nextCurrentHook` 为 `null`，意味着：
@@ -471,12 +1515,22 @@ function updateWorkInProgressHook(): Hook {
 		);
 	}
 
+	if (__DEV__ && (nextCurrentHook as Hook).type !== type) {
+		warnOnHookMismatchInDev(
+			((currentlyRenderingFiber as FiberNode).alternate as FiberNode)
+				.memoizedState,
+			nextCurrentHook as Hook,
+			type
+		);
+	}
+
 	// 3. 更新 currentHook 指针，并创建新的 work-in-progress Hook
 	currentHook = nextCurrentHook as Hook; // 将 `currentHook` 指向从旧链表中找到的当前 Hook。
 	// 现在 `currentHook` 是新 Hook 的数据来源。
 
 	const newHook: Hook = {
 		// 创建一个新的 Hook 对象，用于本次渲染 (work-in-progress tree)
+		type: currentHook.type,
 		memoizedState: currentHook.memoizedState, // 复制上一次渲染的状态值
 		updateQueue: currentHook.updateQueue, // 复制上一次渲染的更新队列引用
 		next: null, // next 指针暂时为 null，如果后面还有 Hook，会被连接上
@@ -506,41 +1560,63 @@ function updateWorkInProgressHook(): Hook {
 /**
  * @function mountState
  * @description `useState` Hook 在组件首次挂载 (mount) 阶段的实现。
- *              它负责：
- *              1. **创建 Hook 对象**: 调用 `mountWorkInProgressHook` 来为当前的 `useState` 调用
- *                 创建一个新的 Hook 对象，并将其链接到当前 Fiber 节点的 Hook 链表中。
- *              2. **初始化状态**:
- *                 - 如果 `initialState` 是一个函数，则调用该函数以获取初始状态值（惰性初始化）。
- *                 - 否则，直接使用 `initialState` 作为初始状态值。
- *              3. **创建更新队列**: 为此 Hook 创建一个新的 `FCUpdateQueue` (函数组件更新队列)。
- *              4. **存储状态和队列**: 将计算出的初始状态 (`memoizedState`) 和创建的更新队列
- *                 存储到新创建的 Hook 对象中。`baseState` 也被初始化为 `memoizedState`。
- *              5. **创建 Dispatch 函数**: 创建一个与此状态和队列绑定的 `dispatchSetState` 函数
- *                 (即用户调用的 `setState` 函数)。
- *              6. **关联 Dispatch**: 将创建的 `dispatch` 函数存储到更新队列的 `dispatch` 属性上。
- *              7. **记录渲染状态**: 将初始状态存储到更新队列的 `lastRenderedState` 属性，
- *                 供后续的 eager state 优化使用。
+ *              `useState` 等价于以 `basicStateReducer` 作为 reducer 的 `useReducer`：
+ *              - 如果 `initialState` 是一个函数，则调用该函数以获取初始状态值（惰性初始化）。
+ *              - 否则，直接使用 `initialState` 作为初始状态值。
+ *              其余的 Hook 创建、更新队列与 dispatch 的初始化都交给 `mountReducer` 完成。
  * @template State - 状态的类型。
  * @param {(() => State) | State} initialState - 初始状态值，或者一个返回初始状态值的函数。
  * @returns {[State, Dispatch<State>]} 返回一个包含两个元素的数组：初始状态值和用于更新该状态的 dispatch 函数。
+ * @see {@link mountReducer}
  */
 function mountState<State>(
 	initialState: (() => State) | State // 初始状态值，或者一个计算初始状态的函数
 ): [State, Dispatch<State>] {
-	// 1. 获取或创建专属于这次 useState 调用的 Hook 对象。
-	//    `mountWorkInProgressHook` 函数会确保我们为这个组件的 Hook 链表
-	//    准备好一个“坑位”（一个 Hook 对象）。这个“坑位”会用来存放
-	//    *当前这次* useState 调用所需的状态和更新队列。
-	const hook = mountWorkInProgressHook();
-
-	let memoizedState;
-	if (initialState instanceof Function) {
-		// 如果 `initialState` 是一个函数 (比如 useState(() => computeExpensiveValue()))，
-		// 就调用它来获取真正的初始状态。这是为了实现“惰性初始化”。
-		memoizedState = initialState();
+	const result = mountReducer<State, (() => State) | State, Action<State>>(
+		basicStateReducer,
+		initialState,
+		// 惰性初始化 useState(() => computeExpensiveValue())
+		(initialArg) => (initialArg instanceof Function ? initialArg() : initialArg)
+	);
+	// mountReducer 创建的 Hook 就是当前的 workInProgressHook
+	(workInProgressHook as Hook).type = 'State';
+	return result;
+}
+
+/**
+ * @function mountReducer
+ * @description `useReducer` Hook 在组件首次挂载 (mount) 阶段的实现。
+ *              它负责：
+ *              1. **创建 Hook 对象**: 调用 `mountWorkInProgressHook` 为当前调用创建一个新的 Hook 对象，
+ *                 并将其链接到当前 Fiber 节点的 Hook 链表中。
+ *              2. **初始化状态**: 如果提供了 `init`，则初始状态为 `init(initialArg)`，否则为 `initialArg`。
+ *              3. **创建更新队列**: 为此 Hook 创建一个新的 `FCUpdateQueue`，并存入 Hook 的 `updateQueue`。
+ *                 `memoizedState` 与 `baseState` 都被初始化为初始状态。
+ *              4. **创建 Dispatch 函数**: 创建一个与此 Fiber 和队列绑定的 `dispatchSetState` 函数，
+ *                 并存储到更新队列的 `dispatch` 属性上。
+ *              5. **记录渲染状态**: 将初始状态与 `reducer` 分别记录到 `lastRenderedState`、`lastRenderedReducer`，
+ *                 供后续的 eager state 优化使用。
+ * @template State - 状态的类型。
+ * @template I - 初始参数的类型。
+ * @template A - action 的类型。
+ * @param {Reducer<State, A>} reducer - 根据当前状态和 action 计算新状态的函数。
+ * @param {I} initialArg - 初始参数。
+ * @param {(initialArg: I) => State} [init] - (可选) 根据 `initialArg` 计算初始状态的函数。
+ * @returns {[State, (action: A) => void]} 返回初始状态和用于派发 action 的 dispatch 函数。
+ */
+function mountReducer<State, I, A>(
+	reducer: Reducer<State, A>,
+	initialArg: I,
+	init?: (initialArg: I) => State
+): [State, (action: A) => void] {
+	// 1. 获取或创建专属于这次 useReducer 调用的 Hook 对象。
+	const hook = mountWorkInProgressHook('Reducer');
+
+	let memoizedState: State;
+	if (init !== undefined) {
+		memoizedState = callWithoutNestedHooks(() => init(initialArg));
 	} else {
-		// 否则，`initialState` 就是直接给定的初始值。
-		memoizedState = initialState;
+		memoizedState = initialArg as unknown as State;
 	}
 
 	const queue = createFCUpdateQueue<State>();
@@ -548,7 +1624,7 @@ function mountState<State>(
 	hook.memoizedState = memoizedState;
 	hook.baseState = memoizedState;
 
-	// 创建 dispatch 函数 (也就是我们常说的 `setState` 函数)。
+	// 创建 dispatch 函数
 	// @ts-ignore
 	const dispatch = dispatchSetState.bind(null, currentlyRenderingFiber, queue);
 
@@ -556,6 +1632,7 @@ function mountState<State>(
 	queue.dispatch = dispatch;
 
 	queue.lastRenderedState = memoizedState;
+	queue.lastRenderedReducer = reducer;
 
 	return [memoizedState, dispatch];
 }
@@ -566,65 +1643,425 @@ function mountState<State>(
  *              它内部会调用 `mountState` 来创建一个布尔类型的状态 `isPending` (初始值为 `false`)
  *              以及一个用于更新该状态的函数 `setPending`。
  *              然后，它会创建一个 `startTransition` 函数，该函数在被调用时会：
- *              1. 将 `isPending` 状态设置为 `true`。
+ *              1. 以当前优先级将 `isPending` 状态设置为 `true`。
  *              2. 设置全局的 `currentBatchConfig.transition`，标记当前处于一个 transition 过程中。
- *              3. 执行用户传入的回调函数。
- *              4. 将 `isPending` 状态设置为 `false`。
- *              5. 恢复全局的 `currentBatchConfig.transition`。
+ *              3. 执行用户传入的回调函数 (可以是 async 函数)，在 transition 中将 `isPending` 状态设置为 `false`。
+ *              4. 恢复全局的 `currentBatchConfig.transition`。
  *              这个 `startTransition` 函数会被存储在当前 Hook 对象的 `memoizedState` 中。
  *
- * @returns {[boolean, (callback: () => void) => void]} 返回一个包含两个元素的数组：
+ * @returns {[boolean, (callback: () => void | Promise<void>) => void]} 返回一个包含两个元素的数组：
  *          - `isPending` (boolean): 一个布尔值，指示 transition 是否正在进行中。
  *          - `startTransition` (function): 一个函数，用于启动一个 transition。
  *                                        它接收一个回调函数作为参数，这个回调函数中通常包含
  *                                        会导致状态更新的操作。
  */
-function mountTransition(): [boolean, (callback: () => void) => void] {
+function mountTransition(): [
+	boolean,
+	(callback: () => void | Promise<void>) => void
+] {
 	const [isPending, setPending] = mountState(false);
-	const hook = mountWorkInProgressHook();
+	const hook = mountWorkInProgressHook('Transition');
 	const start = startTransition.bind(null, setPending);
 	hook.memoizedState = start;
 	return [isPending, start];
 }
 
-function updateTransition(): [boolean, (callback: () => void) => void] {
+function updateTransition(): [
+	boolean,
+	(callback: () => void | Promise<void>) => void
+] {
 	const [isPending] = updateState();
-	const hook = updateWorkInProgressHook();
+	const hook = updateWorkInProgressHook('Transition');
 	const start = hook.memoizedState;
 	return [isPending as boolean, start];
 }
 
+/**
+ * @function mountDeferredValue
+ * @description `useDeferredValue` Hook 在组件首次挂载时的实现。
+ *              传入了 `initialValue` 且本次不是非紧急渲染时，先返回 `initialValue`，
+ *              再以 `TransitionLane` 调度一次使用 `value` 的渲染。
+ * @param value 需要延迟的值
+ * @param initialValue (可选) 首次渲染时使用的值
+ * @returns 本次渲染使用的值
+ */
+function mountDeferredValue<T>(value: T, initialValue?: T): T {
+	const hook = mountWorkInProgressHook('DeferredValue');
+	if (initialValue !== undefined && !includeOnlyNonUrgentLanes(renderLane)) {
+		hook.memoizedState = initialValue;
+		deferRenderToTransitionLane();
+		return initialValue;
+	}
+	hook.memoizedState = value;
+	return value;
+}
+
+/**
+ * @function updateDeferredValue
+ * @description `useDeferredValue` Hook 在组件更新阶段的实现。
+ *              - 值没有变化，直接返回。
+ *              - 紧急渲染 (Sync/InputContinuous/Default) 中返回上一次提交的值，
+ *                并以 `TransitionLane` 调度一次使用新值的渲染。
+ *              - 非紧急渲染 (Transition/Idle) 中使用新值。
+ *              延迟的渲染是普通的并发渲染，会被更高优先级的更新打断。
+ * @param value 需要延迟的值
+ * @returns 本次渲染使用的值
+ */
+function updateDeferredValue<T>(value: T): T {
+	const hook = updateWorkInProgressHook('DeferredValue');
+	if (currentHook === null) {
+		// 首次挂载时 render 阶段的更新导致的重新执行，沿用第一次执行的结果
+		return hook.memoizedState;
+	}
+	const prevValue: T = currentHook.memoizedState;
+
+	if (Object.is(value, prevValue)) {
+		return value;
+	}
+	if (!includeOnlyNonUrgentLanes(renderLane)) {
+		deferRenderToTransitionLane();
+		return prevValue;
+	}
+	hook.memoizedState = value;
+	markWipReceivedUpdate();
+	return value;
+}
+
+/**
+ * @function deferRenderToTransitionLane
+ * @description 在当前 fiber 与 root 上标记 `TransitionLane`，
+ *              本次渲染提交后 `ensureRootIsScheduled` 会调度这次延迟的渲染。
+ */
+function deferRenderToTransitionLane() {
+	const fiber = currentlyRenderingFiber as FiberNode;
+	fiber.lanes = mergeLanes(fiber.lanes, TransitionLane);
+	const root = getWorkInProgressRoot();
+	if (root !== null) {
+		markRootUpdated(root, TransitionLane);
+	}
+}
+
+/**
+ * @function mountOptimistic
+ * @description `useOptimistic` Hook 在组件首次挂载时的实现。
+ *              乐观状态以 `passthrough` (通常是真实的状态) 为基础，
+ *              在 transition 进行期间叠加通过 dispatch 提交的乐观更新。
+ * @param passthrough 没有乐观更新时返回的值
+ * @param reducer (可选) 将乐观更新合并到状态上的函数，默认直接替换
+ * @returns [乐观状态, 提交乐观更新的 dispatch]
+ */
+function mountOptimistic<S, A>(
+	passthrough: S,
+	reducer?: (state: S, action: A) => S
+): [S, (action: A) => void] {
+	const hook = mountWorkInProgressHook('Optimistic');
+	hook.memoizedState = hook.baseState = passthrough;
+
+	const queue = createFCUpdateQueue<S>();
+	hook.updateQueue = queue;
+	// 乐观更新不走 eager state 的优化
+	queue.lastRenderedReducer = null;
+
+	const dispatch = dispatchOptimisticSetState.bind(
+		null,
+		currentlyRenderingFiber as FiberNode,
+		queue as FCUpdateQueue<unknown>
+	);
+	queue.dispatch = dispatch;
+	return [passthrough, dispatch];
+}
+
+/**
+ * @function updateOptimistic
+ * @description `useOptimistic` Hook 在组件更新阶段的实现。
+ *              每次渲染都以最新的 `passthrough` 作为 `baseState`，
+ *              重新应用尚未撤销的乐观更新 (见 `processUpdateQueue` 中对 `revertLane` 的处理)。
+ */
+function updateOptimistic<S, A>(
+	passthrough: S,
+	reducer?: (state: S, action: A) => S
+): [S, (action: A) => void] {
+	const hook = updateWorkInProgressHook('Optimistic');
+	hook.baseState = passthrough;
+	if (currentHook === null) {
+		// 首次挂载时 render 阶段的更新导致的重新执行，还没有乐观更新
+		hook.memoizedState = passthrough;
+		const queue = hook.updateQueue as FCUpdateQueue<S>;
+		return [passthrough, queue.dispatch as (action: A) => void];
+	}
+	const resolvedReducer =
+		typeof reducer === 'function' ? reducer : basicStateReducer;
+	const [state, dispatch] = updateReducerImpl<S, A>(
+		hook,
+		currentHook as Hook,
+		resolvedReducer as Reducer<S, A>
+	);
+	// 乐观更新不走 eager state 的优化
+	(hook.updateQueue as FCUpdateQueue<S>).lastRenderedReducer = null;
+	return [state, dispatch];
+}
+
+/**
+ * @function dispatchOptimisticSetState
+ * @description 提交一次乐观更新。
+ *              更新以 `SyncLane` 立即渲染，并在 `TransitionLane` 的渲染中被撤销。
+ *              撤销渲染在当前 transition 的 async action 结束后才调度，
+ *              这样乐观状态会一直保留到 action 的真实更新一起提交，其他 action 不影响它的撤销。
+ */
+function dispatchOptimisticSetState(
+	fiber: FiberNode,
+	queue: FCUpdateQueue<unknown>,
+	action: unknown
+) {
+	const transition = currentBatchConfig.transition;
+	if (__DEV__) {
+		if (transition === null) {
+			console.error(
+				'乐观更新发生在 transition 或 action 之外，乐观状态会被立即撤销'
+			);
+		}
+	}
+	const update = createUpdate(
+		action,
+		SyncLane,
+		false,
+		null,
+		TransitionLane,
+		transition
+	);
+	enqueueUpdate(queue, update, fiber, SyncLane);
+	scheduleUpdateOnFiber(fiber, SyncLane);
+
+	afterAsyncActionSettles(transition, () => {
+		fiber.lanes = mergeLanes(fiber.lanes, TransitionLane);
+		const alternate = fiber.alternate;
+		if (alternate !== null) {
+			alternate.lanes = mergeLanes(alternate.lanes, TransitionLane);
+		}
+		scheduleUpdateOnFiber(fiber, TransitionLane);
+	});
+}
+
+/**
+ * @interface ActionStateQueue
+ * @description `useActionState` 中按顺序执行的 action 队列，保存在第三个 hook 的 `memoizedState` 上。
+ */
+interface ActionStateQueue<S, P> {
+	// 最近一次 action 计算出的状态，下一个 action 以它为 prevState
+	state: S;
+	// 最近一次提交的 action 函数
+	action: (state: S, payload: P) => S | Promise<S>;
+	// 等待执行的 payload 环状链表，指向最后一个
+	pending: ActionStateQueueNode<P> | null;
+	setState: Dispatch<S | ActionStateError>;
+	setPending: Dispatch<boolean>;
+}
+
+interface ActionStateQueueNode<P> {
+	payload: P;
+	next: ActionStateQueueNode<P>;
+}
+
+/**
+ * @description action 抛出的错误，在下一次渲染时由 `useActionState` 重新抛出。
+ */
+class ActionStateError {
+	error: unknown;
+	constructor(error: unknown) {
+		this.error = error;
+	}
+}
+
+/**
+ * @function mountActionState
+ * @description `useActionState` Hook 在组件首次挂载时的实现。
+ *              依次创建三个 hook：状态、`isPending`、action 队列。
+ * @param action 接收上一次状态与 payload，返回新状态 (或 Promise) 的函数
+ * @param initialState 初始状态
+ * @param permalink (可选) 服务端渲染时表单提交的地址，客户端渲染中不使用
+ * @returns [状态, 派发 action 的函数, isPending]
+ */
+function mountActionState<S, P>(
+	action: (state: S, payload: P) => S | Promise<S>,
+	initialState: S,
+	permalink?: string
+): [S, (payload: P) => void, boolean] {
+	const [state, setState] = mountState<S | ActionStateError>(initialState);
+	const [isPending, setPending] = mountState(false);
+
+	const hook = mountWorkInProgressHook('ActionState');
+	const queue: ActionStateQueue<S, P> = {
+		state: initialState,
+		action,
+		pending: null,
+		setState,
+		setPending
+	};
+	hook.memoizedState = queue;
+	hook.updateQueue = (payload: P) => dispatchActionState(queue, payload);
+
+	return [state as S, hook.updateQueue as (payload: P) => void, isPending];
+}
+
+/**
+ * @function updateActionState
+ * @description `useActionState` Hook 在组件更新阶段的实现。
+ *              状态是 `ActionStateError` 时重新抛出 action 的错误，交给最近的错误处理。
+ *              `action` 变化时在提交后更新队列中的 action。
+ */
+function updateActionState<S, P>(
+	action: (state: S, payload: P) => S | Promise<S>
+): [S, (payload: P) => void, boolean] {
+	const [state] = updateState<S | ActionStateError>();
+	const [isPending] = updateState<boolean>();
+
+	const hook = updateWorkInProgressHook('ActionState');
+	const queue = hook.memoizedState as ActionStateQueue<S, P>;
+	if (action !== queue.action) {
+		(currentlyRenderingFiber as FiberNode).flags |= PassiveEffect;
+		pushEffect(
+			Passive | HookHasEffect,
+			() => {
+				queue.action = action;
+			},
+			undefined,
+			null
+		);
+	}
+
+	if (state instanceof ActionStateError) {
+		throw state.error;
+	}
+	return [state, hook.updateQueue as (payload: P) => void, isPending];
+}
+
+/**
+ * @function dispatchActionState
+ * @description 派发一次 action。队列为空时立即执行，否则等前面的 action 结束后按顺序执行。
+ */
+function dispatchActionState<S, P>(queue: ActionStateQueue<S, P>, payload: P) {
+	const last = queue.pending;
+	if (last === null) {
+		const node = { payload } as ActionStateQueueNode<P>;
+		node.next = node;
+		queue.pending = node;
+		queue.setPending(true);
+		runActionStateAction(queue, node);
+	} else {
+		const node: ActionStateQueueNode<P> = { payload, next: last.next };
+		last.next = node;
+		queue.pending = node;
+	}
+}
+
+/**
+ * @function runActionStateAction
+ * @description 在一个新的 transition 中执行 action，
+ *              async action 结束后提交结果的更新会重新进入这个 transition。
+ */
+function runActionStateAction<S, P>(
+	queue: ActionStateQueue<S, P>,
+	node: ActionStateQueueNode<P>
+) {
+	const transition = createTransition();
+	runInTransition(transition, () => {
+		try {
+			const returnValue = queue.action(queue.state, node.payload);
+			if (isThenable(returnValue)) {
+				entangleAsyncAction(transition, returnValue).then(
+					(nextState) =>
+						finishActionStateAction(queue, node, nextState as S, transition),
+					(error) => failActionStateQueue(queue, error, transition)
+				);
+			} else {
+				finishActionStateAction(queue, node, returnValue, transition);
+			}
+		} catch (error) {
+			failActionStateQueue(queue, error, transition);
+		}
+	});
+}
+
+/**
+ * @function finishActionStateAction
+ * @description 一个 action 完成：在它的 transition 中提交新状态，然后执行队列中的下一个 action。
+ *              队列清空时才重置 `isPending`。
+ */
+function finishActionStateAction<S, P>(
+	queue: ActionStateQueue<S, P>,
+	node: ActionStateQueueNode<P>,
+	nextState: S,
+	transition: Transition
+) {
+	queue.state = nextState;
+	const last = queue.pending as ActionStateQueueNode<P>;
+	runInTransition(transition, () => {
+		queue.setState(nextState);
+		if (node === last) {
+			queue.pending = null;
+			queue.setPending(false);
+		} else {
+			const next = node.next;
+			last.next = next;
+			runActionStateAction(queue, next);
+		}
+	});
+}
+
+/**
+ * @function failActionStateQueue
+ * @description action 抛出错误：丢弃队列中剩余的 action，下一次渲染时抛出该错误。
+ */
+function failActionStateQueue<S, P>(
+	queue: ActionStateQueue<S, P>,
+	error: unknown,
+	transition: Transition
+) {
+	queue.pending = null;
+	runInTransition(transition, () => {
+		queue.setState(new ActionStateError(error));
+		queue.setPending(false);
+	});
+}
+
 /**
  * @function startTransition
  * @description 启动一个 transition 过程。
  *              这个函数通常由 `useTransition` Hook 返回，并由用户调用。
  *              它会：
- *              1. 调用 `setPending(true)` 来将 `isPending` 状态设置为 `true`，
- *                 表明一个 transition 已经开始。
- *              2. 记录并设置全局的 `currentBatchConfig.transition` 为一个非 `null` 值（当前实现为 1），
- *                 这使得在 `callback` 内部触发的状态更新（通过 `requestUpdateLane`）
- *                 能够获取到 `TransitionLane` 优先级。
- *              3. 同步执行用户传入的 `callback` 函数。这个回调函数中通常包含
- *                 那些希望在 transition 过程中执行的状态更新操作（例如，调用 `setState`）。
- *              4. 调用 `setPending(false)` 来将 `isPending` 状态设置为 `false`，
- *                 表明 transition 已经（在同步执行完回调后）初步完成。
- *                 注意：这并不意味着由回调触发的低优先级更新已经渲染完毕。
- *              5. 恢复全局的 `currentBatchConfig.transition`到之前的值。
+ *              1. 以当前优先级调用 `setPending(true)`，让 `isPending` 尽快变为 `true`。
+ *              2. 把这次调用的 `Transition` 设置到全局的 `currentBatchConfig.transition`，
+ *                 之后触发的状态更新（通过 `requestUpdateLane`）都会获取到 `TransitionLane` 优先级。
+ *              3. 同步执行用户传入的 `callback`，然后在 transition 中调用 `setPending(false)`。
+ *                 如果 `callback` 是 async 函数，则等返回的 Promise 结束后才调用 `setPending(false)`，
+ *                 重置时通过 `runInTransition` 重新进入这次调用的 transition。
+ *                 `await` 之后的更新需要再次包裹在 `startTransition` 中才属于 transition。
+ *                 `isPending` 重置为 `false` 的更新与 `callback` 中的更新处于同一个 `TransitionLane`，
+ *                 因此只有在这次 transition 的渲染被 `commitRoot` 提交时 `isPending` 才会变为 `false`；
+ *                 transition 挂起在数据上时不会提交，`isPending` 保持为 `true`。
+ *              4. 恢复全局的 `currentBatchConfig.transition`到之前的值。
  *
  * @param {Dispatch<boolean>} setPending - 一个用于更新 `isPending` 状态的 dispatch 函数，
  *                                         由 `useTransition` 内部的 `useState` 提供。
- * @param {() => void} callback - 用户提供的回调函数，其中包含将作为 transition 一部分执行的逻辑，
- *                                通常是状态更新。
+ * @param {() => void | Promise<void>} callback - 用户提供的回调函数，其中包含将作为 transition 一部分执行的逻辑，
+ *                                通常是状态更新；可以是 async 函数。
  */
-function startTransition(setPending: Dispatch<boolean>, callback: () => void) {
+function startTransition(
+	setPending: Dispatch<boolean>,
+	callback: () => void | Promise<void>
+) {
 	setPending(true);
-	const prevTransition = currentBatchConfig.transition;
-	currentBatchConfig.transition = 1;
-
-	callback();
-	setPending(false);
-
-	currentBatchConfig.transition = prevTransition;
+	const transition = createTransition();
+	runInTransition(transition, () => {
+		const returnValue = callback();
+		if (isThenable(returnValue)) {
+			// async action：Promise 结束后再在同一个 transition 中重置 isPending
+			const finish = () => runInTransition(transition, () => setPending(false));
+			entangleAsyncAction(transition, returnValue).then(finish, finish);
+		} else {
+			setPending(false);
+		}
+	});
 }
 
 /**
@@ -636,7 +2073,8 @@ function startTransition(setPending: Dispatch<boolean>, callback: () => void) {
  *                 - 如果当前 Fiber 节点及其 alternate 都没有待处理的更新 (即 `fiber.lanes` 和 `current.lanes` 均为 `NoLanes`)，
  *                   这表明这是该 Fiber 节点自上次渲染以来的首次更新。
  *                 - 在这种情况下，会尝试“急切地”(eagerly)计算新状态：
- *                   - 使用 `basicStateReducer` 和 `updateQueue.lastRenderedState` (上一次渲染的状态) 以及当前的 `action` 来计算出 `eagerState`。
+ *                   - 使用 `updateQueue.lastRenderedReducer` (上一次渲染使用的 reducer) 和 `updateQueue.lastRenderedState`
+ *                     (上一次渲染的状态) 以及当前的 `action` 来计算出 `eagerState`。
  *                   - 如果计算出的 `eagerState` 与 `lastRenderedState` 相同 (通过 `Object.is` 比较)，
  *                     则认为状态没有实际变化，可以进行优化。
  *                   - 此时，`Update` 对象会被标记为 `hasEagerState` 和 `eagerState`，
@@ -651,15 +2089,24 @@ function startTransition(setPending: Dispatch<boolean>, callback: () => void) {
  *
  * @template State - 状态的类型。
  * @param {FiberNode} fiber - 与此状态更新关联的 FiberNode (通常是函数组件的 FiberNode)。
- * @param {FCUpdateQueue<State>} updateQueue - 该 `useState` Hook 对应的更新队列。
- * @param {Action<State>} action - 用户调用 `setState` 时传入的参数，
- *                                 可以是新的状态值，也可以是一个接收前一个状态并返回新状态的函数。
+ * @param {FCUpdateQueue<State>} updateQueue - 该 `useState`/`useReducer` Hook 对应的更新队列。
+ * @param {Action<State>} action - 用户调用 `setState`/`dispatch` 时传入的参数。
+ *                                 对于 `useState`，可以是新的状态值，也可以是一个接收前一个状态并返回新状态的函数；
+ *                                 对于 `useReducer`，是传给 reducer 的 action。
  */
 function dispatchSetState<State>(
 	fiber: FiberNode,
 	updateQueue: FCUpdateQueue<State>,
 	action: Action<State>
 ) {
+	if (isRenderPhaseUpdate(fiber)) {
+		// 组件在 render 中调用了自身的 setState，不调度新的渲染，
+		// 更新会在 renderWithHooksAgain 重新执行组件时被应用
+		didScheduleRenderPhaseUpdateDuringThisPass = true;
+		enqueueUpdate(updateQueue, createUpdate(action, renderLane), fiber, NoLane);
+		return;
+	}
+
 	const lane = requestUpdateLane();
 	const update = createUpdate(action, lane);
 
@@ -671,18 +2118,25 @@ function dispatchSetState<State>(
 	) {
 		// 当前产生的update是这个fiber的第一个update
 		// 1. 更新前的状态 2.计算状态的方法
-		const currentState = updateQueue.lastRenderedState;
-		const eagarState = basicStateReducer(currentState, action);
-		update.hasEagerState = true;
-		update.eagerState = eagarState;
-
-		if (Object.is(currentState, eagarState)) {
-			enqueueUpdate(updateQueue, update, fiber, NoLane);
-			// 命中eagerState
-			if (__DEV__) {
-				console.warn('命中eagerState', fiber);
+		const lastRenderedReducer = updateQueue.lastRenderedReducer;
+		if (lastRenderedReducer !== null) {
+			try {
+				const currentState = updateQueue.lastRenderedState;
+				const eagarState = lastRenderedReducer(currentState, action);
+				update.hasEagerState = true;
+				update.eagerState = eagarState;
+
+				if (Object.is(currentState, eagarState)) {
+					enqueueUpdate(updateQueue, update, fiber, NoLane);
+					// 命中eagerState
+					if (__DEV__) {
+						console.warn('命中eagerState', fiber);
+					}
+					return;
+				}
+			} catch {
+				// reducer报错时放弃eager策略，错误会在render阶段重新抛出
 			}
-			return;
 		}
 	}
 
@@ -692,12 +2146,21 @@ function dispatchSetState<State>(
 	scheduleUpdateOnFiber(fiber, lane);
 }
 
+function isRenderPhaseUpdate(fiber: FiberNode) {
+	const alternate = fiber.alternate;
+	return (
+		fiber === currentlyRenderingFiber ||
+		(alternate !== null && alternate === currentlyRenderingFiber)
+	);
+}
+
 /**
  * @description 在函数组件的初始挂载阶段，创建一个 Hook 对象，并插入到链表中
  * @returns 返回新创建并链接好的 Hook 对象（空的）。
  */
-function mountWorkInProgressHook(): Hook {
+function mountWorkInProgressHook(type: HookType): Hook {
 	const hook: Hook = {
+		type,
 		memoizedState: null,
 		updateQueue: null,
 		next: null,
@@ -738,6 +2201,70 @@ function use<T>(usable: Usable<T>): T {
 	throw new Error('不支持的use参数 ' + usable);
 }
 
+/**
+ * @function getCacheForType
+ * @description `cache(fn)` 通过它读取当前 root 的渲染缓存。
+ *              读取 `CacheContext` 会让组件依赖当前的 Cache，缓存刷新后组件会重新渲染。
+ * @param resourceType 创建该类型缓存的函数，同时作为缓存的 key
+ * @returns 当前 Cache 中 resourceType 对应的缓存
+ */
+function getCacheForType<T>(resourceType: () => T): T {
+	if (currentlyRenderingFiber === null) {
+		// render 之外 (例如事件回调) 不做缓存
+		return resourceType();
+	}
+	const cache = readContext(CacheContext);
+	if (cache === null) {
+		return resourceType();
+	}
+	let cacheForType = cache.data.get(resourceType) as T | undefined;
+	if (cacheForType === undefined) {
+		cacheForType = resourceType();
+		cache.data.set(resourceType, cacheForType);
+	}
+	return cacheForType;
+}
+
+function mountRefresh(): () => void {
+	const hook = mountWorkInProgressHook('CacheRefresh');
+	const refresh = refreshCache.bind(null, currentlyRenderingFiber as FiberNode);
+	hook.memoizedState = refresh;
+	return refresh;
+}
+
+function updateRefresh(): () => void {
+	const hook = updateWorkInProgressHook('CacheRefresh');
+	return hook.memoizedState;
+}
+
+/**
+ * @function refreshCache
+ * @description `useCacheRefresh` 返回的函数。
+ *              为 root 创建一个新的 Cache，并在 HostRoot 上调度一次 TransitionLane 的更新，
+ *              新 Cache 只在这次 transition 中生效，提交之前界面继续使用旧的缓存。
+ * @param fiber 调用 `useCacheRefresh` 的 fiber
+ */
+function refreshCache(fiber: FiberNode) {
+	let node: FiberNode | null = fiber;
+	while (node !== null && node.tag !== HostRoot) {
+		node = node.return;
+	}
+	if (node === null) {
+		if (__DEV__) {
+			console.warn('useCacheRefresh没有找到HostRoot');
+		}
+		return;
+	}
+	const root = node.stateNode as FiberRootNode;
+	root.pendingCache = createCache();
+	node.lanes = mergeLanes(node.lanes, TransitionLane);
+	const alternate = node.alternate;
+	if (alternate !== null) {
+		alternate.lanes = mergeLanes(alternate.lanes, TransitionLane);
+	}
+	scheduleUpdateOnFiber(node, TransitionLane);
+}
+
 /**
  * @function resetHooksOnUnwind
  * @description 在 "unwind" 阶段（例如，当处理错误或 Suspense 挂起时，从发生问题的 Fiber 节点向上回溯时）
@@ -752,6 +2279,9 @@ export function resetHooksOnUnwind(wip: FiberNode) {
 	currentlyRenderingFiber = null;
 	currentHook = null;
 	workInProgressHook = null;
+	didScheduleRenderPhaseUpdateDuringThisPass = false;
+	numberOfReRenders = 0;
+	currentDispatcher.current = ContextOnlyDispatcher;
 }
 
 /**
@@ -779,6 +2309,76 @@ export function bailoutHook(wip: FiberNode, renderLane: Lane) {
 	current.lanes = removeLanes(current.lanes, renderLane);
 }
 
+/**
+ * @function useDebugValue
+ * @description `useDebugValue` Hook 的实现，mount 和 update 相同。
+ *              正常 render 中什么都不做，也不占用 Hook 链表的槽位；
+ *              只有 `inspectHooksOfFiber` 重新执行组件时，才会记录值并挂到外层的自定义 Hook 上。
+ * @param value 需要在调试工具中显示的值
+ * @param format 可选的格式化函数，只在检查时调用
+ */
+function useDebugValue<T>(value: T, format?: (value: T) => unknown) {
+	// noop
+}
+
+/**
+ * @function useMemoCache
+ * @description 为编译器风格的自动 memo 提供按组件分配的缓存槽位。
+ *              缓存不在 Hook 链表中，而是保存在 `updateQueue.memoCache` 上：
+ *              - 每次 render 开始时 `updateQueue` 被重置，首次调用时从 current fiber 复制一份缓存，
+ *                因此被丢弃的 render (包括 `bailoutHook` 恢复 current 的 updateQueue) 不会污染已提交的缓存。
+ *              - 没有 current fiber (首次挂载 / 重新挂载) 时，所有槽位都被填充为 `REACT_MEMO_CACHE_SENTINEL`。
+ * @param {number} size - 槽位数量，同一位置的调用在每次 render 中应该保持一致。
+ * @returns {any[]} 长度为 `size` 的缓存数组。
+ */
+function useMemoCache(size: number): any[] {
+	const fiber = currentlyRenderingFiber as FiberNode;
+	let updateQueue = fiber.updateQueue as FCUpdateQueue<any> | null;
+	let memoCache: MemoCache | null = null;
+
+	if (updateQueue !== null) {
+		memoCache = updateQueue.memoCache;
+	}
+	if (memoCache === null) {
+		const current = fiber.alternate;
+		if (current !== null) {
+			const currentUpdateQueue =
+				current.updateQueue as FCUpdateQueue<any> | null;
+			if (currentUpdateQueue !== null && currentUpdateQueue.memoCache) {
+				memoCache = {
+					// 复制一份，避免写入已提交的缓存
+					data: currentUpdateQueue.memoCache.data.map((array) => array.slice()),
+					index: 0
+				};
+			}
+		}
+	}
+	if (memoCache === null) {
+		memoCache = {
+			data: [],
+			index: 0
+		};
+	}
+	if (updateQueue === null) {
+		updateQueue = createFCUpdateQueue();
+		fiber.updateQueue = updateQueue;
+	}
+	updateQueue.memoCache = memoCache;
+
+	let data = memoCache.data[memoCache.index];
+	if (data === undefined || data.length !== size) {
+		if (__DEV__ && data !== undefined) {
+			console.error(
+				`useMemoCache的size在两次render之间发生了变化：${data.length} -> ${size}`
+			);
+		}
+		data = new Array(size).fill(REACT_MEMO_CACHE_SENTINEL);
+		memoCache.data[memoCache.index] = data;
+	}
+	memoCache.index++;
+	return data;
+}
+
 /**
  * @function mountCallback
  * @description `useCallback` Hook 在组件首次挂载时的实现。
@@ -794,7 +2394,8 @@ export function bailoutHook(wip: FiberNode, renderLane: Lane) {
  * @returns {T} 返回传入的 `callback` 函数。
  */
 function mountCallback<T>(callback: T, deps: HookDeps | undefined) {
-	const hook = mountWorkInProgressHook();
+	checkDepsAreArrayInDev('Callback', deps);
+	const hook = mountWorkInProgressHook('Callback');
 	const nextDeps = deps === undefined ? null : deps;
 	hook.memoizedState = [callback, nextDeps];
 	return callback;
@@ -821,13 +2422,14 @@ function mountCallback<T>(callback: T, deps: HookDeps | undefined) {
  * @returns {T} 如果依赖项未改变，则返回上一次 memoized 的回调函数；否则返回新传入的 `callback` 函数。
  */
 function updateCallback<T>(callback: T, deps: HookDeps | undefined) {
-	const hook = updateWorkInProgressHook();
+	checkDepsAreArrayInDev('Callback', deps);
+	const hook = updateWorkInProgressHook('Callback');
 	const nextDeps = deps === undefined ? null : deps;
 	const prevState = hook.memoizedState;
 
 	if (nextDeps !== null) {
 		const prevDeps = prevState[1];
-		if (areHookInputsEqual(nextDeps, prevDeps)) {
+		if (areHookInputsEqual('Callback', nextDeps, prevDeps)) {
 			return prevState[0];
 		}
 	}
@@ -852,9 +2454,10 @@ function updateCallback<T>(callback: T, deps: HookDeps | undefined) {
  * @returns {T} 返回由 `nextCreate` 函数计算得到的 memoized 值。
  */
 function mountMemo<T>(nextCreate: () => T, deps: HookDeps | undefined) {
-	const hook = mountWorkInProgressHook();
+	checkDepsAreArrayInDev('Memo', deps);
+	const hook = mountWorkInProgressHook('Memo');
 	const nextDeps = deps === undefined ? null : deps;
-	const nextValue = nextCreate();
+	const nextValue = callWithoutNestedHooks(nextCreate);
 	hook.memoizedState = [nextValue, nextDeps];
 	return nextValue;
 }
@@ -881,17 +2484,18 @@ function mountMemo<T>(nextCreate: () => T, deps: HookDeps | undefined) {
  * @returns {T} 如果依赖项未改变，则返回上一次 memoized 的值；否则返回由 `nextCreate` 函数新计算得到的值。
  */
 function updateMemo<T>(nextCreate: () => T, deps: HookDeps | undefined) {
-	const hook = updateWorkInProgressHook();
+	checkDepsAreArrayInDev('Memo', deps);
+	const hook = updateWorkInProgressHook('Memo');
 	const nextDeps = deps === undefined ? null : deps;
 	const prevState = hook.memoizedState;
 
 	if (nextDeps !== null) {
 		const prevDeps = prevState[1];
-		if (areHookInputsEqual(nextDeps, prevDeps)) {
+		if (areHookInputsEqual('Memo', nextDeps, prevDeps)) {
 			return prevState[0];
 		}
 	}
-	const nextValue = nextCreate();
+	const nextValue = callWithoutNestedHooks(nextCreate);
 	hook.memoizedState = [nextValue, nextDeps];
 	return nextValue;
 }
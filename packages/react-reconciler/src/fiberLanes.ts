@@ -1,4 +1,4 @@
-import ReactCurrentBatchConfig from 'react/src/currentBatchConfig';
+import internals from 'shared/internals';
 import {
 	unstable_getCurrentPriorityLevel,
 	unstable_IdlePriority,
@@ -8,6 +8,8 @@ import {
 } from 'scheduler';
 import { FiberRootNode } from './fiber';
 
+const { currentBatchConfig } = internals;
+
 export type Lane = number;
 export type Lanes = number;
 
@@ -31,10 +33,12 @@ export function mergeLanes(laneA: Lane, laneB: Lane): Lanes {
 
 /**
  * @description 请求一个用于更新的优先级 Lane。
- *              它首先检查当前是否处于一个 transition 过程中 (通过 `ReactCurrentBatchConfig.transition`)。
+ *              它首先检查当前是否处于一个 transition 过程中 (通过 `currentBatchConfig.transition`)。
  *              如果是，则返回 `TransitionLane`。
  *              否则，它会从 Scheduler 包获取当前的调度优先级，
  *              然后将这个 Scheduler 优先级转换为 React 内部使用的 Lane。
+ *              async action 中 `await` 之后的代码不在 `startTransition` 的同步执行范围内，
+ *              其中的更新需要再次包裹在 `startTransition` 中才会获得 `TransitionLane`。
  *              这个 Lane 代表了本次更新的紧急程度或类型。
  * @returns {Lane} 根据当前 Scheduler 的优先级转换得到的 Lane。
  *                 如果不在 transition 中，且 Scheduler 的优先级无法直接映射到一个已定义的 Lane
@@ -43,7 +47,7 @@ export function mergeLanes(laneA: Lane, laneB: Lane): Lanes {
  * @see {@link unstable_getCurrentPriorityLevel} - Scheduler 包中用于获取当前调度优先级的函数。
  */
 export function requestUpdateLane() {
-	const isTransition = ReactCurrentBatchConfig.transition !== null;
+	const isTransition = currentBatchConfig.transition !== null;
 	if (isTransition) {
 		return TransitionLane;
 	}
@@ -198,6 +202,18 @@ export function includeSomeLanes(set: Lanes, subset: Lane | Lanes): boolean {
 	return (set & subset) !== NoLanes;
 }
 
+/**
+ * @function includeOnlyNonUrgentLanes
+ * @description 判断 Lanes 集合中是否只包含非紧急的 Lane (`TransitionLane`、`IdleLane`)。
+ *              `useDeferredValue` 据此决定本次渲染是返回旧值并推迟更新，还是直接使用新值。
+ * @param {Lanes} lanes - 需要检查的 Lanes 集合。
+ * @returns {boolean} 不包含 `SyncLane`、`InputContinuousLane`、`DefaultLane` 时返回 `true`。
+ */
+export function includeOnlyNonUrgentLanes(lanes: Lanes): boolean {
+	const UrgentLanes = SyncLane | InputContinuousLane | DefaultLane;
+	return (lanes & UrgentLanes) === NoLanes;
+}
+
 /**
  * @function removeLanes
  * @description 从一个 Lanes 集合 (`set`) 中移除另一个 Lanes 集合或单个 Lane (`subset`) 中包含的所有 Lanes。
@@ -14,18 +14,51 @@ import {
 import { scheduleUpdateOnFiber } from './workLoop';
 import { HostRoot } from './workTags';
 import { requestUpdateLane } from './fiberLanes';
+import { RootErrorHandler } from './fiberErrorLogger';
+
+/**
+ * @interface RootOptions
+ * @description `createRoot` 的可选配置。
+ * @property {string} [identifierPrefix] - `useId` 生成的 id 的前缀。
+ *                                         同一页面存在多个 root 时，用于避免 id 冲突。
+ * @property {RootErrorHandler} [onUncaughtError] - 没有被边界捕获的错误 (包括事件回调中的错误) 的回调。
+ *                                                   默认通过 `reportError` 报告，不会抛出。
+ * @property {RootErrorHandler} [onCaughtError] - 被 `<ErrorBoundary>` 捕获的错误的回调，默认打印错误。
+ * @property {RootErrorHandler} [onRecoverableError] - 并发渲染出错、同步重试后成功恢复时的回调，默认打印错误。
+ */
+export interface RootOptions {
+	identifierPrefix?: string;
+	onUncaughtError?: RootErrorHandler;
+	onCaughtError?: RootErrorHandler;
+	onRecoverableError?: RootErrorHandler;
+}
 
 /**
  * @description 创建 React 应用的根容器结构。
  *              它会创建一个 FiberRootNode (整个应用的根控制器)
  *              和一个 HostRoot FiberNode (Fiber 树的顶层节点)。
  * @param container 真实的 DOM 容器元素，React 应用将渲染到这个元素内部。
+ * @param options 可选配置，见 `RootOptions`
  * @returns 返回创建的 FiberRootNode 实例
  */
-export function createContainer(container: Container) {
+export function createContainer(container: Container, options?: RootOptions) {
 	const hostRootFiber = new FiberNode(HostRoot, {}, null);
 	const root = new FiberRootNode(container, hostRootFiber);
 	hostRootFiber.updateQueue = createUpdateQueue();
+	if (options !== undefined) {
+		if (options.identifierPrefix !== undefined) {
+			root.identifierPrefix = options.identifierPrefix;
+		}
+		if (options.onUncaughtError !== undefined) {
+			root.onUncaughtError = options.onUncaughtError;
+		}
+		if (options.onCaughtError !== undefined) {
+			root.onCaughtError = options.onCaughtError;
+		}
+		if (options.onRecoverableError !== undefined) {
+			root.onRecoverableError = options.onRecoverableError;
+		}
+	}
 	return root;
 }
 
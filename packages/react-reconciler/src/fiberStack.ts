@@ -0,0 +1,112 @@
+import { FiberNode } from './fiber';
+
+/**
+ * @interface StackCursor
+ * @description 栈上某一类值的游标，`current` 是当前生效的值。
+ *              所有游标共用同一个栈：push 时把游标的旧值压栈，pop 时取回旧值，
+ *              因此不同种类的值 (context、Suspense 边界等) 会按照 fiber 的进出顺序交错保存。
+ * @property {T} current - 当前生效的值。
+ * @property {Function | null} onReset - `resetFiberStack` 丢弃该游标的一项之前调用，参数是这一项生效期间游标的值。
+ *                                       用于恢复随游标一起修改、但不保存在游标上的状态 (例如 context 的值)。
+ */
+export interface StackCursor<T> {
+	current: T;
+	onReset: ((value: T) => void) | null;
+}
+
+// 每一项保存入栈前游标的值，以及对应的游标，reset 时按逆序恢复
+const valueStack: any[] = [];
+const cursorStack: (StackCursor<any> | null)[] = [];
+// DEV 下记录入栈的 fiber，用来检查出栈顺序是否与入栈一致
+const fiberStack: (FiberNode | null)[] = [];
+
+let index = -1;
+
+/**
+ * @function createCursor
+ * @description 创建一个游标。
+ * @param {T} defaultValue - 栈为空时游标的值。
+ * @param {Function | null} [onReset] - (可选) 见 `StackCursor.onReset`。
+ * @returns {StackCursor<T>}
+ */
+export function createCursor<T>(
+	defaultValue: T,
+	onReset: ((value: T) => void) | null = null
+): StackCursor<T> {
+	return {
+		current: defaultValue,
+		onReset
+	};
+}
+
+/**
+ * @function push
+ * @description 在 `beginWork` 中进入 `fiber` 时调用：保存游标的旧值，并把游标设置为 `value`。
+ * @param {StackCursor<T>} cursor - 游标。
+ * @param {T} value - 在 `fiber` 的子树中生效的值。
+ * @param {FiberNode} fiber - 推入该值的 fiber，在它 complete/unwind 时弹出。
+ */
+export function push<T>(cursor: StackCursor<T>, value: T, fiber: FiberNode) {
+	index++;
+
+	valueStack[index] = cursor.current;
+	cursorStack[index] = cursor;
+	if (__DEV__) {
+		fiberStack[index] = fiber;
+	}
+
+	cursor.current = value;
+}
+
+/**
+ * @function pop
+ * @description 在 `completeWork` / `unwindWork` 中离开 `fiber` 时调用：把游标恢复为入栈前的值。
+ * @param {StackCursor<T>} cursor - 游标，必须与入栈时相同。
+ * @param {FiberNode} fiber - 弹出该值的 fiber，必须与入栈时相同。
+ */
+export function pop<T>(cursor: StackCursor<T>, fiber: FiberNode) {
+	if (index < 0) {
+		if (__DEV__) {
+			console.error('fiber 栈为空时出栈');
+		}
+		return;
+	}
+
+	if (__DEV__) {
+		if (fiber !== fiberStack[index] || cursor !== cursorStack[index]) {
+			console.error('出栈的 fiber 与入栈时不一致', fiber);
+		}
+		fiberStack[index] = null;
+	}
+
+	cursor.current = valueStack[index];
+	valueStack[index] = null;
+	cursorStack[index] = null;
+	index--;
+}
+
+/**
+ * @function resetFiberStack
+ * @description 在 `prepareFreshStack` 中调用。被打断的 render 已经通过 unwind 弹出了所有值，
+ *              正常情况下此时栈为空；如果还有残留，按逆序恢复每个游标的值并清空栈，
+ *              同时通过游标的 `onReset` 恢复 context 的值，不依赖调用前的 unwind，
+ *              避免残留的值影响下一次 render。
+ */
+export function resetFiberStack() {
+	if (__DEV__ && index !== -1) {
+		console.error('开始新的 render 时 fiber 栈不为空');
+	}
+	while (index > -1) {
+		const cursor = cursorStack[index] as StackCursor<any>;
+		if (cursor.onReset !== null) {
+			cursor.onReset(cursor.current);
+		}
+		cursor.current = valueStack[index];
+		valueStack[index] = null;
+		cursorStack[index] = null;
+		if (__DEV__) {
+			fiberStack[index] = null;
+		}
+		index--;
+	}
+}
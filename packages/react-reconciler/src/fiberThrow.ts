@@ -1,9 +1,23 @@
 import { Wakeable } from 'shared/ReactTypes';
 import { FiberNode, FiberRootNode } from './fiber';
 import { ShouldCapture } from './fiberFlags';
-import { Lane, Lanes, SyncLane, markRootPinged } from './fiberLanes';
-import { ensureRootIsScheduled, markRootUpdated } from './workLoop';
+import {
+	Lane,
+	Lanes,
+	SyncLane,
+	TransitionLane,
+	markRootPinged,
+	mergeLanes,
+	requestUpdateLane
+} from './fiberLanes';
+import {
+	ensureRootIsScheduled,
+	markRootUpdated,
+	scheduleUpdateOnFiber
+} from './workLoop';
 import { getSuspenseHandler } from './suspenseContext';
+import { HostRoot } from './workTags';
+import { enqueueCapturedError, findErrorBoundary } from './fiberErrorBoundary';
 
 /**
  * @function attachPingListener
@@ -57,6 +71,45 @@ function attachPingListener(
 	}
 }
 
+/**
+ * @function attachRetryListener
+ * @description 边界展示 fallback 后，本次渲染的 lane 已经随提交被消费，
+ *              仅靠 ping 重新渲染 root 时，边界内的组件会命中 bailout。
+ *              因此 thenable 结束后直接在边界上调度更新，让它重新渲染正常内容。
+ * @param {FiberNode} suspenseBoundary - 捕获挂起的 SuspenseComponent fiber。
+ * @param {Wakeable<any>} wakeable - 导致挂起的 thenable。
+ * @param {Lane} lane - 重试使用的优先级。
+ */
+function attachRetryListener(
+	suspenseBoundary: FiberNode,
+	wakeable: Wakeable<any>,
+	lane: Lane
+) {
+	function retry() {
+		suspenseBoundary.lanes = mergeLanes(suspenseBoundary.lanes, lane);
+		const alternate = suspenseBoundary.alternate;
+		if (alternate !== null) {
+			alternate.lanes = mergeLanes(alternate.lanes, lane);
+		}
+		scheduleUpdateOnFiber(suspenseBoundary, lane);
+	}
+	wakeable.then(retry, retry);
+}
+
+/**
+ * @function isShowingPrimaryContent
+ * @description 判断 Suspense 边界在 current 树中是否正在展示正常内容 (而不是 fallback)。
+ * @param {FiberNode} suspenseBoundary - work-in-progress 的 SuspenseComponent fiber。
+ * @returns {boolean} 边界已挂载且其 Offscreen 子节点处于 `visible` 模式时返回 `true`。
+ */
+function isShowingPrimaryContent(suspenseBoundary: FiberNode) {
+	const current = suspenseBoundary.alternate;
+	if (current === null || current.child === null) {
+		return false;
+	}
+	return current.child.memoizedProps.mode === 'visible';
+}
+
 /**
  * @function throwException
  * @description 处理在渲染过程中抛出的值，特别是用于实现 Suspense 机制。
@@ -64,16 +117,28 @@ function attachPingListener(
  *              1. 寻找最近的 Suspense 边界 (通过 `getSuspenseHandler`)。
  *              2. 如果找到 Suspense 边界，则在该边界 Fiber 节点上标记 `ShouldCapture` flag，
  *                 指示它应该捕获这个挂起状态。
+ *                 例外：`TransitionLane` 的渲染不会把已经展示出内容的边界切换回 fallback，
+ *                 此时不标记边界，unwind 一直到 root，本次渲染不提交，页面停留在之前的内容上，
+ *                 直到数据就绪后被 ping 重新渲染。
+ *                 同时调用 `attachRetryListener`，数据就绪后从边界重新渲染。
  *              3. 调用 `attachPingListener` 为该 thenable 和当前的渲染优先级 (`lane`)
  *                 在 `root.pingCache` 中注册一个监听器。当 thenable 解析或拒绝时，
  *                 会触发 `ping` 函数，该函数会标记 root 已更新并重新调度渲染。
- *              如果抛出的值不是 thenable，则目前不执行特定操作（未来可能用于错误边界处理）。
+ *              如果抛出的值不是 thenable，则把它当作错误处理：寻找最近的 `<ErrorBoundary>`，
+ *              标记 `ShouldCapture` 并在边界上加入携带错误的 update，unwind 到边界后渲染 fallback。
+ *              没有边界时什么都不做，unwind 一直到 root，本次渲染以 `RootFatalErrored` 结束。
  *
  * @param {FiberRootNode} root - 当前的 FiberRootNode 实例。
+ * @param {FiberNode} sourceFiber - 抛出异常的 fiber。
  * @param {any} value - 在渲染过程中被抛出的值。
  * @param {Lane} lane - 抛出异常时，当前渲染工作的优先级 Lane。
  */
-export function throwException(root: FiberRootNode, value: any, lane: Lane) {
+export function throwException(
+	root: FiberRootNode,
+	sourceFiber: FiberNode,
+	value: any,
+	lane: Lane
+) {
 	if (
 		value !== null &&
 		typeof value === 'object' &&
@@ -82,9 +147,58 @@ export function throwException(root: FiberRootNode, value: any, lane: Lane) {
 		const weakable: Wakeable<any> = value;
 
 		const suspenseBoundary = getSuspenseHandler();
-		if (suspenseBoundary) {
+		if (
+			suspenseBoundary &&
+			!(lane === TransitionLane && isShowingPrimaryContent(suspenseBoundary))
+		) {
 			suspenseBoundary.flags |= ShouldCapture;
+			attachRetryListener(suspenseBoundary, weakable, lane);
 		}
 		attachPingListener(root, weakable, lane);
+	} else {
+		const errorBoundary = findErrorBoundary(sourceFiber, false);
+		if (errorBoundary !== null) {
+			errorBoundary.flags |= ShouldCapture;
+			enqueueCapturedError(errorBoundary, value, lane);
+		}
+	}
+}
+
+/**
+ * @function captureCommitPhaseError
+ * @description 处理 commit 阶段 (layout / passive effect、ref 回调、类组件生命周期) 抛出的错误。
+ *              此时已经无法 unwind，因此像 effect 中调用 setState 一样，在最近的 `<ErrorBoundary>` 上调度一次更新，
+ *              让它在下一次渲染中展示 fallback。没有边界时交给 `root.onUncaughtError` 报告。
+ * @param {FiberNode} sourceFiber - 执行副作用时抛出错误的 fiber。
+ * @param {unknown} error - 抛出的错误。
+ */
+export function captureCommitPhaseError(
+	sourceFiber: FiberNode,
+	error: unknown
+) {
+	const errorBoundary = findErrorBoundary(sourceFiber, true);
+	if (errorBoundary === null) {
+		const root = getRootForFiber(sourceFiber);
+		if (root === null) {
+			// 已经从树中移除的 fiber (例如被删除子树的 useEffect destroy)
+			throw error;
+		}
+		root.onUncaughtError(error);
+		return;
+	}
+	const lane = requestUpdateLane();
+	enqueueCapturedError(errorBoundary, error, lane);
+	scheduleUpdateOnFiber(errorBoundary, lane);
+}
+
+/**
+ * @function getRootForFiber
+ * @description 沿着 `return` 找到 fiber 所在的 FiberRootNode，fiber 已经脱离树时返回 `null`。
+ */
+function getRootForFiber(fiber: FiberNode): FiberRootNode | null {
+	let node = fiber;
+	while (node.return !== null) {
+		node = node.return;
 	}
+	return node.tag === HostRoot ? node.stateNode : null;
 }
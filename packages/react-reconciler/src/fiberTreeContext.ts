@@ -0,0 +1,89 @@
+import { FiberNode } from './fiber';
+import { Forked, MaterializedTreeId, NoFlags } from './fiberFlags';
+
+// 当前正在处理的 fiber 在树中的位置 id，例如 '1-0-2'
+let treeContextId = '';
+
+// 保存进入某个 fiber 之前的 treeContextId，与 treeContextProviderStack 一一对应
+const treeContextIdStack: string[] = [];
+// 记录是哪个 fiber 推入了 treeContextIdStack 中对应的值
+const treeContextProviderStack: FiberNode[] = [];
+
+/**
+ * @function getTreeId
+ * @description 获取当前正在渲染的 fiber 在树中的位置 id。
+ *              该 id 只由 fiber 在树中的位置决定 (经过的数组分叉及其 index)，
+ *              与渲染的次数、顺序无关，因此在多次渲染之间、以及服务端与客户端之间都是一致的。
+ * @returns {string} 当前位置的 tree id，根节点的路径上没有分叉时为 `''`。
+ */
+export function getTreeId(): string {
+	return treeContextId;
+}
+
+/**
+ * @function pushTreeId
+ * @description 进入一个新的分叉位置：在当前 tree id 后追加一段 `index`。
+ * @param {FiberNode} wip - 推入该值的 fiber，在它 complete/unwind 时弹出。
+ * @param {number} index - 当前 fiber 在分叉中的位置。
+ */
+function pushTreeId(wip: FiberNode, index: number) {
+	treeContextIdStack.push(treeContextId);
+	treeContextProviderStack.push(wip);
+
+	const segment = index.toString(32);
+	treeContextId =
+		treeContextId === '' ? segment : treeContextId + '-' + segment;
+}
+
+/**
+ * @function pushTreeFork
+ * @description 在 `beginWork` 开始时调用。
+ *              如果 fiber 是在 `reconcileChildrenArray` 中创建的 (带有 `Forked` 标记)，
+ *              说明它与兄弟节点共享同一个父节点，需要用它的 `index` 区分彼此。
+ * @param {FiberNode} wip - 当前正在 begin 的 fiber。
+ */
+export function pushTreeFork(wip: FiberNode) {
+	if ((wip.flags & Forked) !== NoFlags) {
+		pushTreeId(wip, wip.index);
+	}
+}
+
+/**
+ * @function pushMaterializedTreeId
+ * @description 调用过 `useId` 的组件 (带有 `MaterializedTreeId` 标记) 在协调子节点之前调用。
+ *              组件自身已经占用了当前的 tree id，因此为它的子树额外推入一段，
+ *              避免没有分叉的子孙组件生成相同的 id。
+ * @param {FiberNode} wip - 当前正在 begin 的 fiber。
+ */
+export function pushMaterializedTreeId(wip: FiberNode) {
+	if ((wip.flags & MaterializedTreeId) !== NoFlags) {
+		pushTreeId(wip, 0);
+	}
+}
+
+/**
+ * @function popTreeContext
+ * @description 在 `completeWork` 或 `unwindWork` 中调用，弹出当前 fiber 推入的所有 tree id。
+ *              同一个 fiber 可能既是分叉节点又调用过 `useId`，所以需要循环弹出。
+ * @param {FiberNode} wip - 当前正在 complete/unwind 的 fiber。
+ */
+export function popTreeContext(wip: FiberNode) {
+	while (
+		treeContextProviderStack.length > 0 &&
+		treeContextProviderStack[treeContextProviderStack.length - 1] === wip
+	) {
+		treeContextProviderStack.pop();
+		treeContextId = treeContextIdStack.pop() as string;
+	}
+}
+
+/**
+ * @function resetTreeContext
+ * @description 在 `prepareFreshStack` 中调用。
+ *              被中断的渲染可能没有机会 complete 所有 fiber，开始新的渲染前需要清空栈。
+ */
+export function resetTreeContext() {
+	treeContextId = '';
+	treeContextIdStack.length = 0;
+	treeContextProviderStack.length = 0;
+}
@@ -1,8 +1,15 @@
 import { FiberNode } from './fiber';
-import { popProvider } from './fiberContext';
+import { getProviderContext, popProvider } from './fiberContext';
+import { CacheContext } from './fiberCache';
 import { DidCapture, NoFlags, ShouldCapture } from './fiberFlags';
 import { popSuspenseHandler } from './suspenseContext';
-import { ContextProvider, HostRoot, SuspenseComponent } from './workTags';
+import { popTreeContext } from './fiberTreeContext';
+import {
+	ContextProvider,
+	ErrorBoundaryComponent,
+	HostRoot,
+	SuspenseComponent
+} from './workTags';
 
 /**
  * @function unwindWork
@@ -11,8 +18,8 @@ import { ContextProvider, HostRoot, SuspenseComponent } from './workTags';
  *              它的主要职责是：
  *              1. 对于特定类型的 Fiber 节点（如 `SuspenseComponent`, `ContextProvider`），
  *                 执行清理操作，例如从对应的栈中弹出处理器或上下文值。
- *              2. 识别并标记能够处理当前错误的边界组件（目前主要是 `SuspenseComponent`）。
- *                 如果当前 `wip` Fiber 是一个应该捕获错误的 `SuspenseComponent`，
+ *              2. 识别并标记能够处理当前错误的边界组件（`SuspenseComponent` 与 `ErrorBoundaryComponent`）。
+ *                 如果当前 `wip` Fiber 是一个应该捕获错误的边界，
  *                 它会被标记为 `DidCapture`，并作为结果返回，表示找到了处理边界。
  *              3. 如果当前 `wip` Fiber 不能处理错误或只是执行了清理操作（如 `ContextProvider`），
  *                 则返回 `null`，指示 unwind 过程应继续向上到父级 Fiber 节点。
@@ -22,9 +29,19 @@ import { ContextProvider, HostRoot, SuspenseComponent } from './workTags';
  */
 export function unwindWork(wip: FiberNode) {
 	const flags = wip.flags;
+	popTreeContext(wip);
 	switch (wip.tag) {
 		case SuspenseComponent:
-			popSuspenseHandler();
+			popSuspenseHandler(wip);
+			if (
+				(flags & ShouldCapture) !== NoFlags &&
+				(flags & DidCapture) === NoFlags
+			) {
+				wip.flags = (flags & ~ShouldCapture) | DidCapture;
+				return wip;
+			}
+			return null;
+		case ErrorBoundaryComponent:
 			if (
 				(flags & ShouldCapture) !== NoFlags &&
 				(flags & DidCapture) === NoFlags
@@ -34,11 +51,38 @@ export function unwindWork(wip: FiberNode) {
 			}
 			return null;
 
+		case HostRoot:
+			popProvider(CacheContext, wip);
+			return null;
 		case ContextProvider:
-			const context = wip.type._context;
-			popProvider(context);
+			const context = getProviderContext(wip);
+			popProvider(context, wip);
 			return null;
 		default:
 			return null;
 	}
 }
+
+/**
+ * @function unwindInterruptedWork
+ * @description 丢弃一个被打断的 render 时 (例如更高优先级的更新开始了新的 render)，
+ *              对还没有 complete 的 fiber 调用，弹出它在 `beginWork` 中推入 fiber 栈的值，
+ *              使 context 的 `_currentValue` 等恢复为 render 开始之前的状态。
+ *              与 `unwindWork` 不同，这里不会寻找处理错误的边界。
+ *
+ * @param {FiberNode} interruptedWork - 已经 begin 但还没有 complete 的 fiber。
+ */
+export function unwindInterruptedWork(interruptedWork: FiberNode) {
+	popTreeContext(interruptedWork);
+	switch (interruptedWork.tag) {
+		case SuspenseComponent:
+			popSuspenseHandler(interruptedWork);
+			break;
+		case HostRoot:
+			popProvider(CacheContext, interruptedWork);
+			break;
+		case ContextProvider:
+			popProvider(getProviderContext(interruptedWork), interruptedWork);
+			break;
+	}
+}
@@ -3,3 +3,9 @@ export const Passive = 0b0010;
 
 // useEffect需要触发回调
 export const HookHasEffect = 0b0001;
+
+// useLayoutEffect
+export const Layout = 0b0100;
+
+// useInsertionEffect
+export const Insertion = 0b1000;
@@ -13,20 +13,29 @@ export function scheduleSyncCallback(callback: (...args: any) => void) {
 }
 
 /**
- * @description 执行所有当前在同步任务队列 (syncQueue) 中等待执行的回调函数
+ * @description 执行所有当前在同步任务队列 (syncQueue) 中等待执行的回调函数。
+ *              执行过程中新加入的回调 (例如渲染出错后卸载 root 的更新) 也会在本次执行。
+ *              某个回调抛出错误时继续执行剩余的回调，全部执行完后再抛出第一个错误。
  */
 export function flushSyncCallbacks() {
 	if (!isFlushingSyncQueue && syncQueue) {
 		isFlushingSyncQueue = true;
-		try {
-			syncQueue.forEach((callback) => callback());
-		} catch (e) {
-			if (__DEV__) {
-				console.error('flushSyncCallbacks报错', e);
+		let hasError = false;
+		let firstError: unknown = null;
+		for (let i = 0; i < syncQueue.length; i++) {
+			try {
+				syncQueue[i]();
+			} catch (e) {
+				if (!hasError) {
+					hasError = true;
+					firstError = e;
+				}
 			}
-		} finally {
-			isFlushingSyncQueue = false;
-			syncQueue = null;
+		}
+		isFlushingSyncQueue = false;
+		syncQueue = null;
+		if (hasError) {
+			throw firstError;
 		}
 	}
 }
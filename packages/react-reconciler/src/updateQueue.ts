@@ -1,7 +1,9 @@
 import { Dispatch } from 'react/src/currentDispatcher';
-import { Action } from 'shared/ReactTypes';
+import { Action, Reducer } from 'shared/ReactTypes';
 import { isSubsetOfLanes, Lane, mergeLanes, NoLane } from './fiberLanes';
 import { FiberNode } from './fiber';
+import { Transition } from 'react/src/currentBatchConfig';
+import { isAsyncActionPending } from './fiberAsyncAction';
 
 /**
  * @interface Update
@@ -23,6 +25,8 @@ import { FiberNode } from './fiber';
  *                                     这是一种优化，如果预计算的状态与当前状态相同，可以跳过某些工作。
  * @property {State | null} eagerState - 如果 `hasEagerState` 为 `true`，这里存储的是通过急切状态计算得到的预计算状态值。
  *                                      如果 `hasEagerState` 为 `false`，或者预计算未发生，则为 `null`。
+ * @property {Lane} revertLane - `useOptimistic` 的乐观更新在这个 Lane 的渲染中被撤销，普通更新为 `NoLane`。
+ * @property {Transition | null} transition - 乐观更新所属的 transition，其中的 async action 结束之前不会被撤销。
  */
 export interface Update<State> {
 	action: Action<State>;
@@ -30,6 +34,8 @@ export interface Update<State> {
 	next: Update<any> | null;
 	hasEagerState: boolean;
 	eagerState: State | null;
+	revertLane: Lane;
+	transition: Transition | null;
 }
 
 /**
@@ -49,14 +55,18 @@ export const createUpdate = <State>(
 	action: Action<State>,
 	lane: Lane,
 	hasEagerState = false,
-	eagerState = null
+	eagerState = null,
+	revertLane: Lane = NoLane,
+	transition: Transition | null = null
 ): Update<State> => {
 	return {
 		action,
 		lane,
 		next: null,
 		hasEagerState,
-		eagerState
+		eagerState,
+		revertLane,
+		transition
 	};
 };
 
@@ -152,6 +162,9 @@ export function basicStateReducer<State>(
  *              - 优先级不够的更新会被跳过，并被收集到一个新的 `baseQueue` 中，以便在后续的渲染中处理。
  *              此函数还支持 "eager state" 优化，如果一个更新已经有了预计算的 `eagerState` 并且该状态与
  *              当前状态相同，则可以跳过实际的 `reducer` 调用。
+ *              `useOptimistic` 的乐观更新 (`revertLane !== NoLane`) 不受 `renderLane` 限制：
+ *              在 `revertLane` 的渲染中 (且它所属 transition 的 async action 已经结束) 被丢弃，
+ *              否则总是被应用并保留在 `baseQueue` 中。
  *
  * @template State - UpdateQueue 和 Update 对象所管理的状态类型。
  * @param {State} baseState - 开始处理更新前的基础状态。
@@ -160,6 +173,11 @@ export function basicStateReducer<State>(
  * @param {Lane} renderLane - 当前渲染工作的优先级 Lane。只有 lane 包含在 `renderLane` 中的更新才会被处理。
  * @param {(update: Update<State>) => void} [onSkipUpdate] - (可选) 当一个更新因为优先级不够而被跳过时调用的回调函数。
  *                                                          该回调接收被跳过的更新对象作为参数。
+ * @param {Reducer<State, any>} [reducer] - (可选) 根据 action 计算新状态的 reducer，默认为 `basicStateReducer`。
+ *                                          `useReducer` 会传入用户提供的 reducer。
+ * @param {(action: any) => any} [rebaseAction] - (可选) 已经处理过的 update 排在被跳过的 update 之后时，
+ *                                                会以 NoLane 复制到 baseQueue 中重新计算，此函数决定复制时使用的 action。
+ *                                                类组件用它去掉 `setState` 的回调，避免回调被执行两次。
  * @returns {{
  *   memoizedState: State,  // 计算得出的最终状态，将存储在 Fiber 节点的 memoizedState 上。
  *   baseState: State,      // 如果有更新被跳过，这是第一个被跳过的更新之前计算出的状态；否则与 memoizedState 相同。
@@ -170,7 +188,9 @@ export const processUpdateQueue = <State>(
 	baseState: State,
 	pendingUpdate: Update<State> | null,
 	renderLane: Lane,
-	onSkipUpdate?: <State>(update: Update<State>) => void
+	onSkipUpdate?: <State>(update: Update<State>) => void,
+	reducer: Reducer<State, any> = basicStateReducer,
+	rebaseAction?: (action: any) => any
 ): {
 	memoizedState: State;
 	baseState: State;
@@ -200,7 +220,35 @@ export const processUpdateQueue = <State>(
 		do {
 			// 传进来的 lane
 			const updateLane = pending.lane;
-			if (!isSubsetOfLanes(renderLane, updateLane)) {
+			const revertLane = pending.revertLane;
+			if (revertLane !== NoLane) {
+				// 乐观更新
+				const transition = pending.transition;
+				if (
+					!isSubsetOfLanes(renderLane, revertLane) ||
+					(transition !== null && isAsyncActionPending(transition))
+				) {
+					// 所属的 transition 还没有结束，保留在 baseQueue 中，下次渲染时重新应用
+					const clone = createUpdate(
+						pending.action,
+						updateLane,
+						false,
+						null,
+						revertLane,
+						transition
+					);
+					if (newBaseQueueFirst === null) {
+						newBaseQueueFirst = clone;
+						newBaseQueueLast = clone;
+						newBaseState = newState;
+					} else {
+						(newBaseQueueLast as Update<State>).next = clone;
+						newBaseQueueLast = clone;
+					}
+					newState = reducer(newState, pending.action);
+				}
+				// transition 已经提交，撤销这次乐观更新
+			} else if (!isSubsetOfLanes(renderLane, updateLane)) {
 				// 优先级不够 被跳过
 				const clone = createUpdate(pending.action, pending.lane);
 				onSkipUpdate?.(clone);
@@ -220,7 +268,10 @@ export const processUpdateQueue = <State>(
 				// 优先级足够
 				if (newBaseQueueLast !== null) {
 					// 有【被跳过的】，将其降为NoLane
-					const clone = createUpdate(pending.action, NoLane);
+					const clone = createUpdate(
+						rebaseAction ? rebaseAction(pending.action) : pending.action,
+						NoLane
+					);
 					newBaseQueueLast.next = clone;
 					newBaseQueueLast = clone;
 				}
@@ -228,7 +279,8 @@ export const processUpdateQueue = <State>(
 				if (pending.hasEagerState) {
 					newState = pending.eagerState;
 				} else {
-					newState = basicStateReducer(baseState, action);
+					// 在上一个update计算出的state基础上继续计算
+					newState = reducer(newState, action);
 				}
 			}
 			pending = pending.next as Update<any>;
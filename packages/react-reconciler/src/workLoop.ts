@@ -1,5 +1,6 @@
 import { beginWork } from './beginWork';
 import {
+	commitBeforeMutationEffects,
 	commitHookEffectListCreate,
 	commitHookEffectListDestroy,
 	commitHookEffectListUnmount,
@@ -14,21 +15,28 @@ import {
 	PendingPassiveEffects
 } from './fiber';
 import {
+	BeforeMutationMask,
 	HostEffectMask,
+	LayoutMask,
 	MutationMask,
 	NoFlags,
-	PassiveMask
+	PassiveMask,
+	StoreConsistency
 } from './fiberFlags';
 import { HostRoot } from './workTags';
 import {
 	getHighestPriorityLane,
 	getNextLane,
+	includeSomeLanes,
 	Lane,
+	Lanes,
 	lanesToSchedulerPriority,
 	markRootFinished,
 	markRootSuspended,
 	mergeLanes,
 	NoLane,
+	NoLanes,
+	removeLanes,
 	SyncLane
 } from './fiberLanes';
 import { flushSyncCallbacks, scheduleSyncCallback } from './syncTaskQueue';
@@ -40,12 +48,19 @@ import {
 	unstable_cancelCallback
 } from 'scheduler';
 import { HookHasEffect, Passive } from './hookEffectTags';
-import { throwException } from './fiberThrow';
+import { captureCommitPhaseError, throwException } from './fiberThrow';
 import { SuspenseException, getSuspenseThenable } from './thenable';
-import { unwindWork } from './fiberUnwindWork';
-import { resetHooksOnUnwind } from './fiberHooks';
+import { unwindInterruptedWork, unwindWork } from './fiberUnwindWork';
+import { resetFiberStack } from './fiberStack';
+import { FCUpdateQueue, resetHooksOnUnwind } from './fiberHooks';
+import { resetTreeContext } from './fiberTreeContext';
+import { commitRootCache } from './fiberCache';
+import { createUpdate, enqueueUpdate, UpdateQueue } from './updateQueue';
+import { ReactElementType } from 'shared/ReactTypes';
 
 let workInProgress: FiberNode | null = null;
+// 正在渲染的root
+let workInProgressRoot: FiberRootNode | null = null;
 
 // 用于存储当前正在进行的渲染工作（针对整个 work-in-progress Fiber 树）的优先级（Lane）
 let wipRootRenderLane: Lane = NoLane;
@@ -61,20 +76,37 @@ const RootCompleted = 2;
 
 // 未完成状态，不用进入commit阶段
 const RootDidNotComplete = 3;
+// 渲染出错且没有边界能处理，放弃本次更新并抛出错误
+const RootFatalErrored = 4;
 let workInProgressRootExitStatus: number = RootInProgress;
+let workInProgressRootFatalError: unknown = null;
 
 // Suspense 挂起的原因
-type SuspendedReason = typeof NotSuspended | typeof SuspendedOnData;
+type SuspendedReason =
+	| typeof NotSuspended
+	| typeof SuspendedOnError
+	| typeof SuspendedOnData;
 const NotSuspended = 0;
+const SuspendedOnError = 1;
 const SuspendedOnData = 6;
 let workInProgressSuspendedReason: SuspendedReason = NotSuspended;
 let workInProgressThrownValue: any = null;
 
+// 同一个 root 连续嵌套提交的次数上限，超过时认为出现了无限循环
+const NESTED_UPDATE_LIMIT = 50;
+let nestedUpdateCount = 0;
+let rootWithNestedUpdates: FiberRootNode | null = null;
+// commit 阶段或 effect 回调中产生的更新所在的 lanes，提交这些 lanes 时计为一次嵌套提交
+let nestedUpdateLanes: Lanes = NoLanes;
+// 是否正在执行 commit 或 passive effect，此时产生的更新是上一次提交引起的
+let isCommittingOrFlushingEffects = false;
+
 /**
  * @function
  * @description 为新的渲染或更新周期准备初始环境和工作栈。
  * 				创建一个新的双缓冲树
  *              当开始一个新的渲染任务（或者当前渲染的优先级发生变化）时，此函数会被调用。
+ *              上一次被打断的 render 推入 fiber 栈的值会先被弹出，保证 context 等从干净的状态开始。
  * @param {FiberRootNode} root - FiberRootNode 实例，代表整个应用的根。
  * @param {Lane} lane - 本次更新工作的优先级 Lane。
  */
@@ -82,15 +114,55 @@ function prepareFreshStack(root: FiberRootNode, lane: Lane) {
 	root.finishedLane = NoLane;
 	root.finishedWork = null;
 
+	resetWorkInProgressStack();
+	resetFiberStack();
+
 	// 新的双缓冲树
 	workInProgress = createWorkInProgress(root.current, {});
+	workInProgressRoot = root;
+	resetTreeContext();
 
 	wipRootRenderLane = lane;
 	workInProgressRootExitStatus = RootInProgress;
+	workInProgressRootFatalError = null;
 	workInProgressSuspendedReason = NotSuspended;
 	workInProgressThrownValue = null;
 }
 
+/**
+ * @function resetWorkInProgressStack
+ * @description 丢弃被打断的 render：从 `workInProgress` 开始向上，
+ *              对每个已经 begin 但还没有 complete 的 fiber 调用 `unwindInterruptedWork`，弹出它们推入 fiber 栈的值。
+ */
+function resetWorkInProgressStack() {
+	if (workInProgress === null) {
+		return;
+	}
+	let interruptedWork: FiberNode | null;
+	if (workInProgressSuspendedReason === NotSuspended) {
+		// workInProgress 是下一个要 begin 的 fiber，还没有推入任何值
+		interruptedWork = workInProgress.return;
+	} else {
+		// workInProgress 在 beginWork 中抛出了异常，已经执行过 beginWork
+		resetHooksOnUnwind(workInProgress);
+		interruptedWork = workInProgress;
+	}
+	while (interruptedWork !== null) {
+		unwindInterruptedWork(interruptedWork);
+		interruptedWork = interruptedWork.return;
+	}
+	workInProgress = null;
+}
+
+/**
+ * @function getWorkInProgressRoot
+ * @description 获取当前正在渲染的 FiberRootNode，在 render 阶段之外可能是上一次渲染的 root 或 `null`。
+ * @returns {FiberRootNode | null}
+ */
+export function getWorkInProgressRoot(): FiberRootNode | null {
+	return workInProgressRoot;
+}
+
 /**
  * @function scheduleUpdateOnFiber
  * @description 调度一个在特定 Fiber 节点上发生的更新。
@@ -118,10 +190,56 @@ function prepareFreshStack(root: FiberRootNode, lane: Lane) {
  */
 export function scheduleUpdateOnFiber(fiber: FiberNode, lane: Lane) {
 	const root = markUpdateLaneFromFiberToRoot(fiber, lane);
+	checkForNestedUpdates();
+	if (isCommittingOrFlushingEffects) {
+		if (root !== rootWithNestedUpdates) {
+			rootWithNestedUpdates = root;
+			nestedUpdateCount = 0;
+			nestedUpdateLanes = NoLanes;
+		}
+		nestedUpdateLanes = mergeLanes(nestedUpdateLanes, lane);
+	}
 	markRootUpdated(root, lane);
 	ensureRootIsScheduled(root);
 }
 
+/**
+ * @function checkForNestedUpdates
+ * @description 检测 commit -> effect -> 更新 -> commit 的无限循环。
+ *              计数的是提交次数而不是更新次数 (见 `countNestedCommit`)，
+ *              因此一次提交中的多个 effect 各自更新一次不会被误认为是循环。
+ * @throws {Error} 同一个 root 连续的嵌套提交超过 `NESTED_UPDATE_LIMIT` 次后再产生更新时抛出错误。
+ */
+function checkForNestedUpdates() {
+	if (nestedUpdateCount > NESTED_UPDATE_LIMIT) {
+		nestedUpdateCount = 0;
+		rootWithNestedUpdates = null;
+		nestedUpdateLanes = NoLanes;
+		throw new Error(
+			'Maximum update depth exceeded. 组件在 useLayoutEffect 或 useEffect 中重复调用 setState，导致了无限循环'
+		);
+	}
+}
+
+/**
+ * @function countNestedCommit
+ * @description 在 `commitRoot` 中调用。提交的 lane 包含 commit 阶段或 useEffect 中产生的更新时，
+ *              说明这次提交是上一次提交引起的，嵌套提交次数加一；
+ *              已经没有这样的更新等待提交时，循环已经结束，计数清零。
+ */
+function countNestedCommit(root: FiberRootNode, lane: Lane) {
+	if (root !== rootWithNestedUpdates) {
+		return;
+	}
+	if (includeSomeLanes(nestedUpdateLanes, lane)) {
+		nestedUpdateCount++;
+		nestedUpdateLanes = removeLanes(nestedUpdateLanes, lane);
+	} else if (nestedUpdateLanes === NoLanes) {
+		nestedUpdateCount = 0;
+		rootWithNestedUpdates = null;
+	}
+}
+
 // schedule阶段入口
 /**
  * @function ensureRootIsScheduled
@@ -284,7 +402,31 @@ function performConcurrentWorkOnRoot(
 	}
 	const needSync = lane === SyncLane || didTimeout;
 	// render阶段
-	const exitStatus = renderRoot(root, lane, !needSync);
+	let exitStatus = renderRoot(root, lane, !needSync);
+
+	if (
+		exitStatus === RootCompleted &&
+		!needSync &&
+		!isRenderConsistentWithExternalStores(root.current.alternate as FiberNode)
+	) {
+		// 时间切片期间外部store发生了变化，同步重新render一次，避免撕裂
+		prepareFreshStack(root, lane);
+		exitStatus = renderRoot(root, lane, false);
+	}
+
+	let recoverableError: unknown = null;
+	let didRecoverFromError = false;
+	if (exitStatus === RootFatalErrored && !needSync) {
+		// 并发渲染可能读取到了被打断期间修改的数据，同步重试一次，成功则视为可恢复的错误
+		const error = workInProgressRootFatalError;
+		workInProgressRootFatalError = null;
+		prepareFreshStack(root, lane);
+		exitStatus = renderRoot(root, lane, false);
+		if (exitStatus !== RootFatalErrored) {
+			recoverableError = error;
+			didRecoverFromError = true;
+		}
+	}
 
 	switch (exitStatus) {
 		// 中断
@@ -305,11 +447,73 @@ function performConcurrentWorkOnRoot(
 			wipRootRenderLane = NoLane;
 			ensureRootIsScheduled(root);
 			break;
+		case RootFatalErrored:
+			handleUncaughtError(root, lane);
+			break;
 		default:
 			if (__DEV__) {
 				console.error('还未实现的并发更新结束状态');
 			}
 	}
+
+	if (didRecoverFromError) {
+		root.onRecoverableError(recoverableError);
+	}
+
+	// commit 阶段 (例如 useLayoutEffect 中) 产生了同优先级的更新时，
+	// ensureRootIsScheduled 会复用当前任务，需要返回继续执行的函数，否则这次更新会丢失
+	if (root.callbackNode === curCallbackNode) {
+		return performConcurrentWorkOnRoot.bind(null, root);
+	}
+	return null;
+}
+
+/**
+ * @function isRenderConsistentWithExternalStores
+ * @description 遍历带有 `StoreConsistency` 标记的 fiber，检查 `useSyncExternalStore` 在 render 时
+ *              读取到的快照与 store 的最新快照是否一致。
+ *              并发渲染会被时间切片打断，store 在两个切片之间被修改时，
+ *              同一次渲染中的不同组件可能读到不同的值 (撕裂)。
+ * @param {FiberNode} finishedWork - 本次渲染完成的 HostRoot fiber。
+ * @returns {boolean} 所有快照都一致时返回 `true`。
+ */
+function isRenderConsistentWithExternalStores(finishedWork: FiberNode) {
+	let node: FiberNode = finishedWork;
+	while (true) {
+		if ((node.flags & StoreConsistency) !== NoFlags) {
+			const updateQueue = node.updateQueue as FCUpdateQueue<any> | null;
+			const checks = updateQueue !== null ? updateQueue.stores : null;
+			if (checks !== null) {
+				for (let i = 0; i < checks.length; i++) {
+					const check = checks[i];
+					try {
+						if (!Object.is(check.getSnapshot(), check.value)) {
+							return false;
+						}
+					} catch {
+						return false;
+					}
+				}
+			}
+		}
+		const child = node.child;
+		if ((node.subtreeFlags & StoreConsistency) !== NoFlags && child !== null) {
+			child.return = node;
+			node = child;
+			continue;
+		}
+		if (node === finishedWork) {
+			return true;
+		}
+		while (node.sibling === null) {
+			if (node.return === null || node.return === finishedWork) {
+				return true;
+			}
+			node = node.return;
+		}
+		node.sibling.return = node.return;
+		node = node.sibling;
+	}
 }
 
 /**
@@ -349,6 +553,9 @@ function performSyncWorkOnRoot(root: FiberRootNode) {
 			markRootSuspended(root, nextLane);
 			ensureRootIsScheduled(root);
 			break;
+		case RootFatalErrored:
+			handleUncaughtError(root, nextLane);
+			break;
 		default:
 			if (__DEV__) {
 				console.error('还未实现的同步更新结束状态');
@@ -357,7 +564,43 @@ function performSyncWorkOnRoot(root: FiberRootNode) {
 	}
 }
 
-let c = 0;
+/**
+ * @function takeFatalError
+ * @description 渲染出错且没有边界处理时，放弃这个 lane 上的本次渲染，返回本次渲染的错误。
+ * @param {FiberRootNode} root - 出错的 root
+ * @param {Lane} lane - 本次渲染的 lane
+ * @returns {unknown} 渲染时抛出的错误
+ */
+function takeFatalError(root: FiberRootNode, lane: Lane) {
+	const error = workInProgressRootFatalError;
+	workInProgressRootFatalError = null;
+	wipRootRenderLane = NoLane;
+	root.pendingLanes = removeLanes(root.pendingLanes, lane);
+	ensureRootIsScheduled(root);
+	return error;
+}
+
+/**
+ * @function handleUncaughtError
+ * @description 渲染出错且没有边界处理时，把 root 卸载为空树，并通过 `root.onUncaughtError` 报告错误。
+ *              卸载通过一次 SyncLane 的 `null` 更新完成，错误只在这里报告一次。
+ * @param {FiberRootNode} root - 出错的 root
+ * @param {Lane} lane - 本次渲染的 lane
+ */
+function handleUncaughtError(root: FiberRootNode, lane: Lane) {
+	const error = takeFatalError(root, lane);
+
+	const hostRootFiber = root.current;
+	enqueueUpdate(
+		hostRootFiber.updateQueue as UpdateQueue<ReactElementType | null>,
+		createUpdate<ReactElementType | null>(null, SyncLane),
+		hostRootFiber,
+		SyncLane
+	);
+	scheduleUpdateOnFiber(hostRootFiber, SyncLane);
+
+	root.onUncaughtError(error);
+}
 
 /**
  * @function renderRoot
@@ -401,11 +644,20 @@ function renderRoot(root: FiberRootNode, lane: Lane, shouldTimeSlice: boolean) {
 				workInProgress !== null
 			) {
 				const thrownValue = workInProgressThrownValue;
+				const suspendedReason = workInProgressSuspendedReason;
 
 				workInProgressSuspendedReason = NotSuspended;
 				workInProgressThrownValue = null;
 
 				throwAndUnwindWorkLoop(root, workInProgress, thrownValue, lane);
+				if (
+					suspendedReason === SuspendedOnError &&
+					workInProgressRootExitStatus === RootDidNotComplete
+				) {
+					// unwind 到了 root 都没有能处理错误的边界
+					workInProgressRootExitStatus = RootFatalErrored;
+					workInProgressRootFatalError = thrownValue;
+				}
 			}
 			shouldTimeSlice ? workLoopConcurrent() : workLoopSync();
 			break;
@@ -413,11 +665,6 @@ function renderRoot(root: FiberRootNode, lane: Lane, shouldTimeSlice: boolean) {
 			if (__DEV__) {
 				console.warn('workLoop发生错误', e);
 			}
-			c++;
-			if (c > 20) {
-				break;
-				console.warn('break!');
-			}
 			handleThrow(root, e);
 		}
 	} while (true);
@@ -448,13 +695,16 @@ function renderRoot(root: FiberRootNode, lane: Lane, shouldTimeSlice: boolean) {
  *              4. 检查 `finishedWork` 是否有 `PassiveMask` 相关的 flags (表示存在 useEffect 副作用)。
  *                 如果是，并且之前没有调度过被动副作用的执行，则通过 `scheduleCallback` 安排
  *                 `flushPassiveEffects` 在稍后异步执行。
- *              5. 检查 `finishedWork` 是否有 `MutationMask` 或 `PassiveMask` 相关的 flags
- *                 (表示存在 DOM变更 或 useEffect 副作用)。
+ *              5. 检查 `finishedWork` 是否有三个子阶段或 `PassiveMask` 相关的 flags
+ *                 (表示存在 DOM变更、生命周期 或 useEffect 副作用)。
  *                 - 如果存在：
- *                   a. 执行 "mutation" 子阶段：调用 `commitMutationEffects` 来处理 DOM 的增删改、
+ *                   a. 执行 "beforeMutation" 子阶段：调用 `commitBeforeMutationEffects` 执行
+ *                      类组件的 `getSnapshotBeforeUpdate`，此时 DOM 还没有被修改。
+ *                   b. 执行 "mutation" 子阶段：调用 `commitMutationEffects` 来处理 DOM 的增删改、
  *                      ref 的分离、以及收集 `useEffect` 的销毁和创建回调。
- *                   b. 将 `root.current` 指针切换到 `finishedWork`，使其成为新的当前树。
- *                   c. 执行 "layout" 子阶段：调用 `commitLayoutEffects` 来处理 ref 的附加。
+ *                   c. 将 `root.current` 指针切换到 `finishedWork`，使其成为新的当前树。
+ *                   d. 执行 "layout" 子阶段：调用 `commitLayoutEffects` 来处理 ref 的附加、
+ *                      `useLayoutEffect` 以及类组件的 `componentDidMount` / `componentDidUpdate`。
  *                 - 如果不存在，直接将 `root.current` 指针切换到 `finishedWork`。
  *              6. 重置 `rootDoesHasPassiveEffects` 状态。
  *              7. 调用 `ensureRootIsScheduled` 来检查并调度任何在 commit 阶段可能产生的新更新。
@@ -482,6 +732,8 @@ function commitRoot(root: FiberRootNode) {
 	root.finishedLane = NoLane;
 
 	markRootFinished(root, lane);
+	commitRootCache(root, lane);
+	countNestedCommit(root, lane);
 
 	// 需要执行 useEffect 的回调
 	if (
@@ -502,25 +754,33 @@ function commitRoot(root: FiberRootNode) {
 
 	// 判断是否存在3个子阶段需要执行的操作
 	// root flags root subtreeFlags
-	const subtreeHasEffect =
-		(finishedWork.subtreeFlags & (MutationMask | PassiveMask)) !== NoFlags;
-	const rootHasEffect =
-		(finishedWork.flags & (MutationMask | PassiveMask)) !== NoFlags;
-
-	if (subtreeHasEffect || rootHasEffect) {
-		// 阶段1/3: beforeMutation
-		// 阶段2/3: mutation Placement
-		commitMutationEffects(finishedWork, root);
-
-		// fiber 树的切换
-		root.current = finishedWork;
-
-		// 阶段3/3: layout
-		commitLayoutEffects(finishedWork, root);
-	} else {
-		root.current = finishedWork;
+	const commitMask =
+		BeforeMutationMask | MutationMask | LayoutMask | PassiveMask;
+	const subtreeHasEffect = (finishedWork.subtreeFlags & commitMask) !== NoFlags;
+	const rootHasEffect = (finishedWork.flags & commitMask) !== NoFlags;
+
+	const prevIsCommittingOrFlushingEffects = isCommittingOrFlushingEffects;
+	isCommittingOrFlushingEffects = true;
+	try {
+		if (subtreeHasEffect || rootHasEffect) {
+			// 阶段1/3: beforeMutation
+			commitBeforeMutationEffects(finishedWork, root);
+
+			// 阶段2/3: mutation Placement
+			commitMutationEffects(finishedWork, root);
+
+			// fiber 树的切换
+			root.current = finishedWork;
+
+			// 阶段3/3: layout
+			commitLayoutEffects(finishedWork, root);
+		} else {
+			root.current = finishedWork;
+		}
+	} finally {
+		isCommittingOrFlushingEffects = prevIsCommittingOrFlushingEffects;
+		rootDoesHasPassiveEffects = false;
 	}
-	rootDoesHasPassiveEffects = false;
 	ensureRootIsScheduled(root);
 }
 
@@ -540,33 +800,53 @@ function commitRoot(root: FiberRootNode) {
  *              4. 调用 `flushSyncCallbacks`：处理在 `useEffect` 回调中可能同步触发的任何状态更新。
  *              5. 返回一个布尔值：指示是否实际执行了任何被动副作用。
  *
- * @param {PendingPassiveEffects} pendingPassiveEffects - 一个对象，包含 'unmount' 和 'update' 两个 Effect 数组。
+ *              回调抛出的错误会通过 `captureCommitPhaseError` 交给最近的 `<ErrorBoundary>` 处理。
+ *
+ * @param {PendingPassiveEffects} pendingPassiveEffects - 一个对象，包含 'unmount' 和 'update' 两个数组，元素为 fiber 与它的 Effect 链表。
  *                                                      这些 Effect 是在 commit 阶段收集的。
  * @returns {boolean} 如果至少执行了一个被动副作用的销毁或创建回调，则返回 `true`；否则返回 `false`。
  */
 function flushPassiveEffects(pendingPassiveEffects: PendingPassiveEffects) {
 	let didFlushPassiveEffect = false;
-	// 首先触发所有unmount effect
-	pendingPassiveEffects.unmount.forEach((effect) => {
-		didFlushPassiveEffect = true;
-		commitHookEffectListUnmount(Passive, effect);
-	});
-	pendingPassiveEffects.unmount = [];
-
-	// 触发所有上次更新的destroy
-	pendingPassiveEffects.update.forEach((effect) => {
-		didFlushPassiveEffect = true;
-		commitHookEffectListDestroy(Passive | HookHasEffect, effect);
-	});
-
-	// 触发所有这次更新的create
-	pendingPassiveEffects.update.forEach((effect) => {
-		didFlushPassiveEffect = true;
-		commitHookEffectListCreate(Passive | HookHasEffect, effect);
-	});
+	const prevIsCommittingOrFlushingEffects = isCommittingOrFlushingEffects;
+	isCommittingOrFlushingEffects = true;
+	try {
+		// 首先触发所有unmount effect
+		pendingPassiveEffects.unmount.forEach(({ fiber, lastEffect }) => {
+			didFlushPassiveEffect = true;
+			try {
+				commitHookEffectListUnmount(Passive, lastEffect);
+			} catch (error) {
+				captureCommitPhaseError(fiber, error);
+			}
+		});
+		pendingPassiveEffects.unmount = [];
+
+		// 触发所有上次更新的destroy
+		pendingPassiveEffects.update.forEach(({ fiber, lastEffect }) => {
+			didFlushPassiveEffect = true;
+			try {
+				commitHookEffectListDestroy(Passive | HookHasEffect, lastEffect);
+			} catch (error) {
+				captureCommitPhaseError(fiber, error);
+			}
+		});
+
+		// 触发所有这次更新的create
+		pendingPassiveEffects.update.forEach(({ fiber, lastEffect }) => {
+			didFlushPassiveEffect = true;
+			try {
+				commitHookEffectListCreate(Passive | HookHasEffect, lastEffect);
+			} catch (error) {
+				captureCommitPhaseError(fiber, error);
+			}
+		});
+	} finally {
+		isCommittingOrFlushingEffects = prevIsCommittingOrFlushingEffects;
+		pendingPassiveEffects.update = [];
+	}
 
 	// 回调过程中，触发的更新
-	pendingPassiveEffects.update = [];
 	flushSyncCallbacks();
 	return didFlushPassiveEffect;
 }
@@ -661,7 +941,8 @@ function handleThrow(root: FiberRootNode, thrownValue: any): void {
 		workInProgressSuspendedReason = SuspendedOnData;
 		thrownValue = getSuspenseThenable();
 	} else {
-		// TODO Error Boundary
+		// 渲染出错，下一轮循环中 unwind 寻找能处理错误的边界
+		workInProgressSuspendedReason = SuspendedOnError;
 	}
 	workInProgressThrownValue = thrownValue;
 }
@@ -690,7 +971,7 @@ function throwAndUnwindWorkLoop(
 ) {
 	// unwind前的重置hook，避免 hook0 use hook1 时 use造成中断，再恢复时前后hook对应不上
 	resetHooksOnUnwind(unitOfWork);
-	throwException(root, thrownValue, lane);
+	throwException(root, unitOfWork, thrownValue, lane);
 	unwindUnitOfWork(unitOfWork);
 }
 
@@ -698,7 +979,7 @@ function throwAndUnwindWorkLoop(
  * @function unwindUnitOfWork
  * @description "Unwind" 阶段的核心逻辑。当渲染过程中发生错误或 Suspense 挂起时，
  *              此函数会从发生问题的 Fiber 节点 (`unitOfWork`) 开始，向上遍历 Fiber 树，
- *              寻找能够处理该情况的边界组件（如 SuspenseComponent 或未来的 ErrorBoundary）。
+ *              寻找能够处理该情况的边界组件（SuspenseComponent 或 ErrorBoundaryComponent）。
  *
  *              对于每个遍历到的 Fiber 节点：
  *              1. 调用 `unwindWork` 函数，该函数会检查当前 Fiber 节点是否是能处理错误的边界类型。
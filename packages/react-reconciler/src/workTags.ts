@@ -7,25 +7,41 @@
  */
 export type WorkTag =
 	| typeof FunctionComponent
+	| typeof ClassComponent
 	| typeof HostRoot
+	| typeof HostPortal
 	| typeof HostComponent
 	| typeof HostText
 	| typeof Fragment
 	| typeof ContextProvider
+	| typeof ContextConsumer
 	| typeof SuspenseComponent
 	| typeof OffscreenComponent
-	| typeof MemoComponent;
+	| typeof MemoComponent
+	| typeof ForwardRef
+	| typeof LazyComponent
+	| typeof ErrorBoundaryComponent;
 
 /**
  * @constant FunctionComponent
  * @description 代表一个函数组件的 Fiber 节点。
  */
 export const FunctionComponent = 0;
+/**
+ * @constant ClassComponent
+ * @description 代表一个继承自 `React.Component` 的类组件，`stateNode` 保存组件实例。
+ */
+export const ClassComponent = 1;
 /**
  * @constant HostRoot
  * @description 代表 React 应用的根 Fiber 节点，通常与 FiberRootNode 关联。
  */
 export const HostRoot = 3;
+/**
+ * @constant HostPortal
+ * @description 代表一个通过 `createPortal()` 创建的 portal，`stateNode.containerInfo` 保存子节点挂载的容器。
+ */
+export const HostPortal = 4;
 /**
  * @constant HostComponent
  * @description 代表一个原生的宿主平台元素（例如，在 Web 上是 DOM 元素如 `<div>`, `<span>`）。
@@ -41,16 +57,31 @@ export const HostText = 6;
  * @description 代表一个 React Fragment (`<></>` 或 `<React.Fragment>`)。
  */
 export const Fragment = 7;
+/**
+ * @constant ForwardRef
+ * @description 代表一个通过 `React.forwardRef()` 包装的组件。
+ */
+export const ForwardRef = 11;
 /**
  * @constant ContextProvider
  * @description 代表一个 Context Provider 组件 (`<MyContext.Provider>`)。
  */
 export const ContextProvider = 8;
+/**
+ * @constant ContextConsumer
+ * @description 代表一个 Context Consumer 组件 (`<MyContext.Consumer>`)，children 是接收 context 值的渲染函数。
+ */
+export const ContextConsumer = 9;
 /**
  * @constant SuspenseComponent
  * @description 代表一个 Suspense 组件 (`<Suspense>`)。
  */
 export const SuspenseComponent = 13;
+/**
+ * @constant ErrorBoundaryComponent
+ * @description 代表一个内置的 `<ErrorBoundary>` 组件，`memoizedState` 保存捕获到的错误。
+ */
+export const ErrorBoundaryComponent = 19;
 /**
  * @constant OffscreenComponent
  * @description 代表一个 Offscreen 组件，用于实现如内容隐藏/显示等优化。
@@ -61,3 +92,9 @@ export const OffscreenComponent = 14;
  * @description 代表一个通过 `React.memo()` 包装的组件。
  */
 export const MemoComponent = 15;
+/**
+ * @constant LazyComponent
+ * @description 代表一个通过 `React.lazy()` 创建、模块还没有解析的组件。
+ *              解析完成后 fiber 会被重新标记为模块默认导出对应的类型。
+ */
+export const LazyComponent = 16;
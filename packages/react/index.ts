@@ -6,23 +6,111 @@ import { jsxDEV, jsx, isValidElement as isValidElementFn } from './src/jsx';
 // React
 
 export { REACT_SUSPENSE_TYPE as Suspense } from 'shared/ReactSymbols';
+export { REACT_ERROR_BOUNDARY_TYPE as ErrorBoundary } from 'shared/ReactSymbols';
 export { memo } from './src/memo';
+export { forwardRef } from './src/forwardRef';
+export { lazy } from './src/lazy';
+export { startTransition } from './src/startTransition';
+export { cache } from './src/cache';
+export { Component, PureComponent } from './src/component';
 
 export const useState: Dispatcher['useState'] = (initialState) => {
 	const dispatcher = resolveDispatcher();
 	return dispatcher.useState(initialState);
 };
 
+export const useReducer: Dispatcher['useReducer'] = (
+	reducer,
+	initialArg,
+	init
+) => {
+	const dispatcher = resolveDispatcher();
+	return dispatcher.useReducer(reducer, initialArg, init);
+};
+
 export const useEffect: Dispatcher['useEffect'] = (create, deps) => {
 	const dispatcher = resolveDispatcher();
 	return dispatcher.useEffect(create, deps);
 };
 
+export const useLayoutEffect: Dispatcher['useLayoutEffect'] = (
+	create,
+	deps
+) => {
+	const dispatcher = resolveDispatcher();
+	return dispatcher.useLayoutEffect(create, deps);
+};
+
+export const useInsertionEffect: Dispatcher['useInsertionEffect'] = (
+	create,
+	deps
+) => {
+	const dispatcher = resolveDispatcher();
+	return dispatcher.useInsertionEffect(create, deps);
+};
+
+export const useImperativeHandle: Dispatcher['useImperativeHandle'] = (
+	ref,
+	create,
+	deps
+) => {
+	const dispatcher = resolveDispatcher();
+	return dispatcher.useImperativeHandle(ref, create, deps);
+};
+
+export const useEffectEvent: Dispatcher['useEffectEvent'] = (callback) => {
+	const dispatcher = resolveDispatcher();
+	return dispatcher.useEffectEvent(callback);
+};
+
+export const useId: Dispatcher['useId'] = () => {
+	const dispatcher = resolveDispatcher();
+	return dispatcher.useId();
+};
+
+export const useSyncExternalStore: Dispatcher['useSyncExternalStore'] = (
+	subscribe,
+	getSnapshot,
+	getServerSnapshot
+) => {
+	const dispatcher = resolveDispatcher();
+	return dispatcher.useSyncExternalStore(
+		subscribe,
+		getSnapshot,
+		getServerSnapshot
+	);
+};
+
 export const useTransition: Dispatcher['useTransition'] = () => {
 	const dispatcher = resolveDispatcher();
 	return dispatcher.useTransition();
 };
 
+export const useDeferredValue: Dispatcher['useDeferredValue'] = (
+	value,
+	initialValue
+) => {
+	const dispatcher = resolveDispatcher();
+	return dispatcher.useDeferredValue(value, initialValue);
+};
+
+export const useOptimistic: Dispatcher['useOptimistic'] = (
+	passthrough,
+	reducer
+) => {
+	const dispatcher = resolveDispatcher();
+	return dispatcher.useOptimistic(passthrough, reducer);
+};
+
+export const useActionState: Dispatcher['useActionState'] = (
+	action,
+	initialState,
+	permalink
+) => {
+	const dispatcher = resolveDispatcher();
+	return dispatcher.useActionState(action, initialState, permalink);
+};
+
 export const useRef: Dispatcher['useRef'] = (initialValue) => {
 	const dispatcher = resolveDispatcher() as Dispatcher;
 	return dispatcher.useRef(initialValue);
@@ -33,6 +121,14 @@ export const useContext: Dispatcher['useContext'] = (context) => {
 	return dispatcher.useContext(context);
 };
 
+export const useContextSelector: Dispatcher['useContextSelector'] = (
+	context,
+	selector
+) => {
+	const dispatcher = resolveDispatcher() as Dispatcher;
+	return dispatcher.useContextSelector(context, selector);
+};
+
 export const useMemo: Dispatcher['useMemo'] = (nextCreate, deps) => {
 	const dispatcher = resolveDispatcher() as Dispatcher;
 	return dispatcher.useMemo(nextCreate, deps);
@@ -43,6 +139,21 @@ export const useCallback: Dispatcher['useCallback'] = (callback, deps) => {
 	return dispatcher.useCallback(callback, deps);
 };
 
+export const useMemoCache: Dispatcher['useMemoCache'] = (size) => {
+	const dispatcher = resolveDispatcher() as Dispatcher;
+	return dispatcher.useMemoCache(size);
+};
+
+export const useCacheRefresh: Dispatcher['useCacheRefresh'] = () => {
+	const dispatcher = resolveDispatcher() as Dispatcher;
+	return dispatcher.useCacheRefresh();
+};
+
+export const useDebugValue: Dispatcher['useDebugValue'] = (value, format) => {
+	const dispatcher = resolveDispatcher() as Dispatcher;
+	return dispatcher.useDebugValue(value, format);
+};
+
 // 内部数据共享层
 export const __SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED = {
 	currentDispatcher,
@@ -0,0 +1,104 @@
+import currentDispatcher from './currentDispatcher';
+
+const UNTERMINATED = 0;
+const TERMINATED = 1;
+const ERRORED = 2;
+
+/**
+ * @interface CacheNode
+ * @description 参数前缀树中的一个节点。
+ *              对象参数保存在 `objects` (WeakMap) 中，不会阻止参数被回收；原始值参数保存在 `primitives` (Map) 中。
+ *              走完所有参数后到达的节点保存调用结果 (或抛出的错误)。
+ */
+interface CacheNode<T> {
+	status: typeof UNTERMINATED | typeof TERMINATED | typeof ERRORED;
+	value: T | unknown;
+	objects: WeakMap<object, CacheNode<T>> | null;
+	primitives: Map<unknown, CacheNode<T>> | null;
+}
+
+function createCacheRoot<T>(): WeakMap<(...args: any[]) => T, CacheNode<T>> {
+	return new WeakMap();
+}
+
+function createCacheNode<T>(): CacheNode<T> {
+	return {
+		status: UNTERMINATED,
+		value: undefined,
+		objects: null,
+		primitives: null
+	};
+}
+
+/**
+ * @function cache
+ * @description 按参数 (引用相等) 缓存 `fn` 的结果，缓存的生命周期与 root 的渲染缓存一致。
+ *              常用于在 render 中获取数据：同一个参数在多次 render 中拿到同一个 Promise，可以直接交给 `use`。
+ *              在 render 之外调用时不做缓存，直接执行 `fn`。
+ * @param fn 需要缓存的函数
+ * @returns 带缓存的函数
+ */
+export function cache<A extends any[], T>(
+	fn: (...args: A) => T
+): (...args: A) => T {
+	return function (this: unknown, ...args: A): T {
+		const dispatcher = currentDispatcher.current;
+		if (dispatcher === null) {
+			return fn.apply(this, args);
+		}
+		const fnMap = dispatcher.getCacheForType(createCacheRoot<T>);
+		let cacheNode: CacheNode<T>;
+		const fnNode = fnMap.get(fn);
+		if (fnNode === undefined) {
+			cacheNode = createCacheNode();
+			fnMap.set(fn, cacheNode);
+		} else {
+			cacheNode = fnNode;
+		}
+		for (let i = 0; i < args.length; i++) {
+			const arg = args[i];
+			if (
+				typeof arg === 'function' ||
+				(typeof arg === 'object' && arg !== null)
+			) {
+				let objectCache: CacheNode<T>['objects'] = cacheNode.objects;
+				if (objectCache === null) {
+					objectCache = cacheNode.objects = new WeakMap();
+				}
+				let objectNode: CacheNode<T> | undefined = objectCache.get(arg);
+				if (objectNode === undefined) {
+					objectNode = createCacheNode();
+					objectCache.set(arg, objectNode);
+				}
+				cacheNode = objectNode;
+			} else {
+				let primitiveCache: CacheNode<T>['primitives'] = cacheNode.primitives;
+				if (primitiveCache === null) {
+					primitiveCache = cacheNode.primitives = new Map();
+				}
+				let primitiveNode: CacheNode<T> | undefined = primitiveCache.get(arg);
+				if (primitiveNode === undefined) {
+					primitiveNode = createCacheNode();
+					primitiveCache.set(arg, primitiveNode);
+				}
+				cacheNode = primitiveNode;
+			}
+		}
+		if (cacheNode.status === TERMINATED) {
+			return cacheNode.value as T;
+		}
+		if (cacheNode.status === ERRORED) {
+			throw cacheNode.value;
+		}
+		try {
+			const result = fn.apply(this, args);
+			cacheNode.status = TERMINATED;
+			cacheNode.value = result;
+			return result;
+		} catch (error) {
+			cacheNode.status = ERRORED;
+			cacheNode.value = error;
+			throw error;
+		}
+	};
+}
@@ -0,0 +1,104 @@
+// class App extends React.Component {/** ... */}
+
+import { Props } from 'shared/ReactTypes';
+import { FiberNode } from 'react-reconciler/src/fiber';
+
+/**
+ * @interface Updater
+ * @description 类组件实例上的 `updater`，由 reconciler 在创建实例时注入。
+ *              `setState`、`forceUpdate` 只负责参数校验，真正的更新调度交给 `updater` 完成。
+ */
+export interface Updater {
+	enqueueSetState: (
+		instance: Component<any, any>,
+		partialState: any,
+		callback: (() => void) | null
+	) => void;
+	enqueueForceUpdate: (
+		instance: Component<any, any>,
+		callback: (() => void) | null
+	) => void;
+}
+
+/**
+ * @description 实例还没有被 reconciler 接管 (例如在 constructor 中调用 setState) 时使用的 updater。
+ */
+const noopUpdater: Updater = {
+	enqueueSetState() {
+		if (__DEV__) {
+			console.error(
+				'不能在还未挂载的组件上调用 setState，请在 constructor 中直接给 this.state 赋值'
+			);
+		}
+	},
+	enqueueForceUpdate() {
+		if (__DEV__) {
+			console.error('不能在还未挂载的组件上调用 forceUpdate');
+		}
+	}
+};
+
+/**
+ * @class Component
+ * @description 类组件的基类。继承它的类会被 `createFiberFromElement` 识别为 `ClassComponent`。
+ *
+ * @property {Props} props - 组件接收到的 props。
+ * @property {State} state - 组件的状态，在 constructor 中初始化。
+ * @property {Updater} updater - 负责调度更新的对象，挂载时由 reconciler 替换。
+ * @property {FiberNode | null} _reactInternals - 实例对应的 fiber，挂载时由 reconciler 设置。
+ */
+export class Component<P = Props, S = any> {
+	props: P;
+	context: any;
+	state!: S;
+	updater: Updater;
+	_reactInternals: FiberNode | null = null;
+
+	constructor(props: P, context?: any, updater?: Updater) {
+		this.props = props;
+		this.context = context;
+		this.updater = updater || noopUpdater;
+	}
+
+	/**
+	 * @function setState
+	 * @description 安排一次状态更新，`partialState` 会被浅合并到当前 state 上。
+	 * @param partialState 要合并的部分状态，或者接收 `(prevState, props)` 并返回部分状态的函数
+	 * @param callback (可选) 更新被提交后执行的回调
+	 */
+	setState(
+		partialState:
+			| Partial<S>
+			| ((prevState: S, props: P) => Partial<S> | null)
+			| null,
+		callback?: () => void
+	) {
+		if (
+			typeof partialState !== 'object' &&
+			typeof partialState !== 'function' &&
+			partialState != null
+		) {
+			throw new Error('setState 的参数必须是对象或者返回对象的函数');
+		}
+		this.updater.enqueueSetState(this, partialState, callback || null);
+	}
+
+	/**
+	 * @function forceUpdate
+	 * @description 跳过 `shouldComponentUpdate`，强制组件重新渲染。
+	 * @param callback (可选) 更新被提交后执行的回调
+	 */
+	forceUpdate(callback?: () => void) {
+		this.updater.enqueueForceUpdate(this, callback || null);
+	}
+}
+// 用于区分类组件与函数组件
+(Component.prototype as any).isReactComponent = {};
+
+/**
+ * @class PureComponent
+ * @description 与 `Component` 相同，但没有定义 `shouldComponentUpdate` 时，
+ *              会浅比较 props 与 state，都没有变化则跳过渲染。
+ */
+export class PureComponent<P = Props, S = any> extends Component<P, S> {}
+(PureComponent.prototype as any).isPureReactComponent = true;
@@ -1,15 +1,33 @@
-import { REACT_CONTEXT_TYPE, REACT_PROVIDER_TYPE } from 'shared/ReactSymbols';
+import {
+	REACT_CONSUMER_TYPE,
+	REACT_CONTEXT_TYPE,
+	REACT_PROVIDER_TYPE
+} from 'shared/ReactSymbols';
 import { ReactContext } from 'shared/ReactTypes';
 
+/**
+ * @function createContext
+ * @description 创建一个 Context 对象。
+ *              - `<Context.Provider value>` 或直接渲染 `<Context value>` 向子树提供值。
+ *              - `<Context.Consumer>{(value) => ...}</Context.Consumer>` 或 `useContext(Context)` 读取最近的值。
+ *              - 可以设置 `Context.displayName`，用于警告信息和调试工具中的名字。
+ * @param {T} defaultValue - 没有匹配的 Provider 时读取到的值。
+ * @returns {ReactContext<T>}
+ */
 export function createContext<T>(defaultValue: T): ReactContext<T> {
 	const context: ReactContext<T> = {
 		$$typeof: REACT_CONTEXT_TYPE,
 		Provider: null,
+		Consumer: null,
 		_currentValue: defaultValue
 	};
 	context.Provider = {
 		$$typeof: REACT_PROVIDER_TYPE,
 		_context: context
 	};
+	context.Consumer = {
+		$$typeof: REACT_CONSUMER_TYPE,
+		_context: context
+	};
 	return context;
 }
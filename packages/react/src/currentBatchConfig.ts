@@ -1,9 +1,25 @@
+/**
+ * @interface Transition
+ * @description 一次 `startTransition` 调用的标识，执行期间保存在 `currentBatchConfig.transition` 上。
+ *              回调返回 Promise (async action) 时，reconciler 用它把 action 结束后的工作
+ *              (例如重置 `isPending`、撤销乐观更新) 与这次调用关联起来，而不影响其他 action。
+ */
+export interface Transition {
+	// 这次调用中进行中的 async action 数量，由 reconciler 维护
+	pendingActionCount: number;
+}
+
 interface BatchConfig {
-	transition: number | null;
+	transition: Transition | null;
+	// 由 reconciler 注册，`startTransition` 的回调执行完后调用，用于处理 async action
+	onStartTransitionFinish:
+		| ((transition: Transition, returnValue: unknown) => void)
+		| null;
 }
 
 const ReactCurrentBatchConfig: BatchConfig = {
-	transition: null
+	transition: null,
+	onStartTransitionFinish: null
 };
 
 export default ReactCurrentBatchConfig;
@@ -1,4 +1,4 @@
-import { Action, ReactContext, Usable } from 'shared/ReactTypes';
+import { Action, ReactContext, Reducer, Ref, Usable } from 'shared/ReactTypes';
 import { HookDeps } from 'react-reconciler/src/fiberHooks';
 /**
  * @interface Dispatcher
@@ -9,13 +9,60 @@ import { HookDeps } from 'react-reconciler/src/fiberHooks';
  */
 export interface Dispatcher {
 	useState: <T>(initialState: (() => T) | T) => [T, Dispatch<T>];
+	useReducer: <S, I, A>(
+		reducer: Reducer<S, A>,
+		initialArg: I,
+		init?: (initialArg: I) => S
+	) => [S, (action: A) => void];
+	useActionState: <S, P>(
+		action: (state: S, payload: P) => S | Promise<S>,
+		initialState: S,
+		permalink?: string
+	) => [S, (payload: P) => void, boolean];
 	useEffect: (callback: () => void | void, deps: HookDeps | undefined) => void;
-	useTransition: () => [boolean, (callback: () => void) => void];
+	useLayoutEffect: (
+		callback: () => void | void,
+		deps: HookDeps | undefined
+	) => void;
+	useInsertionEffect: (
+		callback: () => void | void,
+		deps: HookDeps | undefined
+	) => void;
+	useImperativeHandle: <T>(
+		ref: Ref | null | undefined,
+		create: () => T,
+		deps: HookDeps | undefined
+	) => void;
+	useEffectEvent: <F extends (...args: any[]) => any>(callback: F) => F;
+	useId: () => string;
+	useSyncExternalStore: <T>(
+		subscribe: (onStoreChange: () => void) => () => void,
+		getSnapshot: () => T,
+		getServerSnapshot?: () => T
+	) => T;
+	useTransition: () => [
+		boolean,
+		(callback: () => void | Promise<void>) => void
+	];
+	useDeferredValue: <T>(value: T, initialValue?: T) => T;
+	useOptimistic: <S, A>(
+		passthrough: S,
+		reducer?: (state: S, action: A) => S
+	) => [S, (action: A) => void];
 	useRef: <T>(initialValue: T) => { current: T };
 	useContext: <T>(context: ReactContext<T>) => T;
+	useContextSelector: <T, S>(
+		context: ReactContext<T>,
+		selector: (value: T) => S
+	) => S;
 	use: <T>(usable: Usable<T>) => T;
 	useMemo: <T>(nextCreate: () => T, deps: HookDeps | undefined) => T;
 	useCallback: <T>(callback: T, deps: HookDeps | undefined) => T;
+	useMemoCache: (size: number) => any[];
+	useCacheRefresh: () => () => void;
+	useDebugValue: <T>(value: T, format?: (value: T) => unknown) => void;
+	// 供 `cache(fn)` 读取当前 root 的渲染缓存，不是 Hook
+	getCacheForType: <T>(resourceType: () => T) => T;
 }
 
 /**
@@ -0,0 +1,31 @@
+// React.forwardRef(function Input(props, ref) {/** ... */})
+
+import { REACT_FORWARD_REF_TYPE } from 'shared/ReactSymbols';
+import { Props, Ref } from 'shared/ReactTypes';
+
+/**
+ * @function forwardRef
+ * @description 创建一个可以将 `ref` 转发给子组件的组件类型。
+ *              普通函数组件只接收 `props`，`ref` 会被 React 拦截；
+ *              而 `forwardRef` 包装后的渲染函数会以 `(props, ref)` 的形式被调用，
+ *              从而可以把 `ref` 绑定到内部的 DOM 节点上，或者配合 `useImperativeHandle` 暴露自定义的实例值。
+ *
+ * @param {(props: Props, ref: Ref | null) => any} render - 渲染函数，接收 props 和父组件传入的 ref。
+ * @returns {{ $$typeof: symbol | number, render: (props: Props, ref: Ref | null) => any }}
+ *          返回一个特殊的对象，用于在 Fiber 树中标识这是一个 ForwardRef 组件。
+ */
+export function forwardRef(render: (props: Props, ref: Ref | null) => any) {
+	if (__DEV__) {
+		if (typeof render !== 'function') {
+			console.error('forwardRef需要传入一个渲染函数', render);
+		} else if (render.length !== 0 && render.length !== 2) {
+			console.error('forwardRef的渲染函数应该接收两个参数：props和ref');
+		}
+	}
+	const elementType = {
+		$$typeof: REACT_FORWARD_REF_TYPE,
+		render
+	};
+	// forwardRef fiber.type.render
+	return elementType;
+}
@@ -0,0 +1,82 @@
+// const Foo = React.lazy(() => import('./Foo'))
+
+import { REACT_LAZY_TYPE } from 'shared/ReactSymbols';
+import {
+	FulfilledThenable,
+	PendingThenable,
+	RejectedThenable,
+	Thenable
+} from 'shared/ReactTypes';
+
+/**
+ * @interface LazyModule
+ * @description `lazy` 加载的模块，组件来自默认导出。
+ */
+export interface LazyModule<T> {
+	default: T;
+}
+
+/**
+ * @interface LazyComponent
+ * @description `lazy()` 返回的组件类型。
+ * @property {() => Thenable<LazyModule<T>>} preload - 开始加载模块并返回对应的 thenable，多次调用只会加载一次。
+ * @property {Thenable<LazyModule<T>> | null} _thenable - 加载模块的 thenable，还没有开始加载时为 `null`。
+ */
+export interface LazyComponent<T> {
+	$$typeof: symbol | number;
+	preload: () => Thenable<LazyModule<T>>;
+	_thenable: Thenable<LazyModule<T>> | null;
+}
+
+/**
+ * @function lazy
+ * @description 创建一个延迟加载的组件，常与 `import()` 搭配实现代码分割。
+ *              首次渲染时调用 `load` 加载模块，模块加载完成前组件会挂起，由最近的 `<Suspense>` 展示 fallback；
+ *              加载失败时错误交给最近的 `<ErrorBoundary>` 处理。
+ *              模块的默认导出可以是函数组件、类组件、`memo` 或 `forwardRef` 组件。
+ *
+ * @param {() => Thenable<LazyModule<T>>} load - 返回模块的函数，通常是 `() => import('./X')`。
+ * @returns {LazyComponent<T>} 可以直接作为元素类型使用的 lazy 组件，`preload()` 可以提前加载模块。
+ */
+export function lazy<T = any>(
+	load: () => Thenable<LazyModule<T>>
+): LazyComponent<T> {
+	const lazyType: LazyComponent<T> = {
+		$$typeof: REACT_LAZY_TYPE,
+		preload() {
+			if (lazyType._thenable === null) {
+				// 记录加载状态，模块在首次渲染前已经加载完成时不会再挂起
+				const thenable = load() as PendingThenable<LazyModule<T>, void, any>;
+				thenable.status = 'pending';
+				thenable.then(
+					(module) => {
+						if (thenable.status === 'pending') {
+							const fulfilled = thenable as unknown as FulfilledThenable<
+								LazyModule<T>,
+								void,
+								any
+							>;
+							fulfilled.status = 'fulfilled';
+							fulfilled.value = module;
+						}
+					},
+					(error) => {
+						if (thenable.status === 'pending') {
+							const rejected = thenable as unknown as RejectedThenable<
+								LazyModule<T>,
+								void,
+								any
+							>;
+							rejected.status = 'rejected';
+							rejected.reason = error;
+						}
+					}
+				);
+				lazyType._thenable = thenable;
+			}
+			return lazyType._thenable;
+		},
+		_thenable: null
+	};
+	return lazyType;
+}
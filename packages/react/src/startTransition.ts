@@ -0,0 +1,27 @@
+import ReactCurrentBatchConfig, { Transition } from './currentBatchConfig';
+
+/**
+ * @function startTransition
+ * @description 在组件之外启动一个 transition，例如在路由等非组件代码中。
+ *              `scope` 执行期间把这次调用的 `Transition` 设置到 `ReactCurrentBatchConfig.transition`，
+ *              其中触发的更新会通过 `requestUpdateLane` 获得 `TransitionLane`。
+ *              `scope` 可以是 async 函数，返回值交给 reconciler 注册的 `onStartTransitionFinish` 处理。
+ *              `await` 之后的更新需要再次包裹在 `startTransition` 中才属于 transition。
+ *              与 `useTransition` 返回的函数不同，它不提供 `isPending` 状态。
+ * @param {() => void | Promise<void>} scope - 包含需要作为 transition 执行的状态更新的回调。
+ */
+export function startTransition(scope: () => void | Promise<void>) {
+	const prevTransition = ReactCurrentBatchConfig.transition;
+	const transition: Transition = { pendingActionCount: 0 };
+	ReactCurrentBatchConfig.transition = transition;
+	try {
+		const returnValue = scope();
+		const onStartTransitionFinish =
+			ReactCurrentBatchConfig.onStartTransitionFinish;
+		if (onStartTransitionFinish !== null) {
+			onStartTransitionFinish(transition, returnValue);
+		}
+	} finally {
+		ReactCurrentBatchConfig.transition = prevTransition;
+	}
+}
@@ -21,6 +21,15 @@ export const REACT_FRAGMENT_TYPE = supportSymbol
 	? Symbol.for('react.fragment')
 	: 0xeaca;
 
+/**
+ * @constant REACT_PORTAL_TYPE
+ * @description 一个特殊的 Symbol (或数字)，用于标识通过 `createPortal()` 创建的 portal 对象。
+ *              portal 的子节点会被渲染到指定的容器中，但在 React 树中仍然属于创建它的组件。
+ */
+export const REACT_PORTAL_TYPE = supportSymbol
+	? Symbol.for('react.portal')
+	: 0xeacb;
+
 /**
  * @constant REACT_CONTEXT_TYPE
  * @description 一个特殊的 Symbol (或数字)，用于标识通过 `React.createContext()` 创建的 Context 对象。
@@ -39,6 +48,15 @@ export const REACT_PROVIDER_TYPE = supportSymbol
 	? Symbol.for('react.provider')
 	: 0xeac2;
 
+/**
+ * @constant REACT_CONSUMER_TYPE
+ * @description 一个特殊的 Symbol (或数字)，用于标识 Context Consumer 组件。
+ *              当使用 `<MyContext.Consumer>` 时，这个 Consumer 组件的 `$$typeof` 属性会被设置为这个值。
+ */
+export const REACT_CONSUMER_TYPE = supportSymbol
+	? Symbol.for('react.consumer')
+	: 0xeace;
+
 /**
  * @constant REACT_SUSPENSE_TYPE
  * @description 一个特殊的 Symbol (或数字)，用于标识 React Suspense 组件。
@@ -49,6 +67,15 @@ export const REACT_SUSPENSE_TYPE = supportSymbol
 	? Symbol.for('react.suspense')
 	: 0xead1;
 
+/**
+ * @constant REACT_ERROR_BOUNDARY_TYPE
+ * @description 一个特殊的 Symbol (或数字)，用于标识内置的 `<ErrorBoundary>` 组件。
+ *              子树在 render 或 commit 阶段抛出的错误会被最近的 `<ErrorBoundary>` 捕获，并展示 `fallback`。
+ */
+export const REACT_ERROR_BOUNDARY_TYPE = supportSymbol
+	? Symbol.for('react.error_boundary')
+	: 0xead9;
+
 /**
  * @constant REACT_MEMO_TYPE
  * @description 一个特殊的 Symbol (或数字)，用于标识通过 `React.memo()` 创建的 memoized 组件。
@@ -59,3 +86,31 @@ export const REACT_SUSPENSE_TYPE = supportSymbol
 export const REACT_MEMO_TYPE = supportSymbol
 	? Symbol.for('react.memo')
 	: 0xead3;
+
+/**
+ * @constant REACT_LAZY_TYPE
+ * @description 一个特殊的 Symbol (或数字)，用于标识通过 `React.lazy()` 创建的延迟加载组件。
+ *              `lazy()` 返回对象的 `$$typeof` 属性会被设置为这个值。
+ */
+export const REACT_LAZY_TYPE = supportSymbol
+	? Symbol.for('react.lazy')
+	: 0xead4;
+
+/**
+ * @constant REACT_FORWARD_REF_TYPE
+ * @description 一个特殊的 Symbol (或数字)，用于标识通过 `React.forwardRef()` 创建的组件。
+ *              被 `forwardRef` 包装的组件可以接收父组件传入的 `ref` 作为渲染函数的第二个参数。
+ *              `forwardRef()` 返回对象的 `$$typeof` 属性会被设置为这个值。
+ */
+export const REACT_FORWARD_REF_TYPE = supportSymbol
+	? Symbol.for('react.forward_ref')
+	: 0xead0;
+
+/**
+ * @constant REACT_MEMO_CACHE_SENTINEL
+ * @description `useMemoCache` 中表示 "该槽位还没有缓存值" 的哨兵值。
+ *              编译产物通过 `$[i] === Symbol.for('react.memo_cache_sentinel')` 判断是否需要首次计算。
+ */
+export const REACT_MEMO_CACHE_SENTINEL = supportSymbol
+	? Symbol.for('react.memo_cache_sentinel')
+	: 0xeadf;
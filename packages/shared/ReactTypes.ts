@@ -31,6 +31,22 @@ export interface ReactElementType {
 	__mark: string;
 }
 
+/**
+ * @interface ReactPortal
+ * @description `createPortal()` 返回的对象，描述了一组需要渲染到其他容器中的子节点。
+ *
+ * @property {symbol | number} $$typeof - 固定为 `REACT_PORTAL_TYPE`。
+ * @property {Key} key - portal 的 key，作为列表项时用于协调。
+ * @property {any} children - 需要渲染到 `containerInfo` 中的子节点。
+ * @property {any} containerInfo - 宿主环境的容器，例如 DOM 中的 `document.body`。
+ */
+export interface ReactPortal {
+	$$typeof: symbol | number;
+	key: Key;
+	children: any;
+	containerInfo: any;
+}
+
 /**
  * @typedef {State | ((prevState: State) => State)} Action
  * @template State
@@ -46,10 +62,21 @@ export interface ReactElementType {
  */
 export type Action<State> = State | ((prevState: State) => State);
 
+/**
+ * @typedef {(state: State, action: A) => State} Reducer
+ * @template State, A
+ * @description `useReducer` 使用的 reducer 函数类型。
+ *              接收当前状态和一个 action，返回计算后的新状态。
+ *              `useState` 实际上就是使用 `basicStateReducer` 作为 reducer 的 `useReducer`。
+ */
+export type Reducer<State, A> = (state: State, action: A) => State;
+
 export type ReactContext<T> = {
 	$$typeof: symbol | number;
 	Provider: ReactProviderType<T> | null;
+	Consumer: ReactConsumerType<T> | null;
 	_currentValue: T;
+	displayName?: string;
 };
 
 export type ReactProviderType<T> = {
@@ -57,6 +84,11 @@ export type ReactProviderType<T> = {
 	_context: ReactContext<T> | null;
 };
 
+export type ReactConsumerType<T> = {
+	$$typeof: symbol | number;
+	_context: ReactContext<T> | null;
+};
+
 export type Usable<T> = Thenable<T> | ReactContext<T>;
 
 export interface Wakeable<Result = any> {